@@ -0,0 +1,183 @@
+'use client'
+
+import { FormEvent, useEffect, useState } from 'react'
+import { OcrUsageReport, OcrUsageTotals, isOcrErrorCode } from '../../types'
+
+// 관리자 사용량 대시보드: 날짜별·API 키별 OCR 페이지 수, Vision 호출 수, 예상 비용
+// 관리자 토큰(OCR_ADMIN_TOKEN)은 이 탭의 sessionStorage에만 보관
+
+const TOKEN_STORAGE_KEY = 'ocrAdminToken'
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}초`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}분 ${seconds % 60}초`
+  return `${Math.floor(minutes / 60)}시간 ${minutes % 60}분`
+}
+
+function UsageRows({ rows, label, currency }: {
+  rows: (OcrUsageTotals & { label: string })[]
+  label: string
+  currency: string
+}) {
+  const cost = new Intl.NumberFormat('ko-KR', { style: 'currency', currency, maximumFractionDigits: 2 })
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b border-gray-200">
+          <th className="py-2 pr-3 font-medium">{label}</th>
+          <th className="py-2 pr-3 font-medium text-right">작업</th>
+          <th className="py-2 pr-3 font-medium text-right">실패</th>
+          <th className="py-2 pr-3 font-medium text-right">캐시 적중</th>
+          <th className="py-2 pr-3 font-medium text-right">OCR 페이지</th>
+          <th className="py-2 pr-3 font-medium text-right">Vision 호출</th>
+          <th className="py-2 pr-3 font-medium text-right">Vision 페이지</th>
+          <th className="py-2 pr-3 font-medium text-right">처리 시간</th>
+          <th className="py-2 font-medium text-right">예상 비용</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-b border-gray-100 text-gray-800">
+            <td className="py-2 pr-3">{row.label}</td>
+            <td className="py-2 pr-3 text-right">{row.jobs.toLocaleString()}</td>
+            <td className="py-2 pr-3 text-right">{row.failedJobs.toLocaleString()}</td>
+            <td className="py-2 pr-3 text-right">{row.cacheHits.toLocaleString()}</td>
+            <td className="py-2 pr-3 text-right">{row.ocrPages.toLocaleString()}</td>
+            <td className="py-2 pr-3 text-right">{row.visionCalls.toLocaleString()}</td>
+            <td className="py-2 pr-3 text-right">{row.visionPages.toLocaleString()}</td>
+            <td className="py-2 pr-3 text-right">{formatDuration(row.durationMs)}</td>
+            <td className="py-2 text-right">{cost.format(row.estimatedCost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function UsagePage() {
+  const [token, setToken] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [report, setReport] = useState<OcrUsageReport | null>(null)
+  const [error, setError] = useState<string>()
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? '')
+  }, [])
+
+  const loadReport = async (event?: FormEvent) => {
+    event?.preventDefault()
+    setLoading(true)
+    setError(undefined)
+    try {
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      const response = await fetch(`/api/admin/usage?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: 'no-store',
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        setReport(null)
+        setError(isOcrErrorCode(data?.code) ? data.error : `서버 오류 (${response.status})`)
+        return
+      }
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, token)
+      setReport(data)
+    } catch {
+      setError('서버에 연결하지 못했습니다')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-12 max-w-6xl space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">사용량</h1>
+
+        <form onSubmit={loadReport} className="bg-white rounded-2xl shadow-xl p-6 flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            관리자 토큰
+            <input
+              type="password"
+              value={token}
+              onChange={(event) => setToken(event.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            시작일 (UTC)
+            <input
+              type="date"
+              value={from}
+              onChange={(event) => setFrom(event.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            종료일 (UTC)
+            <input
+              type="date"
+              value={to}
+              onChange={(event) => setTo(event.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={!token || loading}
+            className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium shadow-md disabled:opacity-50"
+          >
+            {loading ? '불러오는 중...' : '조회'}
+          </button>
+          {!from && !to && <span className="text-xs text-gray-500">날짜를 비우면 최근 30일</span>}
+        </form>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {report && (
+          <>
+            <div className="bg-white rounded-2xl shadow-xl p-6 space-y-2">
+              <h2 className="text-xl font-bold text-gray-800">
+                {report.from} ~ {report.to} 합계
+              </h2>
+              <UsageRows
+                rows={[{ label: '전체', ...report.totals }]}
+                label="기간"
+                currency={report.currency}
+              />
+              <p className="text-xs text-gray-500">
+                예상 비용은 Vision 페이지 1,000장당 {report.pricePer1000Pages} {report.currency} 기준입니다
+                (OCR_VISION_PRICE_PER_1000). 캐시 적중과 페이지 캐시로 재사용한 페이지는 과금되지 않습니다.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-xl p-6 space-y-2">
+              <h2 className="text-xl font-bold text-gray-800">날짜별</h2>
+              <UsageRows
+                rows={report.days.map(({ day, ...row }) => ({ label: day, ...row }))}
+                label="날짜"
+                currency={report.currency}
+              />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-xl p-6 space-y-2">
+              <h2 className="text-xl font-bold text-gray-800">API 키별</h2>
+              <UsageRows
+                rows={report.keys.map(({ keyId, ...row }) => ({ label: keyId ?? '(키 없음)', ...row }))}
+                label="API 키"
+                currency={report.currency}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
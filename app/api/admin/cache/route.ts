@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminAuthError } from '../../../lib/adminAuth'
+import { logger } from '../../../lib/logger'
+import { withRequestId } from '../../../lib/requestContext'
+import { getResultCacheStats, purgeResultCache } from '../../../lib/resultCache'
+
+// 결과 캐시 상태 (항목 수, 사용 중인 크기, 최대 크기)
+export const GET = withRequestId(async (request: NextRequest) => {
+  const authError = adminAuthError(request)
+  if (authError) return authError
+
+  return NextResponse.json(await getResultCacheStats(), {
+    headers: { 'Cache-Control': 'no-store' },
+  })
+})
+
+// 결과 캐시 전체 삭제 (이미 완료된 작업의 결과 파일은 그대로 유지)
+export const DELETE = withRequestId(async (request: NextRequest) => {
+  const authError = adminAuthError(request)
+  if (authError) return authError
+
+  const purged = await purgeResultCache()
+  logger.info('결과 캐시 삭제', purged)
+  return NextResponse.json(purged)
+})
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminAuthError } from '../../../lib/adminAuth'
+import { isApiAuthEnabled, listApiKeys } from '../../../lib/apiKeys'
+import { errorResponse } from '../../../lib/errors'
+import { countActiveJobs, reservedPages } from '../../../lib/jobs'
+import { withRequestId } from '../../../lib/requestContext'
+import { getKeyUsage, usageDay } from '../../../lib/usageStore'
+
+// API 키별 한도와 오늘(UTC) 사용량, 진행 중인 작업 수와 그 작업이 예약한 페이지 수 (토큰은 포함하지 않음)
+export const GET = withRequestId(async (request: NextRequest) => {
+  const authError = adminAuthError(request)
+  if (authError) return authError
+
+  if (!isApiAuthEnabled()) {
+    return NextResponse.json({ enabled: false, day: usageDay(), keys: [] })
+  }
+
+  try {
+    const day = usageDay()
+    const keys = (await listApiKeys()).map((key) => ({
+      ...key,
+      usage: getKeyUsage(key.id, day),
+      activeJobs: countActiveJobs(key.id),
+      reservedPages: reservedPages(key.id),
+    }))
+    return NextResponse.json({ enabled: true, day, keys }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch {
+    return errorResponse('INTERNAL_ERROR', { message: 'API 키 설정을 읽지 못했습니다' })
+  }
+})
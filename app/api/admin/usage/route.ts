@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminAuthError } from '../../../lib/adminAuth'
+import { errorResponse } from '../../../lib/errors'
+import { logger } from '../../../lib/logger'
+import { withRequestId } from '../../../lib/requestContext'
+import { getUsageReport, usageDay } from '../../../lib/usageStore'
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DEFAULT_RANGE_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function invalidRange() {
+  return errorResponse('INVALID_REQUEST', {
+    message: 'from, to는 YYYY-MM-DD 형식이고 from이 to보다 늦을 수 없습니다',
+  })
+}
+
+// 사용량 보고: 날짜별·API 키별 작업 수, 페이지 수, Vision 호출 수, 예상 비용
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD (UTC, 양 끝 포함, 기본 최근 30일)
+export const GET = withRequestId(async (request: NextRequest) => {
+  const authError = adminAuthError(request)
+  if (authError) return authError
+
+  const searchParams = request.nextUrl.searchParams
+  const to = searchParams.get('to') || usageDay()
+  if (!DAY_PATTERN.test(to) || Number.isNaN(Date.parse(to))) {
+    return invalidRange()
+  }
+  const from = searchParams.get('from') || usageDay(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)
+  if (!DAY_PATTERN.test(from) || from > to) {
+    return invalidRange()
+  }
+
+  try {
+    return NextResponse.json(getUsageReport(from, to), { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    logger.error('사용량 보고 오류', { error })
+    return errorResponse('INTERNAL_ERROR', { message: '사용량 기록을 읽지 못했습니다' })
+  }
+})
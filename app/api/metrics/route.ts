@@ -0,0 +1,23 @@
+import { getQueueStats } from '../../lib/jobs'
+import { METRICS, renderMetrics } from '../../lib/metrics'
+import { activeProcessCount, childProcessRssBytes } from '../../lib/processRunner'
+import { withRequestId } from '../../lib/requestContext'
+
+// Prometheus 수집용 지표 (작업 수, 처리 시간, 대기열, 오류 코드별 실패, 자식 프로세스 메모리)
+export const GET = withRequestId(async () => {
+  const queue = getQueueStats()
+  const body = renderMetrics([
+    { metric: METRICS.queueDepth, value: queue.queued },
+    { metric: METRICS.jobsRunning, value: queue.running },
+    { metric: METRICS.childProcesses, value: activeProcessCount() },
+    { metric: METRICS.childProcessRss, value: await childProcessRssBytes() },
+    { metric: METRICS.processRss, value: process.memoryUsage().rss },
+  ])
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+})
@@ -0,0 +1,44 @@
+import { Readable } from 'stream'
+import { NextRequest } from 'next/server'
+import { authenticateApiRequest } from '../../../lib/apiAuth'
+import { errorResponse } from '../../../lib/errors'
+import { ARCHIVE_SIDECARS, ArchiveSidecar, MAX_ARCHIVE_JOBS, openBatchArchive } from '../../../lib/batchArchive'
+import { zipStream } from '../../../lib/zip'
+import { withRequestId } from '../../../lib/requestContext'
+
+// 여러 작업의 결과를 하나의 ZIP으로 내려받기 (만들면서 바로 전송하므로 디스크와 메모리에 ZIP을 따로 만들지 않음)
+// ?jobs=<id>,<id>,... (필수) &sidecars=txt,json (선택: 인식 텍스트와 단어 위치 JSON 함께 포함)
+export const GET = withRequestId(async (request: NextRequest) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const jobIds = Array.from(new Set(
+    (request.nextUrl.searchParams.get('jobs') ?? '').split(',').map((id) => id.trim()).filter(Boolean)
+  ))
+  if (jobIds.length === 0 || jobIds.length > MAX_ARCHIVE_JOBS) {
+    return errorResponse('INVALID_REQUEST', {
+      message: `jobs에 작업 ID를 1~${MAX_ARCHIVE_JOBS}개 쉼표로 구분해 지정하세요`,
+    })
+  }
+
+  const sidecars = (request.nextUrl.searchParams.get('sidecars') ?? '').split(',').filter(Boolean)
+  if (!sidecars.every((sidecar) => (ARCHIVE_SIDECARS as readonly string[]).includes(sidecar))) {
+    return errorResponse('INVALID_REQUEST', {
+      message: `sidecars는 ${ARCHIVE_SIDECARS.join(', ')} 중에서 고를 수 있습니다`,
+    })
+  }
+
+  const entries = await openBatchArchive(jobIds, sidecars as ArchiveSidecar[], auth.apiKey?.id)
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)
+  const fileName = `OCR_결과_${timestamp}.zip`
+
+  return new Response(Readable.toWeb(Readable.from(zipStream(entries))) as ReadableStream<Uint8Array>, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'Cache-Control': 'no-store',
+      'X-OCR-FileName': encodeURIComponent(fileName),
+    },
+  })
+})
@@ -0,0 +1,57 @@
+import { createReadStream } from 'fs'
+import { stat } from 'fs/promises'
+import { Readable } from 'stream'
+import { NextRequest } from 'next/server'
+import { authenticateApiRequest, isOwnedBy } from '../../../../../lib/apiAuth'
+import { errorResponse } from '../../../../../lib/errors'
+import { getJob } from '../../../../../lib/jobs'
+import { withRequestId } from '../../../../../lib/requestContext'
+import { RESULT_FORMATS, isOcrResultFormat, resultFileName } from '../../../../../lib/resultFormats'
+
+// 완료된 작업의 결과 다운로드 (보관 기간 동안 여러 번 받을 수 있음)
+// ?format=pdf | hocr | alto | zip | txt | json (없으면 요청한 결과물, 여러 개면 zip)
+export const GET = withRequestId(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const { id } = await params
+  const job = getJob(id)
+
+  if (!job || !isOwnedBy(auth.apiKey, job.apiKeyId)) {
+    return errorResponse('JOB_NOT_FOUND')
+  }
+
+  if (job.state !== 'done') {
+    return errorResponse('JOB_NOT_READY')
+  }
+
+  const format = request.nextUrl.searchParams.get('format') ?? job.primaryFormat
+  const filePath = isOcrResultFormat(format) ? job.results[format] : undefined
+  if (!isOcrResultFormat(format) || !filePath) {
+    return errorResponse('INVALID_REQUEST', {
+      message: `이 작업에서 받을 수 있는 형식: ${Object.keys(job.results).join(', ')}`,
+    })
+  }
+
+  const fileName = resultFileName(job.outputFileName, format)
+
+  // 결과 파일을 메모리에 올리지 않고 디스크에서 바로 스트림으로 응답 (큰 PDF도 서버 메모리 사용량 일정)
+  // 응답 직전에 보관 기간이 지나 파일이 지워졌으면 없는 작업으로 처리
+  const size = await stat(filePath).then((info) => info.size, () => null)
+  if (size === null) {
+    return errorResponse('JOB_NOT_FOUND')
+  }
+
+  return new Response(Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>, {
+    status: 200,
+    headers: {
+      'Content-Type': RESULT_FORMATS[format].contentType,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'Content-Length': String(size),
+      'X-OCR-FileName': encodeURIComponent(fileName),
+    },
+  })
+})
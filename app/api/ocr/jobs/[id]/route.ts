@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest, isOwnedBy } from '../../../../lib/apiAuth'
+import { errorResponse } from '../../../../lib/errors'
+import { cancelJob, getJob, toJobStatus } from '../../../../lib/jobs'
+import { withRequestId } from '../../../../lib/requestContext'
+
+// 작업 상태 조회 (queued / running / done / failed)
+export const GET = withRequestId(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const { id } = await params
+  const job = getJob(id)
+
+  // 다른 키의 작업은 없는 것으로 처리
+  if (!job || !isOwnedBy(auth.apiKey, job.apiKeyId)) {
+    return errorResponse('JOB_NOT_FOUND')
+  }
+
+  return NextResponse.json(toJobStatus(job), {
+    headers: { 'Cache-Control': 'no-store' },
+  })
+})
+
+// 작업 취소 (대기 중이거나 실행 중인 작업만 해당, 완료된 결과는 보관 기간 후 자동 삭제)
+export const DELETE = withRequestId(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const { id } = await params
+  const job = getJob(id)
+
+  if (!job || !isOwnedBy(auth.apiKey, job.apiKeyId)) {
+    return errorResponse('JOB_NOT_FOUND')
+  }
+
+  await cancelJob(job)
+  return NextResponse.json(toJobStatus(job), { status: 202 })
+})
@@ -1,154 +1,184 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { exec } from 'child_process'
-import { writeFile, readFile, unlink } from 'fs/promises'
-import { tmpdir } from 'os'
-import path from 'path'
-import { promisify } from 'util'
+import { OcrServerStatus } from '../../types'
+import { authenticateApiRequest, isOwnedBy } from '../../lib/apiAuth'
+import { assertOutputsSupported, getAllowedEngines, getDefaultEngine, selectEngine } from '../../lib/engines'
+import { OcrError, errorResponse } from '../../lib/errors'
+import { InvalidOcrOptionsError, parseOcrOptions } from '../../lib/ocrOptions'
+import { logger } from '../../lib/logger'
+import { METRICS, incrementCounter } from '../../lib/metrics'
+import {
+  ConcurrentJobLimitError,
+  DailyQuotaError,
+  QueueFullError,
+  assertDailyQuota,
+  createJob,
+  getQueueStats,
+  toJobStatus,
+} from '../../lib/jobs'
+import { MAX_FORM_UPLOAD_BYTES, MAX_UPLOAD_BYTES, PUBLIC_URL, UPLOAD_CHUNK_BYTES } from '../../lib/config'
+import {
+  StagedUpload,
+  UploadTooLargeError,
+  discardUpload,
+  stageUploadBuffer,
+  stageUploadStream,
+} from '../../lib/uploads'
+import {
+  UploadSession,
+  deleteUploadSession,
+  finalizeUploadSession,
+  getUploadSession,
+  releaseUploadSession,
+} from '../../lib/uploadSessions'
+import { createWebhookDelivery, parseCallbackUrl } from '../../lib/webhooks'
+import { currentRequestId, withRequestId } from '../../lib/requestContext'
 
-const execAsync = promisify(exec)
-
-// 파일명에서 확장자 추출 및 _OCR 추가
-function generateOCRFileName(originalFileName: string): string {
-  const lastDotIndex = originalFileName.lastIndexOf('.')
-
-  if (lastDotIndex === -1) {
-    return `${originalFileName}_OCR.pdf`
+// 서버 헬스체크용 GET 엔드포인트 (서버 깨우기 + 상태 확인)
+export const GET = withRequestId(async () => {
+  const body: OcrServerStatus = {
+    status: 'ok',
+    timestamp: Date.now(),
+    engines: getAllowedEngines(),
+    defaultEngine: getDefaultEngine(),
+    queue: getQueueStats(),
+    limits: {
+      maxUploadBytes: MAX_UPLOAD_BYTES,
+      maxFormUploadBytes: MAX_FORM_UPLOAD_BYTES,
+      uploadChunkBytes: UPLOAD_CHUNK_BYTES,
+    },
   }
+  return NextResponse.json(body)
+})
 
-  const nameWithoutExt = originalFileName.substring(0, lastDotIndex)
-  return `${nameWithoutExt}_OCR.pdf`
+function fileTooLarge(limitBytes: number) {
+  return errorResponse('FILE_TOO_LARGE', {
+    message: `파일이 너무 큽니다. 파일당 ${Math.round(limitBytes / (1024 * 1024))}MB 이하만 가능합니다.`,
+  })
 }
 
-// 서버 헬스체크용 GET 엔드포인트 (서버 깨우기 + 상태 확인)
-export async function GET() {
-  return NextResponse.json({ status: 'ok', timestamp: Date.now() })
-}
+// OCR 작업 등록: 파일을 저장하고 즉시 작업 ID 반환 (처리는 백그라운드에서 진행)
+// - 본문이 PDF(application/pdf)면 디스크로 바로 저장하고, 파일명·엔진·옵션은 쿼리 문자열로 받음
+// - multipart/form-data는 본문 전체를 메모리에 읽으므로 MAX_FORM_UPLOAD_BYTES까지만 허용
+// - 쿼리에 uploadId가 있으면 이어 올리기(/api/ocr/uploads)로 받은 파일로 등록 (본문 없음)
+// - API 키를 쓰면 본문을 받기 전에 키와 하루 페이지 한도를 확인
+// - callbackUrl을 지정하면 작업이 끝났을 때 그 주소로 서명한 완료 알림(웹훅)을 보냄
+export const POST = withRequestId(async (request: NextRequest) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
 
-export async function POST(request: NextRequest) {
-  let inputPath = ''
-  let outputPath = ''
+  let upload: StagedUpload | null = null
+  let session: UploadSession | null = null
 
   try {
-    // Google Vision API 키 확인
-    const apiKey = process.env.GOOGLE_VISION_API_KEY
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'GOOGLE_VISION_API_KEY가 설정되지 않았습니다' },
-        { status: 500 }
-      )
-    }
+    assertDailyQuota(auth.apiKey)
 
-    // FormData로 파일 수신
-    const formData = await request.formData()
-    const file = formData.get('file') as File | null
-    const originalFileName = formData.get('originalFileName') as string | null
+    const isForm = (request.headers.get('content-type') ?? '').startsWith('multipart/form-data')
+    const limitBytes = isForm ? MAX_FORM_UPLOAD_BYTES : MAX_UPLOAD_BYTES
 
-    if (!file || !originalFileName) {
-      return NextResponse.json(
-        { error: 'PDF 파일과 파일명이 필요합니다' },
-        { status: 400 }
-      )
+    // Content-Length가 한도를 넘으면 본문을 받기 전에 거절
+    if (Number(request.headers.get('content-length')) > limitBytes) {
+      return fileTooLarge(limitBytes)
     }
 
-    // 파일 크기 체크: 개당 최대 20MB
-    const fileSizeMB = file.size / (1024 * 1024)
-    if (fileSizeMB > 20) {
-      return NextResponse.json(
-        { error: `파일 크기(${fileSizeMB.toFixed(1)}MB)가 너무 큽니다. 파일당 20MB 이하만 가능합니다.` },
-        { status: 413 }
-      )
+    const formData = isForm ? await request.formData() : null
+    const field = (name: string) =>
+      formData ? (formData.get(name) as string | null) : request.nextUrl.searchParams.get(name)
+    const uploadId = request.nextUrl.searchParams.get('uploadId')
+    if (uploadId) {
+      const found = getUploadSession(uploadId)
+      if (!found || !isOwnedBy(auth.apiKey, found.apiKeyId)) {
+        return errorResponse('UPLOAD_NOT_FOUND')
+      }
+      session = found
+    }
+    const originalFileName = field('originalFileName') || session?.fileName
+
+    // OCR 엔진 결정 (미지정 시 서버 기본값, Vision 사용 불가 시 요청한 출력을 만들 수 있으면 Tesseract로 대체)
+    const options = parseOcrOptions(field('options'))
+    const engineSelection = selectEngine(field('engine'), options.outputs)
+    assertOutputsSupported(engineSelection.engine, options.outputs)
+    const callbackUrl = field('callbackUrl')
+    const webhook = callbackUrl
+      ? createWebhookDelivery(await parseCallbackUrl(callbackUrl), PUBLIC_URL || request.nextUrl.origin)
+      : undefined
+
+    if (!originalFileName) {
+      return errorResponse('INVALID_REQUEST', { message: 'PDF 파일과 파일명이 필요합니다' })
     }
 
-    // File → Buffer 변환
-    const arrayBuffer = await file.arrayBuffer()
-    const pdfBuffer = Buffer.from(arrayBuffer)
-
-    // 임시 파일 경로 생성
-    const timestamp = Date.now()
-    const random = Math.random().toString(36).substring(7)
-    inputPath = path.join(tmpdir(), `ocr-input-${timestamp}-${random}.pdf`)
-    outputPath = path.join(tmpdir(), `ocr-output-${timestamp}-${random}.pdf`)
-
-    // 입력 PDF를 임시 파일로 저장
-    await writeFile(inputPath, pdfBuffer)
-
-    // ocrmypdf 실행: 극한 메모리 최적화
-    const pluginPath = path.join(process.cwd(), 'ocr_plugin.py')
-    const command = [
-      'ocrmypdf',
-      `--plugin "${pluginPath}"`,  // Google Vision API OCR 엔진
-      '--force-ocr',               // 강제 OCR 적용
-      '-j 1',                      // ★ 핵심: 1페이지씩 순차 처리 (병렬 금지 → 메모리 대폭 절약)
-      '--optimize 0',              // ★ 최적화 단계 건너뛰기 (추가 메모리 사용 방지)
-      '--output-type pdf',         // 출력 형식 명시
-      '--skip-big 25',             // 25메가픽셀 이상 이미지 건너뜀
-      '--jpeg-quality 60',         // JPEG 품질 낮춤 (중간 파일 크기 감소)
-      '--fast-web-view 0',         // Fast Web View 비활성화 (메모리 절약)
-      `"${inputPath}"`,
-      `"${outputPath}"`,
-    ].join(' ')
+    const uploadStartedAt = Date.now()
+    if (session) {
+      upload = await finalizeUploadSession(session)
+    } else if (formData) {
+      const file = formData.get('file') as File | null
+      if (!file) {
+        return errorResponse('INVALID_REQUEST', { message: 'PDF 파일과 파일명이 필요합니다' })
+      }
+      if (file.size > limitBytes) {
+        return fileTooLarge(limitBytes)
+      }
+      upload = await stageUploadBuffer(Buffer.from(await file.arrayBuffer()))
+    } else if (request.body) {
+      upload = await stageUploadStream(request.body, limitBytes)
+    }
 
-    await execAsync(command, {
-      timeout: 600000, // 10분 타임아웃 (순차 처리라 더 오래 걸림)
-      maxBuffer: 5 * 1024 * 1024, // 5MB (로그용)
-      env: {
-        ...process.env,
-        GOOGLE_VISION_API_KEY: apiKey,
-      },
+    if (!upload || upload.size === 0) {
+      return errorResponse('INVALID_REQUEST', { message: 'PDF 파일과 파일명이 필요합니다' })
+    }
+    // 이어 올리기로 받은 바이트는 조각을 받을 때 이미 셈
+    const source = session ? 'session' : formData ? 'form' : 'stream'
+    if (!session) incrementCounter(METRICS.uploadBytes, { source }, upload.size)
+    logger.info('업로드 완료', {
+      stage: 'upload',
+      source,
+      uploadId: session?.id,
+      bytes: upload.size,
+      durationMs: Date.now() - uploadStartedAt,
     })
 
-    // 출력 PDF를 바이너리로 직접 응답 (Base64 인코딩 제거 → 메모리 ~33% 절약)
-    const outputBuffer = await readFile(outputPath)
-    const newFileName = generateOCRFileName(originalFileName)
+    const job = await createJob(originalFileName, upload, engineSelection, options, {
+      apiKey: auth.apiKey,
+      webhook,
+      requestId: currentRequestId(),
+    })
+    if (!job.cacheHit) upload = null  // 작업 디렉터리로 옮겨짐
+    if (session) {
+      // 이어 올리기 업로드는 작업 등록으로 끝남 (캐시 적중이면 받은 파일도 함께 삭제)
+      await deleteUploadSession(session)
+      upload = null
+    }
 
-    // 바이너리 PDF 스트림으로 응답 (JSON + Base64 대신)
-    return new Response(outputBuffer, {
-      status: 200,
+    // 캐시 적중이면 이미 완료된 작업이므로 200, 아니면 처리 예정이므로 202
+    return NextResponse.json(toJobStatus(job), {
+      status: job.cacheHit ? 200 : 202,
       headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(newFileName)}`,
-        'Content-Length': String(outputBuffer.length),
-        'X-OCR-FileName': encodeURIComponent(newFileName),
+        Location: `/api/ocr/jobs/${job.id}`,
+        'X-OCR-Cache': job.cacheHit ? 'HIT' : 'MISS',
       },
     })
   } catch (error) {
-    console.error('OCR 처리 오류:', error)
-
-    if (error instanceof Error) {
-      let errorMessage = error.message
-
-      if (errorMessage.includes('No such file or directory')) {
-        errorMessage =
-          'OCR 엔진이 설치되지 않았습니다. 서버 관리자에게 문의하세요.'
-      } else if (errorMessage.includes('PriorOcrFoundError')) {
-        errorMessage = '이 PDF에는 이미 텍스트 레이어가 존재합니다.'
-      } else if (errorMessage.includes('timeout')) {
-        errorMessage =
-          'OCR 처리 시간이 초과되었습니다. 더 작은 파일로 시도해주세요.'
-      } else if (errorMessage.includes('GOOGLE_VISION_API_KEY')) {
-        errorMessage = 'Google Vision API 키가 설정되지 않았습니다.'
-      } else if (errorMessage.includes('MemoryError') || errorMessage.includes('ENOMEM') || errorMessage.includes('Killed')) {
-        errorMessage = '서버 메모리가 부족합니다. 더 작은 파일(10페이지 이하)로 시도해주세요.'
-      }
-
-      return NextResponse.json({ error: errorMessage }, { status: 500 })
+    if (error instanceof UploadTooLargeError) {
+      return fileTooLarge(error.limitBytes)
     }
-
-    return NextResponse.json(
-      { error: 'OCR 처리 중 알 수 없는 오류가 발생했습니다' },
-      { status: 500 }
-    )
-  } finally {
-    // 임시 파일 정리
-    try {
-      if (inputPath) await unlink(inputPath)
-    } catch {
-      /* ignore */
+    // 대기열이 가득 찼거나 API 키의 동시 작업 수·하루 페이지 한도에 닿았을 때: 클라이언트는 Retry-After 후 다시 등록
+    if (error instanceof QueueFullError || error instanceof ConcurrentJobLimitError || error instanceof DailyQuotaError) {
+      return errorResponse(error.code, {
+        message: error.message,
+        headers: { 'Retry-After': String(error.retryAfterSeconds) },
+      })
+    }
+    if (error instanceof OcrError) {
+      return errorResponse(error.code, { message: error.message })
     }
-    try {
-      if (outputPath) await unlink(outputPath)
-    } catch {
-      /* ignore */
+    if (error instanceof InvalidOcrOptionsError) {
+      return errorResponse('INVALID_OPTIONS', { message: error.message })
     }
+
+    logger.error('OCR 작업 등록 오류', { error })
+    return errorResponse('INTERNAL_ERROR', { message: 'OCR 작업을 등록하지 못했습니다' })
+  } finally {
+    // 이어 올리기 업로드는 등록에 실패해도 남겨 두어 다시 보내지 않고 재시도할 수 있게 함
+    if (upload && session) releaseUploadSession(session)
+    else if (upload) await discardUpload(upload)
   }
-}
+})
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest, isOwnedBy } from '../../../../lib/apiAuth'
+import { OcrError, errorResponse } from '../../../../lib/errors'
+import { logger } from '../../../../lib/logger'
+import { METRICS, incrementCounter } from '../../../../lib/metrics'
+import { withRequestId } from '../../../../lib/requestContext'
+import { UploadTooLargeError } from '../../../../lib/uploads'
+import {
+  appendUploadChunk,
+  cancelUploadSession,
+  getUploadSession,
+  toUploadStatus,
+} from '../../../../lib/uploadSessions'
+
+// 받은 위치 조회 (끊긴 업로드를 이어서 보낼 위치)
+export const GET = withRequestId(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const { id } = await params
+  const session = getUploadSession(id)
+
+  // 다른 키의 업로드는 없는 것으로 처리
+  if (!session || !isOwnedBy(auth.apiKey, session.apiKeyId)) {
+    return errorResponse('UPLOAD_NOT_FOUND')
+  }
+
+  return NextResponse.json(toUploadStatus(session), {
+    headers: { 'Cache-Control': 'no-store', 'Upload-Offset': String(session.offset) },
+  })
+})
+
+// 조각 추가: Upload-Offset 헤더가 서버가 받은 위치와 같아야 하고, 본문은 그 위치부터의 바이트
+// 위치가 다르면 409와 함께 서버 위치(Upload-Offset)를 알려줌
+export const PATCH = withRequestId(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const { id } = await params
+  const session = getUploadSession(id)
+
+  if (!session || !isOwnedBy(auth.apiKey, session.apiKeyId)) {
+    return errorResponse('UPLOAD_NOT_FOUND')
+  }
+
+  const offset = Number(request.headers.get('upload-offset'))
+  if (!Number.isSafeInteger(offset) || offset < 0 || !request.body) {
+    return errorResponse('INVALID_REQUEST', { message: 'Upload-Offset 헤더와 조각 본문이 필요합니다' })
+  }
+
+  try {
+    await appendUploadChunk(session, offset, request.body)
+    incrementCounter(METRICS.uploadBytes, { source: 'session' }, session.offset - offset)
+    logger.info('업로드 조각 수신', {
+      stage: 'upload',
+      uploadId: id,
+      bytes: session.offset - offset,
+      offset: session.offset,
+      size: session.size,
+    })
+    return NextResponse.json(toUploadStatus(session), {
+      headers: { 'Upload-Offset': String(session.offset) },
+    })
+  } catch (error) {
+    const headers = { 'Upload-Offset': String(session.offset) }
+    if (error instanceof UploadTooLargeError) {
+      return errorResponse('FILE_TOO_LARGE', {
+        message: `조각이 업로드 시작 때 알려준 파일 크기(${session.size}바이트)를 넘었습니다`,
+        headers,
+      })
+    }
+    if (error instanceof OcrError) {
+      return errorResponse(error.code, { message: error.message, headers })
+    }
+
+    // 연결이 끊긴 경우 등: 받은 위치까지는 남아 있으므로 클라이언트가 위치를 조회해 이어서 보냄
+    logger.warn('업로드 조각 수신 실패', { stage: 'upload', uploadId: id, offset: session.offset, error })
+    return errorResponse('INTERNAL_ERROR', { message: '업로드 조각을 받지 못했습니다', headers })
+  }
+})
+
+// 업로드 취소 (받은 조각 삭제), 조각을 받거나 작업으로 등록하는 중이면 409
+export const DELETE = withRequestId(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const { id } = await params
+  const session = getUploadSession(id)
+
+  if (!session || !isOwnedBy(auth.apiKey, session.apiKeyId)) {
+    return errorResponse('UPLOAD_NOT_FOUND')
+  }
+
+  try {
+    await cancelUploadSession(session)
+  } catch (error) {
+    if (error instanceof OcrError) return errorResponse(error.code, { message: error.message })
+    throw error
+  }
+  return new NextResponse(null, { status: 204 })
+})
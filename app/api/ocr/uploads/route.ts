@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '../../../lib/apiAuth'
+import { MAX_UPLOAD_BYTES } from '../../../lib/config'
+import { errorResponse } from '../../../lib/errors'
+import { logger } from '../../../lib/logger'
+import { withRequestId } from '../../../lib/requestContext'
+import { UploadLimitError, createUploadSession, toUploadStatus } from '../../../lib/uploadSessions'
+
+// 이어 올리기 업로드 시작: { fileName, size }를 받아 업로드 ID와 권장 조각 크기 반환
+// 조각은 PATCH /api/ocr/uploads/:id로 보내고, 모두 받으면 POST /api/ocr?uploadId=...로 작업 등록
+export const POST = withRequestId(async (request: NextRequest) => {
+  const auth = await authenticateApiRequest(request)
+  if (auth.error) return auth.error
+
+  const body = await request.json().catch(() => null)
+  const fileName = typeof body?.fileName === 'string' ? body.fileName : ''
+  const size = body?.size
+
+  if (!fileName || !Number.isSafeInteger(size) || size <= 0) {
+    return errorResponse('INVALID_REQUEST', { message: '파일명과 파일 크기(바이트)가 필요합니다' })
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return errorResponse('FILE_TOO_LARGE', {
+      message: `파일이 너무 큽니다. 파일당 ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))}MB 이하만 가능합니다.`,
+    })
+  }
+
+  let session
+  try {
+    session = await createUploadSession(fileName, size, auth.apiKey?.id)
+  } catch (error) {
+    // 진행 중인 업로드 수·크기 한도: 올리던 파일을 마치거나 Retry-After 후 다시 시작
+    if (error instanceof UploadLimitError) {
+      return errorResponse(error.code, {
+        message: error.message,
+        headers: { 'Retry-After': String(error.retryAfterSeconds) },
+      })
+    }
+    throw error
+  }
+  logger.info('이어 올리기 시작', { stage: 'upload', uploadId: session.id, size })
+  return NextResponse.json(toUploadStatus(session), {
+    status: 201,
+    headers: { Location: `/api/ocr/uploads/${session.id}`, 'Upload-Offset': '0' },
+  })
+})
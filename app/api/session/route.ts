@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OcrSessionStatus } from '../../types'
+import { createSessionToken, sessionKeyId, setSessionCookie, verifyUiPassword } from '../../lib/apiAuth'
+import { getApiKey, isApiAuthEnabled } from '../../lib/apiKeys'
+import { UI_API_KEY_ID, UI_PASSWORD } from '../../lib/config'
+import { errorResponse } from '../../lib/errors'
+import { withRequestId } from '../../lib/requestContext'
+
+// 웹 UI 세션 발급: { password }가 OCR_UI_PASSWORD와 같으면 OCR_UI_API_KEY 키로 인증되는 쿠키를 설정
+// 유효한 세션 쿠키가 있으면 비밀번호 없이 갱신, API 키 인증을 쓰지 않으면 쿠키 없이 authRequired: false
+export const POST = withRequestId(async (request: NextRequest) => {
+  if (!isApiAuthEnabled()) {
+    const body: OcrSessionStatus = { authRequired: false }
+    return NextResponse.json(body)
+  }
+
+  if (!UI_API_KEY_ID || !UI_PASSWORD) {
+    return errorResponse('FORBIDDEN', {
+      message: '웹 UI 세션이 비활성화되어 있습니다 (OCR_UI_API_KEY 또는 OCR_UI_PASSWORD 미설정). API 키로 요청하세요.',
+    })
+  }
+
+  if (sessionKeyId(request) !== UI_API_KEY_ID) {
+    const body = await request.json().catch(() => null)
+    const password = typeof body?.password === 'string' ? body.password : ''
+    if (!verifyUiPassword(password)) {
+      return errorResponse('UNAUTHORIZED', {
+        message: password ? '웹 UI 비밀번호가 올바르지 않습니다' : '웹 UI 비밀번호가 필요합니다',
+      })
+    }
+  }
+
+  const apiKey = await getApiKey(UI_API_KEY_ID).catch(() => undefined)
+  if (!apiKey || apiKey.disabled) {
+    return errorResponse('FORBIDDEN', { message: '웹 UI용 API 키를 찾을 수 없거나 사용이 중지되었습니다' })
+  }
+
+  const { token, expiresAt } = createSessionToken(apiKey.id)
+  const body: OcrSessionStatus = { authRequired: true, keyId: apiKey.id, expiresAt }
+  const response = NextResponse.json(body, { headers: { 'Cache-Control': 'no-store' } })
+  setSessionCookie(request, response, token, expiresAt)
+  return response
+})
@@ -1,15 +1,30 @@
 'use client'
 
-import { FileStatus } from '../types'
+import { useState } from 'react'
+import { FileStatus, OCR_ERRORS, OcrResultFormat } from '../types'
+import { RESULT_FORMATS } from '../lib/resultFormats'
+import { InvalidOcrOptionsError, parsePageRanges } from '../lib/ocrOptions'
+import OcrPreview, { OcrPreviewSource } from './OcrPreview'
 
 interface FileListProps {
   files: FileStatus[]
   onDownload: (file: FileStatus) => void
+  onDownloadExport: (file: FileStatus, format: OcrResultFormat) => void
   onRemove: (id: string) => void
   onRetry: (file: FileStatus) => void
+  onPageRangeChange: (id: string, pageRange: string) => void
+  onLoadPreview: (file: FileStatus) => Promise<OcrPreviewSource>
 }
 
-export default function FileList({ files, onDownload, onRemove, onRetry }: FileListProps) {
+export default function FileList({
+  files,
+  onDownload,
+  onDownloadExport,
+  onRemove,
+  onRetry,
+  onPageRangeChange,
+  onLoadPreview,
+}: FileListProps) {
   return (
     <div className="space-y-4">
       {files.map((file) => (
@@ -17,8 +32,11 @@ export default function FileList({ files, onDownload, onRemove, onRetry }: FileL
           key={file.id}
           file={file}
           onDownload={onDownload}
+          onDownloadExport={onDownloadExport}
           onRemove={onRemove}
           onRetry={onRetry}
+          onPageRangeChange={onPageRangeChange}
+          onLoadPreview={onLoadPreview}
         />
       ))}
     </div>
@@ -28,11 +46,59 @@ export default function FileList({ files, onDownload, onRemove, onRetry }: FileL
 interface FileItemProps {
   file: FileStatus
   onDownload: (file: FileStatus) => void
+  onDownloadExport: (file: FileStatus, format: OcrResultFormat) => void
   onRemove: (id: string) => void
   onRetry: (file: FileStatus) => void
+  onPageRangeChange: (id: string, pageRange: string) => void
+  onLoadPreview: (file: FileStatus) => Promise<OcrPreviewSource>
 }
 
-function FileItem({ file, onDownload, onRemove, onRetry }: FileItemProps) {
+const EXPORT_TITLES: Record<OcrResultFormat, string> = {
+  pdf: '검색 가능한 PDF',
+  hocr: 'hOCR',
+  alto: 'ALTO XML',
+  zip: '전체 결과 묶음',
+  txt: '인식 텍스트',
+  json: '단어 위치와 신뢰도가 포함된 JSON',
+}
+
+// 미리보기에서 페이지 구분자(\f)를 보이는 구분선으로 표시
+function formatPreview(text: string): string {
+  const preview = text.length > 500 ? `${text.substring(0, 500)}...` : text
+  return preview.replace(/\f/g, '\n──────── 다음 페이지 ────────\n')
+}
+
+// 페이지 범위 입력값의 오류 메시지 (올바르면 undefined)
+export function pageRangeError(pageRange: string | undefined): string | undefined {
+  try {
+    parsePageRanges(pageRange ?? '')
+    return undefined
+  } catch (error) {
+    return error instanceof InvalidOcrOptionsError ? error.message : '페이지 범위를 읽을 수 없습니다'
+  }
+}
+
+function FileItem({
+  file,
+  onDownload,
+  onDownloadExport,
+  onRemove,
+  onRetry,
+  onPageRangeChange,
+  onLoadPreview,
+}: FileItemProps) {
+  const [previewOpen, setPreviewOpen] = useState(false)
+  // 같은 설정으로 다시 보내도 실패할 오류면 대기 목록으로 돌려 설정을 바꾸게 함
+  const isRetryable = !file.errorCode || OCR_ERRORS[file.errorCode].retryable
+  // 기본 다운로드(processedBlob)와 겹치지 않는 개별 결과 형식 (PDF와 zip은 기본 다운로드로만 받음)
+  const exportFormats = (file.resultFormats ?? []).filter(
+    (format) => format !== file.primaryFormat && format !== 'pdf' && format !== 'zip'
+  )
+  const rangeError = file.status === 'pending' ? pageRangeError(file.pageRange) : undefined
+  // 단어 위치(json)와 결과 PDF가 모두 있어야 미리보기 가능 (Vision, Mock 엔진)
+  const canPreview = file.status === 'completed' &&
+    !!file.resultFormats?.includes('json') && !!file.resultFormats.includes('pdf')
+
   const getStatusIcon = () => {
     switch (file.status) {
       case 'pending':
@@ -101,6 +167,28 @@ function FileItem({ file, onDownload, onRemove, onRetry }: FileItemProps) {
             <p className={`text-sm font-medium mt-1 ${getStatusColor()}`}>
               {getStatusText()}
             </p>
+            {/* OCR할 페이지: 대기 중에는 입력, 시작한 뒤에는 고정된 범위 표시 */}
+            {file.status === 'pending' ? (
+              <div className="mt-2">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  OCR할 페이지
+                  <input
+                    type="text"
+                    value={file.pageRange ?? ''}
+                    onChange={(event) => onPageRangeChange(file.id, event.target.value)}
+                    placeholder="전체 (예: 1-3,10,15-)"
+                    className={`w-48 px-2 py-1 border rounded-lg text-sm bg-white ${
+                      rangeError ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                  />
+                </label>
+                {rangeError && <p className="text-xs text-red-600 mt-1">{rangeError}</p>}
+              </div>
+            ) : (
+              file.ocrOptions?.pages && (
+                <p className="text-xs text-gray-500 mt-1">OCR한 페이지: {file.ocrOptions.pages}</p>
+              )
+            )}
             {file.error && (
               <div className="mt-1">
                 <p className="text-sm text-red-600">오류: {file.error}</p>
@@ -108,7 +196,7 @@ function FileItem({ file, onDownload, onRemove, onRetry }: FileItemProps) {
                   onClick={() => onRetry(file)}
                   className="mt-2 px-4 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors text-sm font-medium shadow-sm hover:shadow-md"
                 >
-                  다시 시도
+                  {isRetryable ? '다시 시도' : '설정 변경 후 다시 시도'}
                 </button>
               </div>
             )}
@@ -116,6 +204,17 @@ function FileItem({ file, onDownload, onRemove, onRetry }: FileItemProps) {
         </div>
 
         <div className="flex items-center space-x-2 ml-4">
+          {file.status === 'completed' &&
+            exportFormats.map((format) => (
+              <button
+                key={format}
+                onClick={() => onDownloadExport(file, format)}
+                className="px-3 py-2 border border-primary-300 text-primary-700 rounded-lg hover:bg-primary-50 transition-colors text-sm font-medium"
+                title={`${EXPORT_TITLES[format]} 다운로드`}
+              >
+                .{RESULT_FORMATS[format].extension}
+              </button>
+            ))}
           {file.status === 'completed' && (
             <button
               onClick={() => onDownload(file)}
@@ -160,19 +259,30 @@ function FileItem({ file, onDownload, onRemove, onRetry }: FileItemProps) {
       )}
 
       {/* Extracted Text Preview */}
-      {file.extractedText && file.status === 'completed' && (
+      {file.extractedText !== undefined && file.status === 'completed' && (
         <details className="mt-3">
           <summary className="cursor-pointer text-sm font-medium text-gray-700 hover:text-primary-600">
             추출된 텍스트 미리보기
           </summary>
           <div className="mt-2 p-3 bg-white rounded border border-gray-200 max-h-40 overflow-y-auto">
             <p className="text-xs text-gray-600 whitespace-pre-wrap">
-              {file.extractedText.substring(0, 500)}
-              {file.extractedText.length > 500 && '...'}
+              {file.extractedText.trim() ? formatPreview(file.extractedText) : '인식된 텍스트가 없습니다.'}
             </p>
           </div>
         </details>
       )}
+
+      {/* OCR 결과 미리보기 (열 때만 PDF와 단어 위치를 불러옴) */}
+      {canPreview && (
+        <details className="mt-3" onToggle={(event) => setPreviewOpen(event.currentTarget.open)}>
+          <summary className="cursor-pointer text-sm font-medium text-gray-700 hover:text-primary-600">
+            인식 결과 미리보기 (단어 위치와 신뢰도)
+          </summary>
+          <div className="mt-2">
+            {previewOpen && <OcrPreview file={file} onLoad={onLoadPreview} />}
+          </div>
+        </details>
+      )}
     </div>
   )
 }
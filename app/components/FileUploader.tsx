@@ -3,15 +3,18 @@
 import { useCallback, useState } from 'react'
 
 const MAX_FILES = 20
-const MAX_FILE_SIZE_MB = 20  // 개당 최대 20MB
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024
 
 interface FileUploaderProps {
   currentFileCount: number
+  maxFileSizeBytes?: number  // 서버 업로드 한도 (GET /api/ocr, 모르면 서버에서 확인)
   onFilesSelected: (files: File[]) => void
 }
 
-export default function FileUploader({ currentFileCount, onFilesSelected }: FileUploaderProps) {
+export function formatSizeMB(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))}MB`
+}
+
+export default function FileUploader({ currentFileCount, maxFileSizeBytes, onFilesSelected }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
 
@@ -31,13 +34,14 @@ export default function FileUploader({ currentFileCount, onFilesSelected }: File
     }
 
     // 크기 제한 초과 체크
-    const oversizedFiles = files.filter((f) => f.size > MAX_FILE_SIZE_BYTES)
+    const isOversized = (f: File) => maxFileSizeBytes !== undefined && f.size > maxFileSizeBytes
+    const oversizedFiles = files.filter(isOversized)
     if (oversizedFiles.length > 0) {
       const names = oversizedFiles.map((f) => f.name).join(', ')
-      errors.push(`${MAX_FILE_SIZE_MB}MB를 초과하는 파일은 제외됩니다: ${names}`)
+      errors.push(`${formatSizeMB(maxFileSizeBytes!)}를 초과하는 파일은 제외됩니다: ${names}`)
     }
 
-    const validFiles = files.filter((f) => f.size <= MAX_FILE_SIZE_BYTES)
+    const validFiles = files.filter((f) => !isOversized(f))
 
     if (errors.length > 0) {
       setErrorMessage(errors.join('\n'))
@@ -46,7 +50,7 @@ export default function FileUploader({ currentFileCount, onFilesSelected }: File
     }
 
     return validFiles
-  }, [currentFileCount])
+  }, [currentFileCount, maxFileSizeBytes])
 
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -159,7 +163,7 @@ export default function FileUploader({ currentFileCount, onFilesSelected }: File
         </p>
         
         <p className="text-sm text-gray-500">
-          최대 {MAX_FILES}개 / 개당 {MAX_FILE_SIZE_MB}MB 이하
+          최대 {MAX_FILES}개{maxFileSizeBytes !== undefined && ` / 개당 ${formatSizeMB(maxFileSizeBytes)} 이하`}
         </p>
         
         <div className="mt-6 inline-block px-6 py-3 bg-primary-600 text-white rounded-lg font-medium shadow-md hover:bg-primary-700 transition-colors">
@@ -0,0 +1,216 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { FileStatus, OcrDocumentStructure, OcrPageStructure, OcrWord } from '../types'
+
+// 결과 PDF 페이지 위에 인식한 단어 위치를 신뢰도별 색으로 겹쳐 보여주는 미리보기
+// 단어 위치는 format=json 결과(Vision, Mock 엔진)를 사용하고, 페이지는 pdf.js로 브라우저에서 그림
+
+export interface OcrPreviewSource {
+  pdf: Blob
+  structure: OcrDocumentStructure
+}
+
+interface OcrPreviewProps {
+  file: FileStatus
+  onLoad: (file: FileStatus) => Promise<OcrPreviewSource>
+}
+
+// 페이지를 그릴 너비 (CSS 픽셀, 화면 배율만큼 더 크게 그려 선명하게 표시)
+const RENDER_WIDTH = 800
+
+// 신뢰도 구간별 색 (높은 구간부터)
+const CONFIDENCE_LEVELS = [
+  { min: 0.9, label: '90% 이상', box: 'border-green-500 bg-green-400/10', swatch: 'bg-green-500' },
+  { min: 0.7, label: '70~90%', box: 'border-amber-500 bg-amber-400/20', swatch: 'bg-amber-500' },
+  { min: 0, label: '70% 미만', box: 'border-red-500 bg-red-400/20', swatch: 'bg-red-500' },
+]
+
+function confidenceLevel(confidence: number) {
+  return CONFIDENCE_LEVELS.find((level) => confidence >= level.min) ?? CONFIDENCE_LEVELS[CONFIDENCE_LEVELS.length - 1]
+}
+
+function pageWords(page: OcrPageStructure): OcrWord[] {
+  return page.blocks.flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => line.words))
+  )
+}
+
+// pdf.js는 브라우저에서만 동작하므로 미리보기를 열 때 불러옴
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist')
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+  }
+  return pdfjs
+}
+
+export default function OcrPreview({ file, onLoad }: OcrPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [structure, setStructure] = useState<OcrDocumentStructure | null>(null)
+  const [error, setError] = useState<string>()
+  const [pageNumber, setPageNumber] = useState(1)
+  const [showOverlay, setShowOverlay] = useState(true)
+  const [selectedWord, setSelectedWord] = useState<OcrWord | null>(null)
+
+  // 완료한 파일은 상태가 더 바뀌지 않으므로 미리보기를 연 동안 한 번만 불러옴
+  const loadSource = useCallback(() => onLoad(file), [onLoad, file])
+
+  // 결과 PDF와 단어 위치 불러오기 (미리보기를 닫으면 pdf.js 문서 해제)
+  useEffect(() => {
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+
+    const load = async () => {
+      try {
+        const source = await loadSource()
+        const pdfjs = await loadPdfjs()
+        loaded = await pdfjs.getDocument({ data: new Uint8Array(await source.pdf.arrayBuffer()) }).promise
+        if (cancelled) return
+        setPdf(loaded)
+        setStructure(source.structure)
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : '미리보기를 불러오지 못했습니다')
+        }
+      }
+    }
+    void load()
+
+    return () => {
+      cancelled = true
+      void loaded?.destroy()
+    }
+  }, [loadSource])
+
+  // 현재 페이지 그리기 (페이지를 빠르게 넘기면 이전 그리기는 취소)
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return
+    const canvas = canvasRef.current
+    let renderTask: RenderTask | null = null
+    let cancelled = false
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber)
+      if (cancelled) return
+      const scale = (RENDER_WIDTH * window.devicePixelRatio) / page.getViewport({ scale: 1 }).width
+      const viewport = page.getViewport({ scale })
+      canvas.width = Math.floor(viewport.width)
+      canvas.height = Math.floor(viewport.height)
+      renderTask = page.render({ canvas, viewport })
+      await renderTask.promise
+    }
+    render().catch((renderError) => {
+      if (!cancelled && renderError?.name !== 'RenderingCancelledException') {
+        setError('페이지를 그리지 못했습니다')
+      }
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber])
+
+  const pages = useMemo(
+    () => new Map((structure?.pages ?? []).map((page) => [page.page, page])),
+    [structure]
+  )
+  const page = pages.get(pageNumber)
+  const words = useMemo(() => (page ? pageWords(page) : []), [page])
+
+  const goToPage = (next: number) => {
+    setPageNumber(next)
+    setSelectedWord(null)
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">미리보기 오류: {error}</p>
+  }
+  if (!pdf) {
+    return <p className="text-sm text-gray-500">미리보기를 불러오는 중...</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <button
+          onClick={() => goToPage(pageNumber - 1)}
+          disabled={pageNumber <= 1}
+          className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+        >
+          이전
+        </button>
+        <span>
+          {pageNumber} / {pdf.numPages} 페이지
+        </span>
+        <button
+          onClick={() => goToPage(pageNumber + 1)}
+          disabled={pageNumber >= pdf.numPages}
+          className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+        >
+          다음
+        </button>
+        <label className="flex items-center gap-1.5 ml-auto">
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            onChange={(event) => setShowOverlay(event.target.checked)}
+          />
+          단어 위치 표시
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {CONFIDENCE_LEVELS.map((level) => (
+          <span key={level.label} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${level.swatch}`} />
+            신뢰도 {level.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="relative border border-gray-200 bg-white" style={{ maxWidth: RENDER_WIDTH }}>
+        <canvas ref={canvasRef} className="block w-full h-auto" />
+        {/* 단어 bbox는 OCR에 사용한 페이지 이미지 기준 픽셀이므로 페이지 크기에 대한 비율로 배치 */}
+        {showOverlay && page && (
+          <div className="absolute inset-0">
+            {words.map((word, index) => {
+              const [x0, y0, x1, y1] = word.bbox
+              return (
+                <button
+                  key={index}
+                  onClick={() => setSelectedWord(word)}
+                  title={`${word.text} (${Math.round(word.confidence * 100)}%)`}
+                  className={`absolute border ${confidenceLevel(word.confidence).box} ${
+                    word === selectedWord ? 'ring-2 ring-primary-500' : ''
+                  }`}
+                  style={{
+                    left: `${(100 * x0) / page.width}%`,
+                    top: `${(100 * y0) / page.height}%`,
+                    width: `${(100 * (x1 - x0)) / page.width}%`,
+                    height: `${(100 * (y1 - y0)) / page.height}%`,
+                  }}
+                />
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {!page && <p className="text-xs text-gray-500">이 페이지는 인식 결과가 없습니다 (OCR하지 않은 페이지).</p>}
+      {selectedWord && (
+        <div className="p-3 bg-white rounded border border-gray-200 text-sm">
+          <p className="text-gray-900">
+            <span className="font-medium">단어:</span> {selectedWord.text}
+          </p>
+          <p className="text-gray-600">
+            <span className="font-medium">신뢰도:</span> {(selectedWord.confidence * 100).toFixed(1)}%
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { OcrEngineType, OcrLanguage, OcrMode, OcrOptions, OcrOutputFormat } from '../types'
+import { OCR_LANGUAGES, OCR_MODES, OCR_OUTPUTS, STRUCTURED_OUTPUTS } from '../lib/ocrOptions'
+
+const ENGINE_LABELS: Record<OcrEngineType, string> = {
+  vision: 'Google Vision API',
+  tesseract: 'Tesseract (내장)',
+  mock: 'Mock (테스트용)',
+}
+
+const OPTIMIZE_LABELS = ['최적화 안 함 (가장 빠름)', '무손실 최적화', '손실 최적화', '최대 압축']
+
+interface OcrSettingsPanelProps {
+  engines: OcrEngineType[]
+  engine: OcrEngineType | ''
+  options: OcrOptions
+  onEngineChange: (engine: OcrEngineType | '') => void
+  onOptionsChange: (options: OcrOptions) => void
+}
+
+export default function OcrSettingsPanel({
+  engines,
+  engine,
+  options,
+  onEngineChange,
+  onOptionsChange,
+}: OcrSettingsPanelProps) {
+  const update = (updates: Partial<OcrOptions>) => {
+    onOptionsChange({ ...options, ...updates })
+  }
+
+  const toggleLanguage = (code: OcrLanguage) => {
+    const languages = options.languages.includes(code)
+      ? options.languages.filter((language) => language !== code)
+      : [...options.languages, code]
+    // 최소 한 개 언어는 유지
+    if (languages.length > 0) update({ languages })
+  }
+
+  const toggleOutput = (format: OcrOutputFormat) => {
+    const outputs = options.outputs.includes(format)
+      ? options.outputs.filter((output) => output !== format)
+      : [...options.outputs, format]
+    // 최소 한 개 결과물은 유지
+    if (outputs.length > 0) update({ outputs })
+  }
+
+  // 내장 Tesseract는 단어 구조를 남기지 않아 hOCR/ALTO를 만들 수 없음
+  const structuredUnavailable = engine === 'tesseract'
+
+  const changeEngine = (next: OcrEngineType | '') => {
+    onEngineChange(next)
+    if (next === 'tesseract') {
+      const outputs = options.outputs.filter((output) => !STRUCTURED_OUTPUTS.includes(output))
+      update({ outputs: outputs.length > 0 ? outputs : ['pdf'] })
+    }
+  }
+
+  const changeMode = (mode: OcrMode) => {
+    // redo-ocr 모드는 기울기 보정과 함께 쓸 수 없음
+    update(mode === 'redo-ocr' ? { mode, deskew: false } : { mode })
+  }
+
+  return (
+    <details className="mb-6 bg-gray-50 rounded-lg border border-gray-200">
+      <summary className="cursor-pointer px-5 py-3 text-sm font-medium text-gray-700 hover:text-primary-600">
+        OCR 설정 (다음에 시작하는 파일에 적용)
+      </summary>
+
+      <div className="px-5 pb-5 grid gap-5 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">OCR 엔진</label>
+          <select
+            value={engine}
+            onChange={(e) => changeEngine(e.target.value as OcrEngineType | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            <option value="">서버 기본값</option>
+            {engines.map((name) => (
+              <option key={name} value={name}>
+                {ENGINE_LABELS[name]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">기존 텍스트 처리</label>
+          <select
+            value={options.mode}
+            onChange={(e) => changeMode(e.target.value as OcrMode)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {OCR_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">문서 언어</p>
+          <div className="flex flex-wrap gap-3">
+            {OCR_LANGUAGES.map((language) => (
+              <label key={language.code} className="flex items-center gap-1.5 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={options.languages.includes(language.code)}
+                  onChange={() => toggleLanguage(language.code)}
+                />
+                {language.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">이미지 보정</p>
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={options.deskew}
+                disabled={options.mode === 'redo-ocr'}
+                onChange={(e) => update({ deskew: e.target.checked })}
+              />
+              기울기 보정
+            </label>
+            <label className="flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={options.rotatePages}
+                onChange={(e) => update({ rotatePages: e.target.checked })}
+              />
+              페이지 자동 회전
+            </label>
+            <label className="flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={options.clean}
+                onChange={(e) => update({ clean: e.target.checked })}
+              />
+              노이즈 제거
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">출력 PDF 최적화</label>
+          <select
+            value={options.optimize}
+            onChange={(e) => update({ optimize: Number(e.target.value) as OcrOptions['optimize'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {OPTIMIZE_LABELS.map((label, level) => (
+              <option key={level} value={level}>
+                {level} - {label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">높은 단계일수록 파일은 작아지지만 처리 시간이 늘어납니다</p>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">결과물</p>
+          <div className="flex flex-wrap gap-3">
+            {OCR_OUTPUTS.map((output) => (
+              <label key={output.value} className="flex items-center gap-1.5 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={options.outputs.includes(output.value)}
+                  disabled={structuredUnavailable && STRUCTURED_OUTPUTS.includes(output.value)}
+                  onChange={() => toggleOutput(output.value)}
+                />
+                {output.label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            여러 개를 선택하면 zip으로 묶어 받습니다. hOCR/ALTO는 Vision 엔진에서만 만들 수 있습니다
+          </p>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,24 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+import { ADMIN_TOKEN } from './config'
+import { errorResponse } from './errors'
+
+// 관리자 API 인증: Authorization: Bearer <OCR_ADMIN_TOKEN>
+// 통과하면 null, 아니면 보낼 오류 응답
+export function adminAuthError(request: NextRequest) {
+  if (!ADMIN_TOKEN) {
+    return errorResponse('FORBIDDEN', {
+      message: '관리자 API가 비활성화되어 있습니다 (OCR_ADMIN_TOKEN 미설정)',
+    })
+  }
+
+  const header = request.headers.get('authorization') ?? ''
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(ADMIN_TOKEN)
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    return errorResponse('UNAUTHORIZED', {
+      headers: { 'WWW-Authenticate': 'Bearer' },
+    })
+  }
+  return null
+}
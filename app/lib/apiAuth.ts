@@ -0,0 +1,111 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiKey, findApiKeyByToken, getApiKey, isApiAuthEnabled } from './apiKeys'
+import { SESSION_SECRET, SESSION_TTL_MS, UI_PASSWORD } from './config'
+import { errorResponse } from './errors'
+
+// OCR API 인증: Authorization: Bearer <API 키> 또는 웹 UI 세션 쿠키(POST /api/session으로 발급)
+// OCR_API_KEYS_FILE이 없으면 인증 없이 누구나 사용 (apiKey 없음)
+
+export const SESSION_COOKIE = 'ocr_session'
+
+export type ApiAuthResult = { apiKey?: ApiKey; error?: undefined } | { apiKey?: undefined; error: NextResponse }
+
+interface SessionPayload {
+  k: string  // API 키 ID
+  e: number  // 만료 시각 (ms)
+}
+
+// 서명 키를 설정하지 않았으면 프로세스마다 새로 만듦 (HMR로 모듈이 다시 로드되어도 유지)
+const globalForSession = globalThis as unknown as { ocrSessionSecret?: string }
+
+function sessionSecret(): string {
+  if (SESSION_SECRET) return SESSION_SECRET
+  globalForSession.ocrSessionSecret ??= randomBytes(32).toString('hex')
+  return globalForSession.ocrSessionSecret
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', sessionSecret()).update(data).digest('base64url')
+}
+
+// 웹 UI 세션 쿠키 값: base64url(JSON).서명
+export function createSessionToken(keyId: string, now = Date.now()): { token: string; expiresAt: number } {
+  const payload: SessionPayload = { k: keyId, e: now + SESSION_TTL_MS }
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return { token: `${data}.${sign(data)}`, expiresAt: payload.e }
+}
+
+function readSessionToken(token: string): string | null {
+  const [data, signature] = token.split('.')
+  if (!data || !signature) return null
+
+  const expected = Buffer.from(sign(data))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as SessionPayload
+    return typeof payload.k === 'string' && payload.e > Date.now() ? payload.k : null
+  } catch {
+    return null
+  }
+}
+
+// 요청의 세션 쿠키가 가리키는 API 키 ID (없거나, 서명이 틀리거나, 만료되었으면 null)
+export function sessionKeyId(request: NextRequest): string | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value ?? '')
+}
+
+// 웹 UI 비밀번호 확인 (길이가 달라도 같은 시간이 걸리도록 해시끼리 비교, 비밀번호를 설정하지 않았으면 항상 false)
+export function verifyUiPassword(password: string): boolean {
+  if (!UI_PASSWORD) return false
+  const expected = createHash('sha256').update(UI_PASSWORD).digest()
+  const actual = createHash('sha256').update(password).digest()
+  return timingSafeEqual(actual, expected)
+}
+
+// 세션 쿠키 설정 (스크립트에서 읽을 수 없고 같은 사이트 요청에만 전송)
+export function setSessionCookie(request: NextRequest, response: NextResponse, token: string, expiresAt: number) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api',
+    expires: new Date(expiresAt),
+  })
+}
+
+function unauthorized(message?: string) {
+  return errorResponse('UNAUTHORIZED', { message, headers: { 'WWW-Authenticate': 'Bearer' } })
+}
+
+// 요청의 API 키 확인: 키가 없거나 틀리면 401, 중지된 키는 403, 키 목록을 읽지 못하면 500 (모두 거절)
+export async function authenticateApiRequest(request: NextRequest): Promise<ApiAuthResult> {
+  if (!isApiAuthEnabled()) return {}
+
+  let apiKey: ApiKey | undefined
+  try {
+    const header = request.headers.get('authorization')
+    if (header) {
+      apiKey = await findApiKeyByToken(header.replace(/^Bearer\s+/i, ''))
+      if (!apiKey) return { error: unauthorized('API 키가 올바르지 않습니다') }
+    } else {
+      const keyId = sessionKeyId(request)
+      apiKey = keyId ? await getApiKey(keyId) : undefined
+      if (!apiKey) return { error: unauthorized('API 키가 필요합니다 (Authorization: Bearer <키>)') }
+    }
+  } catch {
+    return { error: errorResponse('INTERNAL_ERROR', { message: 'API 키 설정을 읽지 못했습니다' }) }
+  }
+
+  if (apiKey.disabled) {
+    return { error: errorResponse('FORBIDDEN', { message: '사용이 중지된 API 키입니다' }) }
+  }
+  return { apiKey }
+}
+
+// 작업·업로드를 등록한 키로만 조회할 수 있게 함 (인증을 쓰지 않으면 둘 다 undefined)
+export function isOwnedBy(apiKey: ApiKey | undefined, ownerKeyId: string | undefined): boolean {
+  return apiKey?.id === ownerKeyId
+}
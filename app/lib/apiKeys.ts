@@ -0,0 +1,148 @@
+import Database from 'better-sqlite3'
+import { createHash } from 'crypto'
+import { readFile, stat } from 'fs/promises'
+import { API_KEYS_FILE } from './config'
+import { logger } from './logger'
+
+// API 키 목록 (OCR_API_KEYS_FILE)
+// - JSON 파일: {"keys": [{"id", "token" 또는 "tokenSha256", "name", "pagesPerDay", "maxConcurrentJobs", "disabled"}]}
+// - SQLite 파일(.db/.sqlite): api_keys 테이블 (id, name, token_sha256, pages_per_day, max_concurrent_jobs, disabled)
+// 파일은 요청 때마다 다시 읽으므로(JSON은 수정 시각이 바뀔 때만) 서버를 다시 시작하지 않고 키를 추가·중지할 수 있음
+
+export interface ApiKey {
+  id: string
+  name: string
+  pagesPerDay: number | null        // 하루에 OCR할 수 있는 페이지 수 (null이면 제한 없음)
+  maxConcurrentJobs: number | null  // 동시에 대기·실행할 수 있는 작업 수 (null이면 제한 없음)
+  disabled: boolean
+}
+
+interface ApiKeyRecord extends ApiKey {
+  tokenHash: string  // 토큰의 SHA-256 (hex)
+}
+
+interface JsonKeyCache {
+  mtimeMs: number
+  records: ApiKeyRecord[]
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 캐시가 유지되도록 globalThis에 보관
+const globalForKeys = globalThis as unknown as { ocrApiKeyCache?: JsonKeyCache }
+
+export function isApiAuthEnabled(): boolean {
+  return API_KEYS_FILE !== ''
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function isSqliteFile(file: string): boolean {
+  return /\.(db|sqlite3?)$/i.test(file)
+}
+
+function readLimit(value: unknown, field: string, id: string): number | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`API 키 ${id}의 ${field} 값이 올바르지 않습니다`)
+  }
+  return value
+}
+
+function parseJsonKeys(json: string): ApiKeyRecord[] {
+  const parsed = JSON.parse(json) as { keys?: unknown }
+  if (!Array.isArray(parsed.keys)) {
+    throw new Error('API 키 파일에 keys 배열이 없습니다')
+  }
+
+  return parsed.keys.map((raw: Record<string, unknown>) => {
+    const id = raw.id
+    if (typeof id !== 'string' || !id) {
+      throw new Error('API 키에 id가 없습니다')
+    }
+    const tokenHash =
+      typeof raw.tokenSha256 === 'string'
+        ? raw.tokenSha256.toLowerCase()
+        : typeof raw.token === 'string' && raw.token
+          ? hashApiToken(raw.token)
+          : null
+    if (!tokenHash) {
+      throw new Error(`API 키 ${id}에 token 또는 tokenSha256이 없습니다`)
+    }
+    return {
+      id,
+      name: typeof raw.name === 'string' ? raw.name : id,
+      tokenHash,
+      pagesPerDay: readLimit(raw.pagesPerDay, 'pagesPerDay', id),
+      maxConcurrentJobs: readLimit(raw.maxConcurrentJobs, 'maxConcurrentJobs', id),
+      disabled: raw.disabled === true,
+    }
+  })
+}
+
+async function loadJsonKeys(): Promise<ApiKeyRecord[]> {
+  const { mtimeMs } = await stat(API_KEYS_FILE)
+  const cached = globalForKeys.ocrApiKeyCache
+  if (cached && cached.mtimeMs === mtimeMs) return cached.records
+
+  const records = parseJsonKeys(await readFile(API_KEYS_FILE, 'utf8'))
+  globalForKeys.ocrApiKeyCache = { mtimeMs, records }
+  return records
+}
+
+interface ApiKeyRow {
+  id: string
+  name: string | null
+  token_sha256: string
+  pages_per_day: number | null
+  max_concurrent_jobs: number | null
+  disabled: number | null
+}
+
+function loadSqliteKeys(): ApiKeyRecord[] {
+  const db = new Database(API_KEYS_FILE, { readonly: true, fileMustExist: true })
+  try {
+    const rows = db
+      .prepare('SELECT id, name, token_sha256, pages_per_day, max_concurrent_jobs, disabled FROM api_keys')
+      .all() as ApiKeyRow[]
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name ?? row.id,
+      tokenHash: row.token_sha256.toLowerCase(),
+      pagesPerDay: row.pages_per_day,
+      maxConcurrentJobs: row.max_concurrent_jobs,
+      disabled: Boolean(row.disabled),
+    }))
+  } finally {
+    db.close()
+  }
+}
+
+// 키 목록을 읽지 못하면 모든 요청을 막도록 오류를 그대로 던짐
+async function loadKeys(): Promise<ApiKeyRecord[]> {
+  try {
+    return isSqliteFile(API_KEYS_FILE) ? loadSqliteKeys() : await loadJsonKeys()
+  } catch (error) {
+    logger.error('API 키 목록을 읽지 못했습니다', { file: API_KEYS_FILE, error })
+    throw error
+  }
+}
+
+function toApiKey({ tokenHash: _tokenHash, ...key }: ApiKeyRecord): ApiKey {
+  return key
+}
+
+export async function findApiKeyByToken(token: string): Promise<ApiKey | undefined> {
+  const tokenHash = hashApiToken(token)
+  const record = (await loadKeys()).find((key) => key.tokenHash === tokenHash)
+  return record && toApiKey(record)
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | undefined> {
+  const record = (await loadKeys()).find((key) => key.id === id)
+  return record && toApiKey(record)
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return (await loadKeys()).map(toApiKey)
+}
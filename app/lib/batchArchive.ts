@@ -0,0 +1,98 @@
+import { OCR_ERRORS } from '../types'
+import { getJob } from './jobs'
+import { resultFileName } from './resultFormats'
+import { OpenZipEntry, closeZipEntries, openZipEntries } from './zip'
+
+// 여러 작업의 결과를 하나의 ZIP으로 묶기 위한 항목과 작업 목록(manifest.csv)
+// 결과 파일은 디스크에서 바로 스트림으로 읽으므로 묶는 작업 수와 관계없이 메모리 사용량이 일정
+
+export type ArchiveSidecar = 'txt' | 'json'
+
+export const ARCHIVE_SIDECARS: readonly ArchiveSidecar[] = ['txt', 'json']
+
+// 한 번에 묶을 수 있는 최대 작업 수 (쿼리 문자열 길이 제한)
+export const MAX_ARCHIVE_JOBS = 100
+
+const MANIFEST_NAME = 'manifest.csv'
+const MANIFEST_COLUMNS = ['jobId', 'originalFileName', 'outputFileName', 'pageCount', 'status', 'errorCode', 'error']
+
+function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 출력 파일명이 겹치면 "보고서_OCR (2).pdf"처럼 번호를 붙임 (형식별 파일명은 이 이름에서 만듦)
+function uniqueOutputName(outputFileName: string, used: Set<string>): string {
+  const stem = outputFileName.replace(/\.pdf$/i, '')
+  let candidate = outputFileName
+  for (let index = 2; used.has(candidate.toLowerCase()); index++) {
+    candidate = `${stem} (${index}).pdf`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+// 작업 ID 목록으로 ZIP 항목 구성: 완료된 작업의 기본 결과물(+ 요청한 텍스트/JSON)과 모든 작업의 상태 목록
+// 보관 기간이 지나 없는 작업도 목록에 남겨 어떤 파일이 빠졌는지 알 수 있게 함
+// 결과 파일은 ZIP을 쓰기 전에 열어 두므로, 그 사이 보관 기간 정리로 지워진 결과도 목록에 expired로 남음
+export async function openBatchArchive(
+  jobIds: string[],
+  sidecars: readonly ArchiveSidecar[],
+  apiKeyId?: string
+): Promise<OpenZipEntry[]> {
+  const entries: OpenZipEntry[] = []
+  const rows: (string | number)[][] = [MANIFEST_COLUMNS]
+  const usedNames = new Set<string>()
+
+  for (const id of jobIds) {
+    // 다른 API 키의 작업은 보관 기간이 지난 작업과 같게 처리
+    const job = getJob(id)
+    if (!job || job.apiKeyId !== apiKeyId) {
+      rows.push([id, '', '', '', 'expired', 'JOB_NOT_FOUND', OCR_ERRORS.JOB_NOT_FOUND.message])
+      continue
+    }
+
+    let outputName = ''
+    if (job.state === 'done') {
+      const baseName = uniqueOutputName(job.outputFileName, usedNames)
+      const primaryPath = job.results[job.primaryFormat]
+      if (primaryPath) {
+        outputName = resultFileName(baseName, job.primaryFormat)
+        const files = [{ name: outputName, path: primaryPath }]
+        for (const format of sidecars) {
+          const sidecarPath = job.results[format]
+          if (sidecarPath && format !== job.primaryFormat) {
+            files.push({ name: resultFileName(baseName, format), path: sidecarPath })
+          }
+        }
+
+        const opened = await openZipEntries(files).catch(async (error) => {
+          await closeZipEntries(entries)
+          throw error
+        })
+        // 기본 결과물이 이미 지워졌으면 이 작업은 통째로 빼고 목록에 expired로 남김
+        if (opened.missing.some((entry) => entry.name === outputName)) {
+          await closeZipEntries(opened.entries)
+          rows.push([id, job.originalFileName, '', job.pageCount ?? '', 'expired', 'JOB_NOT_FOUND', OCR_ERRORS.JOB_NOT_FOUND.message])
+          continue
+        }
+        entries.push(...opened.entries)
+      }
+    }
+
+    rows.push([
+      job.id,
+      job.originalFileName,
+      outputName,
+      job.pageCount ?? '',
+      job.state,
+      job.errorCode ?? '',
+      job.error ?? '',
+    ])
+  }
+
+  // Excel에서 한글이 깨지지 않도록 BOM을 붙임
+  const manifest = `\uFEFF${rows.map((row) => row.map(csvField).join(',')).join('\r\n')}\r\n`
+  entries.unshift({ name: MANIFEST_NAME, data: Buffer.from(manifest, 'utf8') })
+  return entries
+}
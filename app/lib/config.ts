@@ -0,0 +1,134 @@
+import { tmpdir } from 'os'
+import path from 'path'
+
+// 환경변수에서 0 이상의 정수 읽기 (없거나 잘못된 값이면 기본값 사용)
+export function readIntEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name]
+  if (!raw) return defaultValue
+
+  const value = Number.parseInt(raw, 10)
+  return Number.isFinite(value) && value >= 0 ? value : defaultValue
+}
+
+// 환경변수에서 0 이상의 숫자(소수 허용) 읽기 (없거나 잘못된 값이면 기본값 사용)
+export function readNumberEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name]
+  if (!raw) return defaultValue
+
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= 0 ? value : defaultValue
+}
+
+// 환경변수에서 on/off 값 읽기 ('0', 'false', 'off'면 꺼짐)
+export function readBoolEnv(name: string, defaultValue: boolean): boolean {
+  const raw = process.env[name]
+  if (!raw) return defaultValue
+
+  return !['0', 'false', 'off', 'no'].includes(raw.trim().toLowerCase())
+}
+
+// 쉼표로 구분된 환경변수 값을 목록으로 읽기
+export function readListEnv(name: string, defaultValue: string[]): string[] {
+  const raw = process.env[name]
+  if (!raw) return defaultValue
+
+  return raw.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+// 작업별 입력/출력 PDF를 저장하는 디렉터리
+export const JOBS_DIR = process.env.OCR_JOBS_DIR || path.join(tmpdir(), 'ocr-jobs')
+
+// 완료(또는 실패)된 작업 결과를 보관하는 시간
+export const RESULT_RETENTION_MS = readIntEnv('OCR_RESULT_RETENTION_MINUTES', 60) * 60 * 1000
+
+// ocrmypdf 실행 제한 시간 (순차 처리라 오래 걸릴 수 있음). 나누어 처리하면 묶음마다 적용
+export const OCR_TIMEOUT_MS = readIntEnv('OCR_TIMEOUT_SECONDS', 600) * 1000
+
+// 작업 하나의 전체 제한 시간 (나눈 묶음의 OCR, 합치기, 엔진 대체 후 재처리 포함, 0이면 제한 없음)
+// 묶음마다 OCR_TIMEOUT_MS를 주면 묶음 수만큼 길어지므로, 남은 시간이 그보다 짧으면 남은 시간만 줌
+export const OCR_JOB_TIMEOUT_MS = readIntEnv('OCR_JOB_TIMEOUT_SECONDS', 3600) * 1000
+
+// 동시에 실행할 ocrmypdf 프로세스 수 (512MB 인스턴스에서는 1 권장)
+export const MAX_CONCURRENT_JOBS = Math.max(1, readIntEnv('OCR_MAX_CONCURRENT_JOBS', 1))
+
+// 실행을 기다릴 수 있는 최대 작업 수. 초과하면 429 응답
+export const MAX_QUEUED_JOBS = readIntEnv('OCR_MAX_QUEUED_JOBS', 20)
+
+// 요청에 엔진을 지정하지 않았을 때 사용할 OCR 엔진 (vision / tesseract / mock)
+export const DEFAULT_OCR_ENGINE = process.env.OCR_ENGINE || 'vision'
+
+// 요청으로 선택할 수 있는 엔진 (mock은 테스트 환경에서만 추가)
+export const ALLOWED_OCR_ENGINES = readListEnv('OCR_ALLOWED_ENGINES', ['vision', 'tesseract'])
+
+// Google Vision을 쓸 수 없을 때(인증 정보 없음, 처리 중 할당량 초과·API 오류) 내장 Tesseract로 대체할지 여부
+export const OCR_ENGINE_FALLBACK = readBoolEnv('OCR_ENGINE_FALLBACK', true)
+
+// Vision API 분당 요청 한도 (동시에 실행하는 ocrmypdf 프로세스가 나누어 씀, 0이면 제한 없음)
+export const VISION_REQUESTS_PER_MINUTE = readIntEnv('OCR_VISION_REQUESTS_PER_MINUTE', 600)
+
+// Vision API 요청 재시도 횟수 (429, 5xx, 네트워크 오류에 지수 백오프로 재시도)
+export const VISION_MAX_RETRIES = readIntEnv('OCR_VISION_MAX_RETRIES', 5)
+
+// 같은 PDF와 설정의 OCR 결과를 재사용하는 캐시 디렉터리와 최대 크기 (MB, 0이면 캐시 사용 안 함)
+export const RESULT_CACHE_DIR = process.env.OCR_CACHE_DIR || path.join(tmpdir(), 'ocr-cache')
+export const RESULT_CACHE_MAX_BYTES = readIntEnv('OCR_CACHE_MAX_MB', 512) * 1024 * 1024
+
+// 관리자 API(/api/admin/*) 토큰. 설정하지 않으면 관리자 API를 사용할 수 없음
+export const ADMIN_TOKEN = process.env.OCR_ADMIN_TOKEN || ''
+
+// API 키 목록 (JSON 파일 또는 SQLite 파일 .db/.sqlite). 설정하면 OCR API에 키(또는 웹 UI 세션)가 필요
+export const API_KEYS_FILE = process.env.OCR_API_KEYS_FILE || ''
+
+// 작업 완료 알림(웹훅) 서명 키 (설정하지 않으면 callbackUrl을 받지 않음)
+export const WEBHOOK_SECRET = process.env.OCR_WEBHOOK_SECRET || ''
+
+// 웹훅을 보낼 수 있는 호스트 (쉼표 구분, 비우면 공인 IP로 풀리는 모든 호스트 허용. 목록의 호스트는 내부망 주소여도 허용)
+export const WEBHOOK_ALLOWED_HOSTS = readListEnv('OCR_WEBHOOK_ALLOWED_HOSTS', [])
+
+// 웹훅 전송 최대 시도 횟수와 시도당 응답 대기 시간 (초)
+export const WEBHOOK_MAX_ATTEMPTS = Math.max(readIntEnv('OCR_WEBHOOK_MAX_ATTEMPTS', 6), 1)
+export const WEBHOOK_TIMEOUT_MS = readIntEnv('OCR_WEBHOOK_TIMEOUT_SECONDS', 10) * 1000
+// 첫 재시도까지 기다리는 시간 (초, 이후 3배씩 늘어남)
+export const WEBHOOK_RETRY_BASE_MS = readNumberEnv('OCR_WEBHOOK_RETRY_BASE_SECONDS', 10) * 1000
+
+// 웹훅의 다운로드 주소에 쓸 서비스 주소 (예: https://ocr.example.com, 비우면 작업을 등록한 요청의 주소)
+export const PUBLIC_URL = (process.env.OCR_PUBLIC_URL || '').replace(/\/+$/, '')
+
+// 작업별 사용량(페이지 수, Vision 호출 수, 처리 시간, 결과)을 기록하는 SQLite 파일
+export const USAGE_DB_PATH = process.env.OCR_USAGE_DB || path.join(tmpdir(), 'ocr-usage.db')
+
+// 사용량 보고의 예상 Vision 비용: 1,000페이지당 가격과 통화 (기본값은 DOCUMENT_TEXT_DETECTION 정가)
+export const VISION_PRICE_PER_1000_PAGES = readNumberEnv('OCR_VISION_PRICE_PER_1000', 1.5)
+export const VISION_COST_CURRENCY = process.env.OCR_VISION_PRICE_CURRENCY || 'USD'
+
+// 웹 UI 세션이 사용할 API 키 ID (세션은 이 키의 한도를 함께 씀, 비우면 웹 UI 세션 발급 안 함)
+export const UI_API_KEY_ID = process.env.OCR_UI_API_KEY || ''
+
+// 웹 UI 세션을 받을 때 입력하는 공용 비밀번호 (비우면 OCR_UI_API_KEY가 있어도 세션 발급 안 함)
+export const UI_PASSWORD = process.env.OCR_UI_PASSWORD || ''
+
+// 웹 UI 세션 쿠키 서명 키 (비우면 서버 시작 때마다 새로 만들어 재시작하면 세션이 다시 발급됨)와 유효 시간 (시간)
+export const SESSION_SECRET = process.env.OCR_SESSION_SECRET || ''
+export const SESSION_TTL_MS = readIntEnv('OCR_SESSION_HOURS', 12) * 60 * 60 * 1000
+
+// Vision 엔진이 페이지별 인식 결과를 저장해 재시도 때 다시 쓰는 디렉터리와 보관 시간 (시간, 0이면 사용 안 함)
+export const PAGE_CACHE_DIR = process.env.OCR_PAGE_CACHE_DIR || path.join(tmpdir(), 'ocr-page-cache')
+export const PAGE_CACHE_RETENTION_MS = readIntEnv('OCR_PAGE_CACHE_RETENTION_HOURS', 24) * 60 * 60 * 1000
+
+// 업로드 최대 크기 (MB). PDF 본문으로 보내는 업로드는 디스크로 바로 저장되므로 메모리와 무관
+export const MAX_UPLOAD_BYTES = readIntEnv('OCR_MAX_UPLOAD_MB', 200) * 1024 * 1024
+
+// multipart/form-data 업로드 최대 크기 (MB). 본문 전체를 메모리에 읽으므로 작게 유지
+export const MAX_FORM_UPLOAD_BYTES = readIntEnv('OCR_MAX_FORM_UPLOAD_MB', 20) * 1024 * 1024
+
+// 이어 올리기 업로드의 조각 크기 (MB, 클라이언트에 권장값으로 알려줌)와 조각이 오지 않으면 세션을 지우는 시간 (분)
+export const UPLOAD_CHUNK_BYTES = Math.max(1, readIntEnv('OCR_UPLOAD_CHUNK_MB', 5)) * 1024 * 1024
+export const UPLOAD_SESSION_RETENTION_MS = readIntEnv('OCR_UPLOAD_RETENTION_MINUTES', 60) * 60 * 1000
+
+// 이어 올리기 한도: API 키별(인증을 쓰지 않으면 전체) 동시에 진행할 수 있는 업로드 수와,
+// 진행 중인 업로드가 알려준 크기의 서버 전체 합계 (MB, 디스크 보호). 0이면 제한 없음
+export const MAX_UPLOAD_SESSIONS_PER_KEY = readIntEnv('OCR_UPLOAD_SESSIONS_PER_KEY', 20)
+export const MAX_UPLOAD_RESERVED_BYTES = readIntEnv('OCR_UPLOAD_RESERVED_MB', 4096) * 1024 * 1024
+
+// 이보다 페이지가 많은 문서는 이 페이지 수씩 나누어 차례로 OCR한 뒤 하나의 PDF로 합침 (0이면 나누지 않음)
+export const SPLIT_PAGES = readIntEnv('OCR_SPLIT_PAGES', 50)
@@ -0,0 +1,95 @@
+import { OcrEngineType, OcrErrorCode, OcrOutputFormat } from '../types'
+import { ALLOWED_OCR_ENGINES, DEFAULT_OCR_ENGINE, OCR_ENGINE_FALLBACK } from './config'
+import { OcrError } from './errors'
+import { logger } from './logger'
+import { METRICS, incrementCounter } from './metrics'
+import { STRUCTURED_OUTPUTS } from './ocrOptions'
+import { checkVisionCredentials } from './visionAuth'
+
+const OCR_ENGINES: readonly OcrEngineType[] = ['vision', 'tesseract', 'mock']
+
+// 실행 중 이 오류로 Vision 작업이 실패하면 Tesseract로 다시 처리 (할당량 초과, 5xx·연결 실패 등 API 오류, 인증 실패)
+const VISION_FALLBACK_ERRORS: readonly OcrErrorCode[] = ['QUOTA_EXCEEDED', 'VISION_API_ERROR', 'ENGINE_UNAVAILABLE']
+
+export interface EngineSelection {
+  engine: OcrEngineType
+  fallbackFrom?: OcrEngineType // 요청한 엔진을 쓸 수 없어 대체한 경우 원래 엔진
+}
+
+function isOcrEngine(value: string): value is OcrEngineType {
+  return (OCR_ENGINES as readonly string[]).includes(value)
+}
+
+// 엔진 실행에 필요한 설정의 문제 (없으면 사용 가능)
+function engineConfigProblem(engine: OcrEngineType): string | undefined {
+  if (engine === 'vision') return checkVisionCredentials().problem  // 설정된 인증 방식(API 키, 토큰, 서비스 계정) 검사
+  return undefined // tesseract는 Docker 이미지에 포함, mock은 외부 의존성 없음
+}
+
+// 서버 기본 엔진 (OCR_ENGINE 값이 잘못되었으면 vision)
+export function getDefaultEngine(): OcrEngineType {
+  return isOcrEngine(DEFAULT_OCR_ENGINE) ? DEFAULT_OCR_ENGINE : 'vision'
+}
+
+// 선택 가능한 엔진 목록 (서버 기본 엔진은 항상 포함)
+export function getAllowedEngines(): OcrEngineType[] {
+  return OCR_ENGINES.filter(
+    (engine) => engine === getDefaultEngine() || ALLOWED_OCR_ENGINES.includes(engine)
+  )
+}
+
+// Vision 대신 Tesseract로 처리할 수 있는지: 대체를 켰고, Tesseract가 허용된 엔진이고, 요청한 출력을 만들 수 있을 때
+function canFallBackToTesseract(outputs: OcrOutputFormat[]): boolean {
+  return (
+    OCR_ENGINE_FALLBACK &&
+    getAllowedEngines().includes('tesseract') &&
+    unsupportedOutputs('tesseract', outputs).length === 0
+  )
+}
+
+// 요청한 엔진(없으면 서버 기본값)을 실제로 사용할 엔진으로 결정
+// Vision 설정에 문제가 있으면 요청한 출력을 Tesseract로 만들 수 있을 때만 대체
+export function selectEngine(requested: string | null | undefined, outputs: OcrOutputFormat[]): EngineSelection {
+  const name = requested || getDefaultEngine()
+
+  if (!isOcrEngine(name)) {
+    throw new OcrError('INVALID_OPTIONS', `알 수 없는 OCR 엔진입니다: ${name}`)
+  }
+  if (!getAllowedEngines().includes(name)) {
+    throw new OcrError('ENGINE_UNAVAILABLE', `이 서버에서 사용할 수 없는 OCR 엔진입니다: ${name}`)
+  }
+
+  const problem = engineConfigProblem(name)
+  if (!problem) {
+    return { engine: name }
+  }
+
+  // Vision 사용 불가 → 내장 Tesseract로 대체
+  if (name === 'vision' && canFallBackToTesseract(outputs)) {
+    logger.warn('Vision 엔진을 사용할 수 없어 Tesseract로 대체', { problem })
+    incrementCounter(METRICS.engineFallbacks, { reason: 'ENGINE_UNAVAILABLE' })
+    return { engine: 'tesseract', fallbackFrom: 'vision' }
+  }
+
+  throw new OcrError('ENGINE_UNAVAILABLE', problem)
+}
+
+// Vision 작업이 실행 중 code 오류로 실패했을 때 Tesseract로 다시 처리할지 (등록 때와 같은 조건)
+export function shouldFallBackAfterFailure(engine: OcrEngineType, code: OcrErrorCode, outputs: OcrOutputFormat[]): boolean {
+  return engine === 'vision' && VISION_FALLBACK_ERRORS.includes(code) && canFallBackToTesseract(outputs)
+}
+
+// hOCR/ALTO는 엔진 플러그인이 남기는 단어 구조로 만들므로 Tesseract(내장)에서는 만들 수 없음
+function unsupportedOutputs(engine: OcrEngineType, outputs: OcrOutputFormat[]): OcrOutputFormat[] {
+  return engine === 'tesseract' ? outputs.filter((output) => STRUCTURED_OUTPUTS.includes(output)) : []
+}
+
+export function assertOutputsSupported(engine: OcrEngineType, outputs: OcrOutputFormat[]) {
+  const structured = unsupportedOutputs(engine, outputs)
+  if (structured.length > 0) {
+    throw new OcrError(
+      'INVALID_OPTIONS',
+      `${structured.join(', ')} 출력은 Vision 또는 Mock 엔진에서만 지원합니다 (사용 엔진: tesseract)`
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { OCR_ERRORS, OcrErrorBody, OcrErrorCode } from '../types'
+
+// 오류 코드별 HTTP 상태 (없으면 500)
+const HTTP_STATUS: Partial<Record<OcrErrorCode, number>> = {
+  ENGINE_UNAVAILABLE: 503,
+  PRIOR_OCR: 422,
+  ENCRYPTED_PDF: 422,
+  INVALID_PDF: 422,
+  INVALID_OPTIONS: 400,
+  INVALID_REQUEST: 400,
+  FILE_TOO_LARGE: 413,
+  UPLOAD_NOT_FOUND: 404,
+  UPLOAD_OFFSET_MISMATCH: 409,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  API_QUOTA_EXCEEDED: 429,
+  TOO_MANY_JOBS: 429,
+  TOO_MANY_UPLOADS: 429,
+  QUEUE_FULL: 429,
+  QUOTA_EXCEEDED: 429,
+  JOB_NOT_FOUND: 404,
+  JOB_NOT_READY: 409,
+  CANCELLED: 409,
+  SERVER_UNAVAILABLE: 503,
+}
+
+// 코드와 함께 전달되는 서버 오류 (message가 있으면 기본 메시지 대신 사용)
+export class OcrError extends Error {
+  constructor(public readonly code: OcrErrorCode, message?: string) {
+    super(message ?? OCR_ERRORS[code].message)
+    this.name = 'OcrError'
+  }
+}
+
+export function errorBody(code: OcrErrorCode, message?: string): OcrErrorBody {
+  return {
+    error: message ?? OCR_ERRORS[code].message,
+    code,
+    retryable: OCR_ERRORS[code].retryable,
+  }
+}
+
+// 일관된 JSON 오류 응답: { error, code, retryable }
+export function errorResponse(
+  code: OcrErrorCode,
+  init: { message?: string; status?: number; headers?: HeadersInit } = {}
+) {
+  return NextResponse.json(errorBody(code, init.message), {
+    status: init.status ?? HTTP_STATUS[code] ?? 500,
+    headers: init.headers,
+  })
+}
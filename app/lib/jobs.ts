@@ -0,0 +1,592 @@
+import { randomUUID } from 'crypto'
+import { mkdir, rename, rm, unlink } from 'fs/promises'
+import path from 'path'
+import {
+  OCR_ERRORS,
+  OcrEngineType,
+  OcrErrorCode,
+  OcrJobState,
+  OcrJobStatus,
+  OcrOptions,
+  OcrProgress,
+  OcrResultFormat,
+  OcrWebhookPayload,
+} from '../types'
+import { ApiKey } from './apiKeys'
+import {
+  JOBS_DIR,
+  MAX_CONCURRENT_JOBS,
+  MAX_QUEUED_JOBS,
+  OCR_JOB_TIMEOUT_MS,
+  RESULT_RETENTION_MS,
+  SPLIT_PAGES,
+} from './config'
+import { EngineSelection, shouldFallBackAfterFailure } from './engines'
+import { OcrError } from './errors'
+import { logger, withLogContext } from './logger'
+import { METRICS, incrementCounter, observeHistogram } from './metrics'
+import { countSelectedPages } from './ocrOptions'
+import {
+  OcrEngineEvent,
+  OcrRunRequest,
+  OcrmypdfError,
+  generateOCRFileName,
+  ocrErrorCode,
+  runOcrmypdf,
+  sanitizeFileName,
+} from './ocr'
+import { ResultFiles, ResultRequest, countResultPages, writeBaseResults, writeRequestedResults } from './ocrOutputs'
+import { countPdfPages, runChunkedOcr } from './pdfChunks'
+import { restoreCachedResult, resultCacheKey, storeCachedResult } from './resultCache'
+import { primaryResultFormat } from './resultFormats'
+import { StagedUpload } from './uploads'
+import { getKeyUsage, recordJobUsage } from './usageStore'
+import { WebhookDelivery, startWebhookDelivery, toWebhookStatus } from './webhooks'
+
+export interface OcrJob {
+  id: string
+  state: OcrJobState
+  originalFileName: string
+  outputFileName: string
+  engine: OcrEngineType
+  fallbackFrom?: OcrEngineType
+  options: OcrOptions
+  workDir: string
+  inputPath: string
+  inputHash: string      // 입력 PDF의 SHA-256
+  outputPath: string
+  textPath: string       // 페이지별 인식 텍스트
+  structureDir: string   // 엔진이 남기는 페이지별 구조 JSON
+  results: ResultFiles   // 완료 후 받을 수 있는 형식별 결과 파일
+  primaryFormat: OcrResultFormat  // format 없이 요청할 때 받는 형식
+  cacheKey: string       // 입력 PDF와 인식 설정으로 만든 결과 캐시 키
+  cacheHit: boolean      // 캐시된 결과로 바로 완료된 작업
+  pageCount?: number     // 문서 페이지 수 (처리 중에는 ocrmypdf 진행 상황, 완료 후에는 결과 텍스트 기준)
+  visionCalls: number    // 성공한 Vision API 요청 수 (사용량 기록용)
+  visionPages: number    // Vision API가 과금한 페이지 수
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+  expiresAt?: number
+  progress?: OcrProgress
+  error?: string
+  errorCode?: OcrErrorCode
+  engineErrorCode?: OcrErrorCode  // OCR 엔진이 직접 보고한 실패 원인 (예: Vision 할당량 초과)
+  apiKeyId?: string      // 작업을 등록한 API 키 (인증을 쓰지 않으면 없음)
+  requestId?: string     // 작업을 등록한 요청의 ID (작업 로그에 함께 기록)
+  webhook?: WebhookDelivery  // 작업이 끝나면 보낼 완료 알림
+  abortController: AbortController // 작업 취소 시 ocrmypdf 프로세스 그룹 종료
+}
+
+// 작업 등록 요청의 부가 정보
+export interface JobSubmission {
+  apiKey?: ApiKey
+  webhook?: WebhookDelivery
+  requestId?: string
+}
+
+interface JobStore {
+  jobs: Map<string, OcrJob>
+  queue: OcrJob[]      // 실행 대기 중인 작업 (등록 순)
+  runningCount: number
+  sweeper?: NodeJS.Timeout
+}
+
+// 대기열이 가득 차 작업을 받을 수 없을 때
+export class QueueFullError extends OcrError {
+  constructor(public readonly retryAfterSeconds: number) {
+    super('QUEUE_FULL')
+    this.name = 'QueueFullError'
+  }
+}
+
+// API 키의 동시 작업 수 한도에 닿았을 때
+export class ConcurrentJobLimitError extends OcrError {
+  constructor(public readonly limit: number, public readonly retryAfterSeconds: number) {
+    super(
+      'TOO_MANY_JOBS',
+      `동시에 처리할 수 있는 작업 수(${limit}개)를 넘었습니다. 진행 중인 작업이 끝난 뒤 다시 시도해주세요.`
+    )
+    this.name = 'ConcurrentJobLimitError'
+  }
+}
+
+// API 키의 하루 페이지 한도에 닿았거나, 문서를 처리하면 한도를 넘을 때
+export class DailyQuotaError extends OcrError {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super('API_QUOTA_EXCEEDED', message)
+    this.name = 'DailyQuotaError'
+  }
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 작업 목록이 유지되도록 globalThis에 보관
+const globalForJobs = globalThis as unknown as { ocrJobStore?: JobStore }
+const store: JobStore = globalForJobs.ocrJobStore ?? { jobs: new Map(), queue: [], runningCount: 0 }
+globalForJobs.ocrJobStore = store
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+// 보관 기간이 지난 작업과 파일 정리
+async function sweepExpiredJobs() {
+  const now = Date.now()
+  for (const job of Array.from(store.jobs.values())) {
+    if (job.expiresAt && job.expiresAt <= now) {
+      store.jobs.delete(job.id)
+      await rm(job.workDir, { recursive: true, force: true }).catch(() => {
+        /* ignore */
+      })
+      logger.info('보관 기간이 지난 작업 삭제', { stage: 'cleanup', jobId: job.id, requestId: job.requestId })
+    }
+  }
+}
+
+if (!store.sweeper) {
+  store.sweeper = setInterval(() => {
+    void sweepExpiredJobs()
+  }, SWEEP_INTERVAL_MS)
+  store.sweeper.unref()
+}
+
+// 엔진 이벤트를 작업 상태에 반영
+function handleEngineEvent(job: OcrJob, event: OcrEngineEvent) {
+  if (event.type === 'progress') {
+    job.progress = {
+      stage: event.stage,
+      current: event.completed,
+      total: event.total ?? undefined,
+      unit: event.unit ?? undefined,
+    }
+    if (event.unit === 'page' && event.total) job.pageCount = event.total
+  } else if (event.type === 'error') {
+    job.engineErrorCode = event.code
+  } else if (event.type === 'vision_call') {
+    job.visionCalls++
+    job.visionPages += event.pages
+    incrementCounter(METRICS.visionCalls)
+    incrementCounter(METRICS.visionPages, {}, event.pages)
+    logger.info('Vision 호출', {
+      stage: 'vision',
+      pages: event.pages,
+      firstPage: event.firstPage,
+      lastPage: event.lastPage,
+      durationMs: event.durationMs,
+    })
+  }
+}
+
+function failJob(job: OcrJob, code: OcrErrorCode, message?: string) {
+  job.state = 'failed'
+  job.errorCode = code
+  job.error = message ?? OCR_ERRORS[code].message
+}
+
+// Vision 일괄 인식 결과 (사용하지 않은 페이지가 남을 수 있음)
+function prefetchDir(job: OcrJob): string {
+  return path.join(job.workDir, 'vision')
+}
+
+// OCR한 페이지 수: 완료된 작업의 선택 페이지 (캐시 적중과 실패한 작업은 0)
+function ocrPageCount(job: OcrJob): number {
+  return job.state === 'done' && !job.cacheHit ? countSelectedPages(job.options.pages, job.pageCount ?? 0) : 0
+}
+
+// 사용량 기록. 기록 실패는 작업 결과에 영향 없음
+function recordUsage(job: OcrJob) {
+  const ocrPages = ocrPageCount(job)
+  try {
+    recordJobUsage({
+      jobId: job.id,
+      apiKeyId: job.apiKeyId,
+      engine: job.engine,
+      state: job.state,
+      errorCode: job.errorCode,
+      cacheHit: job.cacheHit,
+      pageCount: job.pageCount,
+      ocrPages,
+      visionCalls: job.visionCalls,
+      visionPages: job.visionPages,
+      durationMs: job.startedAt && job.finishedAt ? job.finishedAt - job.startedAt : undefined,
+      finishedAt: job.finishedAt ?? Date.now(),
+    })
+  } catch (error) {
+    logger.warn('사용량 기록 실패', { jobId: job.id, error })
+  }
+}
+
+// 끝난 작업을 지표에 반영 (처리 시간은 실제로 실행한 작업만)
+function recordMetrics(job: OcrJob) {
+  incrementCounter(METRICS.jobsFinished, { engine: job.engine, state: job.state, cache: job.cacheHit ? 'hit' : 'miss' })
+  if (job.errorCode) incrementCounter(METRICS.jobFailures, { engine: job.engine, code: job.errorCode })
+  if (job.startedAt && job.finishedAt && !job.cacheHit) {
+    observeHistogram(METRICS.jobDuration, (job.finishedAt - job.startedAt) / 1000, { engine: job.engine })
+  }
+  incrementCounter(METRICS.ocrPages, { engine: job.engine }, ocrPageCount(job))
+}
+
+function webhookPayload(job: OcrJob, webhook: WebhookDelivery): OcrWebhookPayload {
+  const done = job.state === 'done'
+  return {
+    event: done ? 'job.completed' : 'job.failed',
+    deliveryId: webhook.deliveryId,
+    jobId: job.id,
+    state: job.state,
+    originalFileName: job.originalFileName,
+    outputFileName: job.outputFileName,
+    pageCount: job.pageCount ?? null,
+    errorCode: job.errorCode ?? null,
+    error: job.error ?? null,
+    downloadUrl: done ? `${webhook.resultBaseUrl}/api/ocr/jobs/${job.id}/result` : null,
+    finishedAt: job.finishedAt!,
+    expiresAt: job.expiresAt ?? null,
+  }
+}
+
+// 작업 종료 처리: 사용량을 기록하고 완료 알림을 보냄. 입력 파일과 중간 파일은 지우고 결과는 보관 기간 동안 유지
+async function finishJob(job: OcrJob) {
+  job.finishedAt = Date.now()
+  job.expiresAt = job.finishedAt + RESULT_RETENTION_MS
+  recordUsage(job)
+  recordMetrics(job)
+  if (job.webhook) startWebhookDelivery(job.webhook, webhookPayload(job, job.webhook))
+  await unlink(job.inputPath).catch(() => {
+    /* ignore */
+  })
+  await rm(prefetchDir(job), { recursive: true, force: true }).catch(() => {
+    /* ignore */
+  })
+  logger.info('작업 입력 파일 정리', { stage: 'cleanup', jobId: job.id, retainedUntil: job.expiresAt })
+}
+
+function resultRequest(job: OcrJob): ResultRequest {
+  return {
+    engine: job.engine,
+    outputs: job.options.outputs,
+    originalFileName: job.originalFileName,
+    outputFileName: job.outputFileName,
+    workDir: job.workDir,
+  }
+}
+
+// 작업의 현재 엔진으로 OCR하고 요청한 형식의 결과를 만듦
+async function runEngine(job: OcrJob) {
+  const request: OcrRunRequest = {
+    engine: job.engine,
+    options: job.options,
+    inputPath: job.inputPath,
+    inputHash: job.inputHash,
+    outputPath: job.outputPath,
+    textPath: job.textPath,
+    structureDir: job.structureDir,
+    prefetchDir: prefetchDir(job),
+  }
+  const hooks = {
+    jobId: job.id,
+    signal: job.abortController.signal,
+    // 엔진을 바꿔 다시 처리해도 작업 시작 시각 기준 (OCR_JOB_TIMEOUT_MS)
+    deadline: OCR_JOB_TIMEOUT_MS > 0 ? (job.startedAt ?? Date.now()) + OCR_JOB_TIMEOUT_MS : undefined,
+    onEvent: (event: OcrEngineEvent) => handleEngineEvent(job, event),
+  }
+
+  // 페이지가 많은 문서는 SPLIT_PAGES쪽씩 나누어 처리
+  if (SPLIT_PAGES > 0) {
+    await runChunkedOcr(request, hooks, path.join(job.workDir, 'chunks'), SPLIT_PAGES)
+  } else {
+    await runOcrmypdf(request, hooks)
+  }
+  const baseResults = await writeBaseResults({
+    engine: job.engine,
+    workDir: job.workDir,
+    pdfPath: job.outputPath,
+    textPath: job.textPath,
+    pagesDir: job.structureDir,
+  })
+  job.pageCount = (await countResultPages(baseResults)) ?? job.pageCount
+  await storeCachedResult(job.cacheKey, baseResults)
+  job.results = await writeRequestedResults(baseResults, resultRequest(job))
+}
+
+// Vision 실행 중 오류(할당량 초과, API 오류, 인증 실패)로 실패했으면 Tesseract로 다시 처리
+// 취소했거나, 대체를 끄거나 허용하지 않았거나, 요청한 출력(hOCR/ALTO)을 Tesseract로 만들 수 없으면 그대로 실패
+async function runWithFallback(job: OcrJob) {
+  try {
+    await runEngine(job)
+  } catch (error) {
+    const code = job.engineErrorCode ?? ocrErrorCode(error)
+    if (job.abortController.signal.aborted || !shouldFallBackAfterFailure(job.engine, code, job.options.outputs)) {
+      throw error
+    }
+
+    logger.warn('Vision 처리 실패로 Tesseract로 다시 처리', { stage: 'job', jobId: job.id, code, error })
+    incrementCounter(METRICS.engineFallbacks, { reason: code })
+    job.fallbackFrom = job.engine
+    job.engine = 'tesseract'
+    job.cacheKey = resultCacheKey(job.inputHash, job.engine, job.options)
+    job.engineErrorCode = undefined
+    await rm(path.join(job.workDir, 'chunks'), { recursive: true, force: true })
+    await rm(prefetchDir(job), { recursive: true, force: true })
+    await runEngine(job)
+  }
+}
+
+// 작업 실행
+async function runJob(job: OcrJob) {
+  job.state = 'running'
+  job.startedAt = Date.now()
+  logger.info('OCR 작업 시작', { stage: 'job', jobId: job.id, engine: job.engine, queuedMs: job.startedAt - job.createdAt })
+
+  try {
+    await runWithFallback(job)
+    job.state = 'done'
+    logger.info('OCR 작업 완료', { stage: 'job', jobId: job.id, durationMs: Date.now() - job.startedAt })
+  } catch (error) {
+    // 엔진이 원인을 보고했으면 그 코드를, 아니면 ocrmypdf 종료 상태로 판단
+    const code = job.engineErrorCode ?? ocrErrorCode(error)
+    failJob(job, code, error instanceof OcrError && error.code === code ? error.message : undefined)
+    logger.error('OCR 처리 오류', {
+      stage: 'job',
+      jobId: job.id,
+      code: job.errorCode,
+      kind: error instanceof OcrmypdfError ? error.kind : undefined,
+      stderrTail: error instanceof OcrmypdfError ? error.stderrTail : undefined,
+      error,
+    })
+  } finally {
+    await finishJob(job)
+  }
+}
+
+// 동시 실행 한도 안에서 대기 중인 작업을 순서대로 시작
+// 실행 중 남기는 로그(엔진 이벤트, ocrmypdf 시작·종료 포함)에는 작업 ID와 등록 요청 ID가 붙음
+function pumpQueue() {
+  while (store.runningCount < MAX_CONCURRENT_JOBS && store.queue.length > 0) {
+    const job = store.queue.shift()!
+    store.runningCount++
+    void withLogContext({ requestId: job.requestId, jobId: job.id }, () => runJob(job)).finally(() => {
+      store.runningCount--
+      pumpQueue()
+    })
+  }
+}
+
+export function getQueueStats() {
+  return {
+    running: store.runningCount,
+    queued: store.queue.length,
+    maxConcurrent: MAX_CONCURRENT_JOBS,
+    maxQueued: MAX_QUEUED_JOBS,
+  }
+}
+
+// 대기열이 비는 데 걸릴 대략적인 시간 (Retry-After 헤더용)
+function estimateRetryAfterSeconds(): number {
+  return Math.min(300, 30 * Math.ceil((store.queue.length + 1) / MAX_CONCURRENT_JOBS))
+}
+
+// 대기 중인 작업 수 (대기열의 작업과, 한도 확인을 마치고 입력 파일을 옮기는 중이라 아직 대기열에 넣지 않은 작업)
+function countQueuedJobs(): number {
+  let count = 0
+  for (const job of Array.from(store.jobs.values())) {
+    if (job.state === 'queued') count++
+  }
+  return count
+}
+
+// API 키로 등록해 아직 끝나지 않은 작업 수
+export function countActiveJobs(apiKeyId: string): number {
+  let count = 0
+  for (const job of Array.from(store.jobs.values())) {
+    if (job.apiKeyId === apiKeyId && (job.state === 'queued' || job.state === 'running')) count++
+  }
+  return count
+}
+
+// API 키로 등록해 아직 끝나지 않은 작업이 예약한 페이지 수 (선택한 페이지, 하루 한도가 없는 키의 작업은 페이지 수를 세지 않아 0)
+// 끝난 작업은 사용량 기록에 과금된 페이지로 들어가므로 여기서는 세지 않음
+export function reservedPages(apiKeyId: string): number {
+  let pages = 0
+  for (const job of Array.from(store.jobs.values())) {
+    if (job.apiKeyId === apiKeyId && (job.state === 'queued' || job.state === 'running')) {
+      pages += countSelectedPages(job.options.pages, job.pageCount ?? 0)
+    }
+  }
+  return pages
+}
+
+// 다음 UTC 자정까지 남은 초 (하루 사용량이 초기화되는 시각)
+function secondsUntilNextDay(now = Date.now()): number {
+  const next = new Date(now)
+  next.setUTCHours(24, 0, 0, 0)
+  return Math.ceil((next.getTime() - now) / 1000)
+}
+
+// 하루 페이지 한도 확인: 오늘 과금된 페이지(실패·취소 포함)와 끝나지 않은 작업이 예약한 페이지에 pages를 더해 한도를 넘으면 거절
+// 본문을 받기 전에는 pages 없이 한도가 남았는지만 확인
+export function assertDailyQuota(apiKey: ApiKey | undefined, pages = 0) {
+  if (!apiKey || apiKey.pagesPerDay === null) return
+
+  const remaining = apiKey.pagesPerDay - getKeyUsage(apiKey.id).pages - reservedPages(apiKey.id)
+  if (remaining <= 0) {
+    throw new DailyQuotaError(
+      `오늘 처리할 수 있는 페이지 수(${apiKey.pagesPerDay}페이지)를 모두 사용했습니다.`,
+      secondsUntilNextDay()
+    )
+  }
+  if (pages > remaining) {
+    throw new DailyQuotaError(
+      `이 문서(${pages}페이지)를 처리하면 오늘 한도(${apiKey.pagesPerDay}페이지)를 넘습니다. 남은 페이지: ${remaining}페이지`,
+      secondsUntilNextDay()
+    )
+  }
+}
+
+// 같은 PDF와 설정의 결과가 캐시에 있으면 요청한 형식으로 만들어 바로 완료
+async function completeFromCache(job: OcrJob): Promise<boolean> {
+  const cached = await restoreCachedResult(job.cacheKey, job.workDir)
+  if (!cached) return false
+
+  try {
+    job.pageCount = await countResultPages(cached)
+    job.results = await writeRequestedResults(cached, resultRequest(job))
+  } catch (error) {
+    logger.warn('캐시된 결과로 작업을 완료하지 못해 새로 처리', { stage: 'cache', jobId: job.id, error })
+    await rm(job.workDir, { recursive: true, force: true }).catch(() => {
+      /* ignore */
+    })
+    return false
+  }
+
+  job.state = 'done'
+  job.cacheHit = true
+  job.startedAt = Date.now()
+  await finishJob(job)
+  store.jobs.set(job.id, job)
+  logger.info('OCR 작업 완료 (캐시)', { stage: 'job', jobId: job.id, engine: job.engine })
+  return true
+}
+
+// 업로드한 PDF를 작업 디렉터리로 옮기고 대기열에 등록 (서버 메모리 보호: 동시 실행 수는 MAX_CONCURRENT_JOBS로 제한)
+// 캐시된 결과가 있으면 대기열을 거치지 않고 완료된 작업 반환 (업로드는 호출한 쪽에서 정리)
+// API 키로 등록하면 키의 동시 작업 수와 하루 페이지 한도를 확인 (캐시 적중은 한도와 관계없이 완료)
+// 하루 한도가 있으면 PDF 페이지 수를 먼저 세어 선택한 페이지만큼 예약 (등록 직후부터 다른 요청의 한도 계산에 포함)
+// 페이지 수를 읽지 못하는 PDF는 한도를 확인할 수 없으므로 거절
+export async function createJob(
+  fileName: string,
+  upload: StagedUpload,
+  selection: EngineSelection,
+  options: OcrOptions,
+  { apiKey, webhook, requestId }: JobSubmission = {}
+): Promise<OcrJob> {
+  const id = randomUUID()
+  const workDir = path.join(JOBS_DIR, id)
+  const structureDir = path.join(workDir, 'pages')
+  const inputHash = upload.hash
+  const originalFileName = sanitizeFileName(fileName)
+
+  const job: OcrJob = {
+    id,
+    state: 'queued',
+    originalFileName,
+    outputFileName: generateOCRFileName(originalFileName),
+    engine: selection.engine,
+    fallbackFrom: selection.fallbackFrom,
+    options,
+    workDir,
+    inputPath: path.join(workDir, 'input.pdf'),
+    inputHash,
+    outputPath: path.join(workDir, 'output.pdf'),
+    textPath: path.join(workDir, 'output.txt'),
+    structureDir,
+    results: {},
+    primaryFormat: primaryResultFormat(options.outputs),
+    cacheKey: resultCacheKey(inputHash, selection.engine, options),
+    cacheHit: false,
+    visionCalls: 0,
+    visionPages: 0,
+    createdAt: Date.now(),
+    apiKeyId: apiKey?.id,
+    requestId,
+    webhook,
+    abortController: new AbortController(),
+  }
+
+  if (await completeFromCache(job)) return job
+
+  await mkdir(structureDir, { recursive: true })
+  try {
+    if (apiKey && apiKey.pagesPerDay !== null) {
+      job.pageCount = await countPdfPages(upload.path, workDir)
+    }
+
+    // 페이지 수를 센 뒤로는 await 없이 확인하고 store.jobs에 등록 (동시에 들어온 요청이 같은 한도를 나눠 쓰지 않도록)
+    // 대기열 자리도 store.jobs로 세므로 입력 파일을 옮기는 동안 들어온 요청도 이 작업을 셈
+    if (apiKey && apiKey.maxConcurrentJobs !== null && countActiveJobs(apiKey.id) >= apiKey.maxConcurrentJobs) {
+      throw new ConcurrentJobLimitError(apiKey.maxConcurrentJobs, estimateRetryAfterSeconds())
+    }
+    if (countQueuedJobs() >= MAX_QUEUED_JOBS) {
+      throw new QueueFullError(estimateRetryAfterSeconds())
+    }
+    assertDailyQuota(apiKey, countSelectedPages(options.pages, job.pageCount ?? 0))
+    store.jobs.set(id, job)
+
+    await rename(upload.path, job.inputPath)
+  } catch (error) {
+    store.jobs.delete(id)
+    await rm(workDir, { recursive: true, force: true }).catch(() => {
+      /* ignore */
+    })
+    throw error
+  }
+  store.queue.push(job)
+  incrementCounter(METRICS.jobsSubmitted, { engine: job.engine })
+  logger.info('OCR 작업 등록', { stage: 'queue', jobId: id, engine: job.engine, queuePosition: store.queue.length })
+
+  pumpQueue()
+  return job
+}
+
+// 작업 취소: 대기 중이면 대기열에서 빼고, 실행 중이면 ocrmypdf 프로세스 그룹 종료
+export async function cancelJob(job: OcrJob): Promise<void> {
+  if (job.state === 'queued') {
+    store.queue.splice(store.queue.indexOf(job), 1)
+    failJob(job, 'CANCELLED')
+    logger.info('OCR 작업 취소 (대기 중)', { stage: 'job', jobId: job.id })
+    await finishJob(job)
+  } else if (job.state === 'running') {
+    logger.info('OCR 작업 취소 (실행 중)', { stage: 'job', jobId: job.id })
+    job.abortController.abort()
+  }
+}
+
+export function getJob(id: string): OcrJob | undefined {
+  const job = store.jobs.get(id)
+  if (job?.expiresAt && job.expiresAt <= Date.now()) return undefined
+  return job
+}
+
+// API 응답용 작업 상태
+export function toJobStatus(job: OcrJob): OcrJobStatus {
+  return {
+    jobId: job.id,
+    requestId: job.requestId,
+    state: job.state,
+    originalFileName: job.originalFileName,
+    outputFileName: job.outputFileName,
+    engine: job.engine,
+    fallbackFrom: job.fallbackFrom,
+    options: job.options,
+    pageCount: job.pageCount,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    expiresAt: job.expiresAt,
+    queuePosition: job.state === 'queued' ? store.queue.indexOf(job) + 1 : undefined,
+    progress: job.state === 'running' ? job.progress : undefined,
+    resultUrl: job.state === 'done' ? `/api/ocr/jobs/${job.id}/result` : undefined,
+    resultFormats: job.state === 'done' ? (Object.keys(job.results) as OcrResultFormat[]) : undefined,
+    primaryFormat: job.state === 'done' ? job.primaryFormat : undefined,
+    error: job.error,
+    errorCode: job.errorCode,
+    retryable: job.errorCode ? OCR_ERRORS[job.errorCode].retryable : undefined,
+    webhook: job.webhook && toWebhookStatus(job.webhook),
+  }
+}
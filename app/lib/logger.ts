@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+// JSON 한 줄 형식의 구조화 로그 (LOG_LEVEL로 출력 수준 조절, 기본 info)
+// withLogContext 안에서 남긴 로그에는 그 필드(요청 ID, 작업 ID)가 자동으로 붙음
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+function minimumLevel(): number {
+  const configured = process.env.LOG_LEVEL as LogLevel | undefined
+  return LEVEL_ORDER[configured && configured in LEVEL_ORDER ? configured : 'info']
+}
+
+export type LogFields = Record<string, unknown>
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 실행 중인 작업의 문맥이 유지되도록 globalThis에 보관
+const globalForLog = globalThis as unknown as { ocrLogContext?: AsyncLocalStorage<LogFields> }
+const logContext = (globalForLog.ocrLogContext ??= new AsyncLocalStorage<LogFields>())
+
+// fn 안에서(비동기 후속 작업 포함) 남기는 모든 로그에 fields를 붙임 (바깥 문맥의 필드는 유지)
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn)
+}
+
+export function currentLogContext(): LogFields {
+  return logContext.getStore() ?? {}
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LEVEL_ORDER[level] < minimumLevel()) return
+
+  const entry = { time: new Date().toISOString(), level, msg: message, ...logContext.getStore(), ...fields }
+  const line = JSON.stringify(entry, (_key, value) =>
+    value instanceof Error ? { name: value.name, message: value.message } : value
+  )
+
+  if (level === 'error' || level === 'warn') {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+}
@@ -0,0 +1,135 @@
+// Prometheus 텍스트 형식 지표 (GET /api/metrics)
+// 카운터와 히스토그램은 서버 메모리에 누적하고(재시작하면 0부터), 게이지는 조회할 때 값을 받아 씀
+
+type Labels = Record<string, string>
+
+interface Series {
+  labels: Labels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: Labels
+  buckets: number[]  // 버킷별 누적 개수 (le 이하)
+  sum: number
+  count: number
+}
+
+interface MetricsStore {
+  counters: Map<string, Map<string, Series>>
+  histograms: Map<string, Map<string, HistogramSeries>>
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 누적 값이 유지되도록 globalThis에 보관
+const globalForMetrics = globalThis as unknown as { ocrMetrics?: MetricsStore }
+const store: MetricsStore = globalForMetrics.ocrMetrics ?? { counters: new Map(), histograms: new Map() }
+globalForMetrics.ocrMetrics = store
+
+interface MetricDefinition {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'histogram'
+  buckets?: number[]
+}
+
+// 작업 처리 시간 버킷 (초)
+const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1200, 3600]
+
+export const METRICS = {
+  jobsSubmitted: { name: 'ocr_jobs_submitted_total', help: '대기열에 등록된 OCR 작업 수 (캐시 적중 제외)', type: 'counter' },
+  jobsFinished: { name: 'ocr_jobs_finished_total', help: '끝난 OCR 작업 수 (결과별)', type: 'counter' },
+  jobFailures: { name: 'ocr_job_failures_total', help: '실패한 OCR 작업 수 (오류 코드별)', type: 'counter' },
+  engineFallbacks: { name: 'ocr_engine_fallbacks_total', help: 'Vision 대신 Tesseract로 처리한 작업 수 (원인 오류 코드별)', type: 'counter' },
+  jobDuration: {
+    name: 'ocr_job_duration_seconds',
+    help: 'OCR 작업 실행 시간 (대기 시간 제외)',
+    type: 'histogram',
+    buckets: DURATION_BUCKETS,
+  },
+  ocrPages: { name: 'ocr_pages_total', help: 'OCR한 페이지 수', type: 'counter' },
+  visionCalls: { name: 'ocr_vision_calls_total', help: '성공한 Vision API 요청 수', type: 'counter' },
+  visionPages: { name: 'ocr_vision_pages_total', help: 'Vision API가 과금한 페이지 수', type: 'counter' },
+  uploadBytes: { name: 'ocr_upload_bytes_total', help: '받은 업로드 크기 합계', type: 'counter' },
+  webhookDeliveries: { name: 'ocr_webhook_deliveries_total', help: '웹훅 전송 시도 결과 (delivered, retry: 다시 보낼 예정, failed: 포기)', type: 'counter' },
+  queueDepth: { name: 'ocr_queue_depth', help: '실행을 기다리는 작업 수', type: 'gauge' },
+  jobsRunning: { name: 'ocr_jobs_running', help: '실행 중인 작업 수', type: 'gauge' },
+  childProcesses: { name: 'ocr_child_processes', help: '실행 중인 ocrmypdf 프로세스 그룹 수', type: 'gauge' },
+  childProcessRss: {
+    name: 'ocr_child_process_rss_bytes',
+    help: '실행 중인 ocrmypdf 프로세스 그룹의 메모리 사용량(RSS) 합계',
+    type: 'gauge',
+  },
+  processRss: { name: 'ocr_server_rss_bytes', help: 'Node 서버 프로세스의 메모리 사용량(RSS)', type: 'gauge' },
+} satisfies Record<string, MetricDefinition>
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)))
+}
+
+export function incrementCounter(metric: MetricDefinition, labels: Labels = {}, amount = 1) {
+  const series = store.counters.get(metric.name) ?? new Map<string, Series>()
+  store.counters.set(metric.name, series)
+  const key = labelKey(labels)
+  const current = series.get(key) ?? { labels, value: 0 }
+  current.value += amount
+  series.set(key, current)
+}
+
+export function observeHistogram(metric: MetricDefinition, value: number, labels: Labels = {}) {
+  const bounds = metric.buckets ?? []
+  const series = store.histograms.get(metric.name) ?? new Map<string, HistogramSeries>()
+  store.histograms.set(metric.name, series)
+  const key = labelKey(labels)
+  const current = series.get(key) ?? { labels, buckets: bounds.map(() => 0), sum: 0, count: 0 }
+  bounds.forEach((bound, index) => {
+    if (value <= bound) current.buckets[index]++
+  })
+  current.sum += value
+  current.count++
+  series.set(key, current)
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`
+}
+
+function header(metric: MetricDefinition): string[] {
+  return [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`]
+}
+
+// 누적 지표와 조회 시점의 게이지 값을 Prometheus 텍스트 형식으로 출력
+export function renderMetrics(gauges: { metric: MetricDefinition; value: number }[]): string {
+  const lines: string[] = []
+
+  for (const metric of Object.values(METRICS) as MetricDefinition[]) {
+    if (metric.type === 'counter') {
+      lines.push(...header(metric))
+      for (const { labels, value } of Array.from(store.counters.get(metric.name)?.values() ?? [])) {
+        lines.push(`${metric.name}${formatLabels(labels)} ${value}`)
+      }
+    } else if (metric.type === 'histogram') {
+      lines.push(...header(metric))
+      for (const series of Array.from(store.histograms.get(metric.name)?.values() ?? [])) {
+        const bounds = metric.buckets ?? []
+        for (let index = 0; index < bounds.length; index++) {
+          const labels = formatLabels({ ...series.labels, le: String(bounds[index]) })
+          lines.push(`${metric.name}_bucket${labels} ${series.buckets[index]}`)
+        }
+        lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`)
+        lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${series.sum}`)
+        lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`)
+      }
+    }
+  }
+
+  for (const { metric, value } of gauges) {
+    lines.push(...header(metric), `${metric.name} ${value}`)
+  }
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,308 @@
+import path from 'path'
+import { OcrEngineType, OcrErrorCode, OcrMode, OcrOptions, isOcrErrorCode } from '../types'
+import {
+  MAX_CONCURRENT_JOBS,
+  OCR_JOB_TIMEOUT_MS,
+  OCR_TIMEOUT_MS,
+  PAGE_CACHE_DIR,
+  VISION_MAX_RETRIES,
+  VISION_REQUESTS_PER_MINUTE,
+} from './config'
+import { OcrError } from './errors'
+import { logger } from './logger'
+import { isPageCacheEnabled } from './pageCache'
+import {
+  ProcessAbortedError,
+  ProcessExitError,
+  ProcessSpawnError,
+  ProcessTimeoutError,
+  runProcess,
+} from './processRunner'
+import { checkVisionCredentials, getVisionEndpoint } from './visionAuth'
+
+// ocr_events.py가 stderr에 출력하는 이벤트 줄의 접두사
+const EVENT_PREFIX = '@@OCR_EVENT '
+
+export interface OcrProgressEvent {
+  type: 'progress'
+  stage: string
+  completed: number
+  total: number | null
+  unit: string | null
+}
+
+// OCR 엔진 플러그인이 실패 원인을 직접 알릴 때 (예: Vision 할당량 초과)
+export interface OcrErrorEvent {
+  type: 'error'
+  code: OcrErrorCode
+  message?: string
+}
+
+// Vision API 호출이 성공할 때마다 (pages는 과금되는 페이지 수, 페이지 캐시 적중은 호출 없음)
+// 인식한 페이지는 원본 문서 기준 번호 (페이지별 요청은 firstPage === lastPage)
+export interface OcrVisionCallEvent {
+  type: 'vision_call'
+  pages: number
+  firstPage?: number
+  lastPage?: number
+  durationMs?: number
+}
+
+export type OcrEngineEvent = OcrProgressEvent | OcrErrorEvent | OcrVisionCallEvent
+
+export interface OcrRunRequest {
+  engine: OcrEngineType
+  options: OcrOptions
+  inputPath: string
+  inputHash: string     // 입력 PDF의 SHA-256 (Vision 페이지 캐시에서 문서 구분)
+  outputPath: string
+  textPath: string      // 페이지별 인식 텍스트 (--sidecar)
+  structureDir: string  // 엔진 플러그인이 페이지별 구조 JSON을 쓰는 디렉터리
+  prefetchDir: string   // Vision 일괄 인식(OCR_VISION_MODE=batch) 결과를 페이지별로 보관하는 디렉터리
+  pageOffset?: number   // 나누어 처리할 때 이 입력의 첫 페이지 앞에 있는 원본 문서의 페이지 수
+}
+
+export interface OcrRunHooks {
+  jobId: string
+  signal?: AbortSignal
+  deadline?: number  // 작업 전체 제한 시각 (OCR_JOB_TIMEOUT_MS, 없으면 프로세스마다 OCR_TIMEOUT_MS만 적용)
+  onEvent: (event: OcrEngineEvent) => void
+}
+
+// ocrmypdf 실패 원인 (종료 코드와 프로세스 상태로 구분)
+export type OcrFailureKind =
+  | 'engine-missing'      // ocrmypdf 실행 파일 없음
+  | 'missing-dependency'  // tesseract, unpaper 등 필요한 프로그램 없음
+  | 'bad-args'            // 잘못된 옵션 조합
+  | 'invalid-input'       // 손상되었거나 PDF가 아닌 입력
+  | 'invalid-output'      // 출력 PDF 생성 실패
+  | 'file-access'         // 임시 파일 읽기/쓰기 실패
+  | 'prior-ocr'           // 이미 텍스트 레이어가 있음
+  | 'child-process'       // OCR 엔진 등 하위 프로세스 실패
+  | 'encrypted-pdf'       // 암호화된 PDF
+  | 'invalid-config'      // Tesseract 설정 오류
+  | 'pdfa-conversion'     // PDF/A 변환 실패
+  | 'timeout'             // 제한 시간 초과
+  | 'killed'              // 외부에서 강제 종료 (대개 메모리 부족)
+  | 'aborted'             // 작업 취소
+  | 'other'
+
+// ocrmypdf ExitCode → 실패 원인
+const EXIT_CODE_KINDS: Record<number, OcrFailureKind> = {
+  1: 'bad-args',
+  2: 'invalid-input',
+  3: 'missing-dependency',
+  4: 'invalid-output',
+  5: 'file-access',
+  6: 'prior-ocr',
+  7: 'child-process',
+  8: 'encrypted-pdf',
+  9: 'invalid-config',
+  10: 'pdfa-conversion',
+}
+
+export class OcrmypdfError extends Error {
+  constructor(
+    public readonly kind: OcrFailureKind,
+    message: string,
+    public readonly stderrTail: string[] = []
+  ) {
+    super(message)
+    this.name = 'OcrmypdfError'
+  }
+}
+
+// 프로세스 실행 오류를 ocrmypdf 실패 원인으로 변환
+export function toOcrmypdfError(error: unknown): unknown {
+  if (error instanceof ProcessSpawnError) {
+    return new OcrmypdfError('engine-missing', error.message)
+  }
+  if (error instanceof ProcessTimeoutError) {
+    return new OcrmypdfError('timeout', error.message, error.stderrTail)
+  }
+  if (error instanceof ProcessAbortedError) {
+    return new OcrmypdfError('aborted', error.message, error.stderrTail)
+  }
+  if (error instanceof ProcessExitError) {
+    const kind = error.exitSignal
+      ? 'killed'
+      : EXIT_CODE_KINDS[error.exitCode ?? -1] ?? 'other'
+    return new OcrmypdfError(kind, error.message, error.stderrTail)
+  }
+  return error
+}
+
+// stderr 줄이 이벤트면 파싱해서 반환
+function parseEventLine(line: string): OcrEngineEvent | null {
+  const start = line.indexOf(EVENT_PREFIX)
+  if (start === -1) return null
+  try {
+    const event = JSON.parse(line.slice(start + EVENT_PREFIX.length))
+    if (event?.type === 'error' && !isOcrErrorCode(event.code)) return null
+    if (event?.type === 'vision_call' && !Number.isInteger(event.pages)) return null
+    return event
+  } catch {
+    return null
+  }
+}
+
+// 클라이언트가 보낸 파일명에서 경로(/와 \)와 제어 문자를 뺀 이름만 남김 (ZIP 항목 이름과 다운로드 파일명에 쓰임)
+export function sanitizeFileName(fileName: string): string {
+  const name = path.posix.basename(fileName.replace(/\\/g, '/')).replace(/[\u0000-\u001f\u007f]/g, '').trim()
+  return name && name !== '.' && name !== '..' ? name : 'document.pdf'
+}
+
+// 파일명에서 확장자 추출 및 _OCR 추가
+export function generateOCRFileName(originalFileName: string): string {
+  const lastDotIndex = originalFileName.lastIndexOf('.')
+
+  if (lastDotIndex === -1) {
+    return `${originalFileName}_OCR.pdf`
+  }
+
+  const nameWithoutExt = originalFileName.substring(0, lastDotIndex)
+  return `${nameWithoutExt}_OCR.pdf`
+}
+
+// 엔진별 ocrmypdf 인자
+function engineArgs(engine: OcrEngineType): string[] {
+  switch (engine) {
+    case 'vision':
+      return ['--plugin', path.join(process.cwd(), 'ocr_plugin.py')] // Google Vision API OCR 엔진
+    case 'mock':
+      return ['--plugin', path.join(process.cwd(), 'ocr_mock_plugin.py')] // 테스트용 Mock 엔진
+    case 'tesseract':
+      return [] // ocrmypdf 내장 Tesseract (Dockerfile에서 언어 데이터 설치)
+  }
+}
+
+const MODE_FLAGS: Record<OcrMode, string> = {
+  'force': '--force-ocr',         // 강제 OCR 적용
+  'skip-text': '--skip-text',     // 텍스트가 있는 페이지는 건너뜀
+  'redo-ocr': '--redo-ocr',       // 기존 OCR 레이어만 교체
+}
+
+// 요청 옵션별 ocrmypdf 인자 (Vision 플러그인도 -l 값을 languageHints로 사용)
+function optionArgs(options: OcrOptions): string[] {
+  const args = [
+    MODE_FLAGS[options.mode],
+    '-l', options.languages.join('+'),
+    '--optimize', String(options.optimize),  // 0이면 최적화 단계 건너뛰기 (추가 메모리 사용 방지)
+  ]
+  if (options.deskew) args.push('--deskew')              // 기울기 보정
+  if (options.rotatePages) args.push('--rotate-pages')   // 페이지 방향 자동 회전
+  if (options.clean) args.push('--clean')                // unpaper로 노이즈 제거 (OCR용 이미지에만 적용)
+  if (options.pages) args.push('--pages', options.pages) // 지정한 페이지만 OCR (나머지는 그대로 출력)
+  return args
+}
+
+// vision_client.py 설정: 분당 요청 한도는 동시에 실행할 수 있는 프로세스 수로 나눔
+// 인증 방식은 작업 접수 때 검사한 것과 같은 방식을 쓰도록 확정해서 전달
+function visionClientEnv(): Record<string, string> {
+  const perProcess = VISION_REQUESTS_PER_MINUTE > 0
+    ? Math.max(1, Math.floor(VISION_REQUESTS_PER_MINUTE / MAX_CONCURRENT_JOBS))
+    : 0
+  const env: Record<string, string> = {
+    OCR_VISION_PROCESS_RATE_LIMIT: String(perProcess),
+    OCR_VISION_MAX_RETRIES: String(VISION_MAX_RETRIES),
+    GOOGLE_VISION_ENDPOINT: getVisionEndpoint(),
+  }
+  const { mode } = checkVisionCredentials()
+  if (mode) env.GOOGLE_VISION_AUTH = mode
+  return env
+}
+
+// 다음 프로세스(ocrmypdf, pdf_tools.py)에 줄 제한 시간: OCR_TIMEOUT_MS와 작업 전체의 남은 시간 중 짧은 쪽
+// 전체 제한 시간이 이미 지났으면 프로세스를 띄우지 않고 timeout으로 실패
+export function processTimeoutMs(hooks: OcrRunHooks): number {
+  if (hooks.deadline === undefined) return OCR_TIMEOUT_MS
+
+  const remaining = hooks.deadline - Date.now()
+  if (remaining <= 0) {
+    throw new OcrmypdfError('timeout', `작업 전체 제한 시간(${Math.round(OCR_JOB_TIMEOUT_MS / 1000)}초)을 넘었습니다`)
+  }
+  return Math.min(OCR_TIMEOUT_MS, remaining)
+}
+
+// ocrmypdf 실행: 극한 메모리 최적화
+export async function runOcrmypdf(request: OcrRunRequest, hooks: OcrRunHooks): Promise<void> {
+  const args = [
+    ...engineArgs(request.engine),
+    '--plugin', path.join(process.cwd(), 'ocr_events.py'), // 진행 상황 이벤트 출력
+    ...optionArgs(request.options),
+    '-j', '1',                   // ★ 핵심: 1페이지씩 순차 처리 (병렬 금지 → 메모리 대폭 절약)
+    '--output-type', 'pdf',      // 출력 형식 명시
+    '--skip-big', '25',          // 25메가픽셀 이상 이미지 건너뜀
+    '--jpeg-quality', '60',      // JPEG 품질 낮춤 (중간 파일 크기 감소)
+    '--fast-web-view', '0',      // Fast Web View 비활성화 (메모리 절약)
+    '--sidecar', request.textPath,  // 인식 텍스트를 페이지별로 따로 저장 (\f로 구분)
+    '--',                        // 이후 인자는 모두 파일 경로
+    request.inputPath,
+    request.outputPath,
+  ]
+
+  const fields = { stage: 'ocrmypdf', jobId: hooks.jobId, engine: request.engine, pageOffset: request.pageOffset ?? 0 }
+  const timeoutMs = processTimeoutMs(hooks)
+  logger.info('ocrmypdf 시작', { ...fields, pages: request.options.pages })
+  try {
+    const { durationMs } = await runProcess('ocrmypdf', args, {
+      timeoutMs,
+      env: {
+        ...process.env,
+        OCR_STRUCTURE_DIR: request.structureDir,
+        OCR_VISION_PREFETCH_DIR: request.prefetchDir,
+        OCR_INPUT_SHA256: request.inputHash,
+        OCR_PAGE_OFFSET: String(request.pageOffset ?? 0),
+        ...(isPageCacheEnabled() ? { OCR_PAGE_CACHE_DIR: PAGE_CACHE_DIR } : {}),
+        ...visionClientEnv(),
+      },
+      signal: hooks.signal,
+      onStderrLine: (line) => {
+        const event = parseEventLine(line)
+        if (event) {
+          hooks.onEvent(event)
+        } else if (line.trim()) {
+          logger.info('ocrmypdf stderr', { ...fields, line })
+        }
+      },
+    })
+    logger.info('ocrmypdf 종료', { ...fields, durationMs })
+  } catch (error) {
+    const ocrmypdfError = toOcrmypdfError(error)
+    logger.warn('ocrmypdf 실패', {
+      ...fields,
+      kind: ocrmypdfError instanceof OcrmypdfError ? ocrmypdfError.kind : undefined,
+      error: ocrmypdfError,
+    })
+    throw ocrmypdfError
+  }
+}
+
+const FAILURE_CODES: Record<OcrFailureKind, OcrErrorCode> = {
+  'engine-missing': 'ENGINE_MISSING',
+  'missing-dependency': 'ENGINE_MISSING',
+  'bad-args': 'INVALID_OPTIONS',
+  'invalid-input': 'INVALID_PDF',
+  'invalid-output': 'INTERNAL_ERROR',
+  'file-access': 'INTERNAL_ERROR',
+  'prior-ocr': 'PRIOR_OCR',
+  'child-process': 'INTERNAL_ERROR',
+  'encrypted-pdf': 'ENCRYPTED_PDF',
+  'invalid-config': 'INVALID_OPTIONS',
+  'pdfa-conversion': 'INTERNAL_ERROR',
+  'timeout': 'TIMEOUT',
+  'killed': 'OOM',
+  'aborted': 'CANCELLED',
+  'other': 'INTERNAL_ERROR',
+}
+
+// ocrmypdf 실행 오류를 API 오류 코드로 변환
+export function ocrErrorCode(error: unknown): OcrErrorCode {
+  if (error instanceof OcrmypdfError) {
+    return FAILURE_CODES[error.kind]
+  }
+  if (error instanceof OcrError) {
+    return error.code
+  }
+  return 'INTERNAL_ERROR'
+}
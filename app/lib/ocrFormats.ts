@@ -0,0 +1,152 @@
+import { OcrBoundingBox, OcrDocumentStructure, OcrEngineType } from '../types'
+
+// 구조화 결과(OcrDocumentStructure)를 hOCR, ALTO 4 XML로 변환
+// 검색 가능한 PDF의 텍스트 레이어와 같은 단어 bbox와 신뢰도를 사용
+
+const ENGINE_NAMES: Record<OcrEngineType, string> = {
+  vision: 'Google Cloud Vision API',
+  tesseract: 'Tesseract',
+  mock: 'Mock OCR',
+}
+
+// XML 1.0에서 쓸 수 없는 문자 (탭, 줄바꿈, 캐리지 리턴을 뺀 제어 문자와 U+FFFE, U+FFFF)
+// 문자 참조(&#1;)로도 쓸 수 없으므로 삭제. OCR 엔진이나 파일 이름에서 섞여 들어오면 문서 전체를 파싱할 수 없게 됨
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 여러 페이지를 하나의 hOCR 문서로 합침
+export function toHocr(structure: OcrDocumentStructure): string {
+  const engineName = ENGINE_NAMES[structure.engine]
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN"',
+    '  "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="ko" lang="ko">',
+    '<head>',
+    `  <title>${escapeXml(engineName)} OCR</title>`,
+    '  <meta http-equiv="Content-Type" content="text/html; charset=utf-8" />',
+    `  <meta name="ocr-system" content="${escapeXml(engineName)}" />`,
+    '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word" />',
+    '</head>',
+    '<body>',
+  ]
+
+  let blockId = 0
+  let parId = 0
+  let lineId = 0
+  let wordId = 0
+
+  for (const page of structure.pages) {
+    lines.push(
+      `  <div class="ocr_page" id="page_${page.page}" title="bbox 0 0 ${page.width} ${page.height}; ppageno ${page.page - 1}">`
+    )
+
+    for (const block of page.blocks) {
+      lines.push(`    <div class="ocr_carea" id="block_${++blockId}" title="bbox ${block.bbox.join(' ')}">`)
+
+      for (const paragraph of block.paragraphs) {
+        lines.push(`      <p class="ocr_par" id="par_${++parId}" title="bbox ${paragraph.bbox.join(' ')}">`)
+
+        for (const line of paragraph.lines) {
+          const [slope, offset] = line.baseline
+          const textAngle = line.angle ? `; textangle ${line.angle}` : ''
+          lines.push(
+            `        <span class="ocr_line" id="line_${++lineId}" ` +
+              `title="bbox ${line.bbox.join(' ')}; baseline ${slope} ${offset}; x_size ${line.fontSize}${textAngle}">`
+          )
+          for (const word of line.words) {
+            lines.push(
+              `          <span class="ocrx_word" id="word_${++wordId}" ` +
+                `title="bbox ${word.bbox.join(' ')}; x_wconf ${Math.round(word.confidence * 100)}">${escapeXml(word.text)}</span>`
+            )
+          }
+          lines.push('        </span>')
+        }
+
+        lines.push('      </p>')
+      }
+      lines.push('    </div>')
+    }
+    lines.push('  </div>')
+  }
+
+  lines.push('</body>', '</html>')
+  return lines.join('\n')
+}
+
+// ALTO 위치 속성 (HPOS, VPOS, WIDTH, HEIGHT)
+function altoPosition(bbox: OcrBoundingBox): string {
+  const [x0, y0, x1, y1] = bbox
+  return `HPOS="${x0}" VPOS="${y0}" WIDTH="${Math.max(x1 - x0, 0)}" HEIGHT="${Math.max(y1 - y0, 0)}"`
+}
+
+// ALTO 4 XML (단위: 페이지 이미지 픽셀). 문단은 TextBlock, 줄은 TextLine, 단어는 String으로 표현
+export function toAlto(structure: OcrDocumentStructure, sourceFileName: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#"',
+    '      xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '      xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">',
+    '  <Description>',
+    '    <MeasurementUnit>pixel</MeasurementUnit>',
+    '    <sourceImageInformation>',
+    `      <fileName>${escapeXml(sourceFileName)}</fileName>`,
+    '    </sourceImageInformation>',
+    '    <OCRProcessing ID="OCR_0">',
+    '      <ocrProcessingStep>',
+    '        <processingSoftware>',
+    `          <softwareName>${escapeXml(ENGINE_NAMES[structure.engine])}</softwareName>`,
+    '        </processingSoftware>',
+    '      </ocrProcessingStep>',
+    '    </OCRProcessing>',
+    '  </Description>',
+    '  <Layout>',
+  ]
+
+  let blockId = 0
+  let lineId = 0
+  let wordId = 0
+
+  for (const page of structure.pages) {
+    lines.push(
+      `    <Page ID="page_${page.page}" PHYSICAL_IMG_NR="${page.page}" WIDTH="${page.width}" HEIGHT="${page.height}">`,
+      `      <PrintSpace HPOS="0" VPOS="0" WIDTH="${page.width}" HEIGHT="${page.height}">`
+    )
+
+    for (const block of page.blocks) {
+      for (const paragraph of block.paragraphs) {
+        if (paragraph.lines.length === 0) continue
+
+        // ROTATION: 블록 안 글자의 반시계 방향 회전 각도
+        const angle = paragraph.lines[0].angle
+        const rotation = angle ? ` ROTATION="${angle}"` : ''
+        lines.push(`        <TextBlock ID="block_${++blockId}" ${altoPosition(paragraph.bbox)}${rotation}>`)
+        for (const line of paragraph.lines) {
+          lines.push(`          <TextLine ID="line_${++lineId}" ${altoPosition(line.bbox)}>`)
+          line.words.forEach((word, index) => {
+            if (index > 0) lines.push('            <SP/>')
+            lines.push(
+              `            <String ID="string_${++wordId}" ${altoPosition(word.bbox)} ` +
+                `WC="${word.confidence.toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`
+            )
+          })
+          lines.push('          </TextLine>')
+        }
+        lines.push('        </TextBlock>')
+      }
+    }
+
+    lines.push('      </PrintSpace>', '    </Page>')
+  }
+
+  lines.push('  </Layout>', '</alto>')
+  return lines.join('\n')
+}
@@ -0,0 +1,185 @@
+import { OcrLanguage, OcrMode, OcrOptions, OcrOutputFormat } from '../types'
+
+// 클라이언트(설정 패널)와 서버(요청 검증)가 함께 사용하는 OCR 옵션 정의
+
+export const OCR_LANGUAGES: { code: OcrLanguage; label: string }[] = [
+  { code: 'kor', label: '한국어' },
+  { code: 'eng', label: '영어' },
+  { code: 'jpn', label: '일본어' },
+  { code: 'chi_sim', label: '중국어(간체)' },
+  { code: 'chi_tra', label: '중국어(번체)' },
+]
+
+export const OCR_MODES: { value: OcrMode; label: string }[] = [
+  { value: 'force', label: '전체 다시 OCR (기존 텍스트 무시)' },
+  { value: 'skip-text', label: '텍스트가 있는 페이지 건너뛰기' },
+  { value: 'redo-ocr', label: '기존 OCR 레이어만 교체' },
+]
+
+export const OCR_OUTPUTS: { value: OcrOutputFormat; label: string }[] = [
+  { value: 'pdf', label: '검색 가능한 PDF' },
+  { value: 'hocr', label: 'hOCR' },
+  { value: 'alto', label: 'ALTO XML' },
+]
+
+// 단어 위치 정보가 필요한 결과물 (구조 정보를 내는 엔진에서만 생성 가능)
+export const STRUCTURED_OUTPUTS: readonly OcrOutputFormat[] = ['hocr', 'alto']
+
+// 기존 동작과 같은 기본값 (강제 OCR, 최적화 없음 → 메모리 절약)
+export const DEFAULT_OCR_OPTIONS: OcrOptions = {
+  languages: ['kor', 'eng'],
+  mode: 'force',
+  deskew: false,
+  rotatePages: false,
+  clean: false,
+  optimize: 0,
+  outputs: ['pdf'],
+}
+
+export class InvalidOcrOptionsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidOcrOptionsError'
+  }
+}
+
+// 페이지 범위 한 구간 (1부터, last가 null이면 문서 끝까지)
+export interface PageRange {
+  first: number
+  last: number | null
+}
+
+const PAGE_RANGE_PATTERN = /^(\d+)(?:(-)(\d+)?)?$/
+
+// "1-3,10,15-" 형식의 페이지 범위를 검증해 정렬하고 겹치거나 이어지는 구간을 합침 (빈 문자열이면 빈 목록 = 전체)
+export function parsePageRanges(value: string): PageRange[] {
+  const ranges: PageRange[] = []
+  for (const part of value.replace(/\s+/g, '').split(',')) {
+    if (!part) continue
+    const match = PAGE_RANGE_PATTERN.exec(part)
+    if (!match) {
+      throw new InvalidOcrOptionsError(`페이지 범위 "${part}"를 읽을 수 없습니다 (예: 1-3,10,15-)`)
+    }
+    const first = Number(match[1])
+    const last = match[2] ? (match[3] ? Number(match[3]) : null) : first
+    if (first < 1 || (last !== null && last < first)) {
+      throw new InvalidOcrOptionsError(`페이지 범위 "${part}"가 올바르지 않습니다`)
+    }
+    ranges.push({ first, last })
+  }
+
+  ranges.sort((a, b) => a.first - b.first)
+  const merged: PageRange[] = []
+  for (const range of ranges) {
+    const previous = merged[merged.length - 1]
+    if (previous && (previous.last === null || range.first <= previous.last + 1)) {
+      previous.last = previous.last === null || range.last === null ? null : Math.max(previous.last, range.last)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+// ocrmypdf --pages 형식 문자열
+export function formatPageRanges(ranges: PageRange[]): string {
+  return ranges
+    .map(({ first, last }) => (last === first ? String(first) : `${first}-${last ?? ''}`))
+    .join(',')
+}
+
+// 입력한 페이지 범위를 정규화 (비어 있거나 1페이지부터 끝까지면 undefined = 전체)
+export function normalizePageRanges(value: string | undefined): string | undefined {
+  const ranges = parsePageRanges(value ?? '')
+  if (ranges.length === 0 || (ranges[0].first === 1 && ranges[0].last === null)) return undefined
+  return formatPageRanges(ranges)
+}
+
+// 문서에서 실제로 처리할 페이지 수 (범위가 없으면 전체)
+export function countSelectedPages(value: string | undefined, pageCount: number): number {
+  const ranges = parsePageRanges(value ?? '')
+  if (ranges.length === 0) return pageCount
+  return ranges.reduce((total, { first, last }) => {
+    const end = Math.min(last ?? pageCount, pageCount)
+    return total + Math.max(end - first + 1, 0)
+  }, 0)
+}
+
+function readBoolean(raw: Record<string, unknown>, key: keyof OcrOptions): boolean {
+  const value = raw[key]
+  if (value === undefined) return DEFAULT_OCR_OPTIONS[key] as boolean
+  if (typeof value !== 'boolean') {
+    throw new InvalidOcrOptionsError(`${key} 옵션은 true/false 값이어야 합니다`)
+  }
+  return value
+}
+
+// options 필드(JSON 문자열)를 검증하고 빠진 값은 기본값으로 채움
+export function parseOcrOptions(json: string | null | undefined): OcrOptions {
+  if (!json) return { ...DEFAULT_OCR_OPTIONS }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new InvalidOcrOptionsError('options 필드가 올바른 JSON이 아닙니다')
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidOcrOptionsError('options 필드는 JSON 객체여야 합니다')
+  }
+  const input = raw as Record<string, unknown>
+
+  const languages = input.languages ?? DEFAULT_OCR_OPTIONS.languages
+  const knownLanguages = OCR_LANGUAGES.map((language) => language.code as string)
+  if (
+    !Array.isArray(languages) ||
+    languages.length === 0 ||
+    !languages.every((language) => typeof language === 'string' && knownLanguages.includes(language))
+  ) {
+    throw new InvalidOcrOptionsError(`languages는 ${knownLanguages.join(', ')} 중 하나 이상이어야 합니다`)
+  }
+
+  const mode = input.mode ?? DEFAULT_OCR_OPTIONS.mode
+  if (!OCR_MODES.some((option) => option.value === mode)) {
+    throw new InvalidOcrOptionsError(`mode는 ${OCR_MODES.map((option) => option.value).join(', ')} 중 하나여야 합니다`)
+  }
+
+  const optimize = input.optimize ?? DEFAULT_OCR_OPTIONS.optimize
+  if (optimize !== 0 && optimize !== 1 && optimize !== 2 && optimize !== 3) {
+    throw new InvalidOcrOptionsError('optimize는 0~3 사이의 정수여야 합니다')
+  }
+
+  const outputs = input.outputs ?? DEFAULT_OCR_OPTIONS.outputs
+  const knownOutputs = OCR_OUTPUTS.map((output) => output.value as string)
+  if (
+    !Array.isArray(outputs) ||
+    outputs.length === 0 ||
+    !outputs.every((output) => typeof output === 'string' && knownOutputs.includes(output))
+  ) {
+    throw new InvalidOcrOptionsError(`outputs는 ${knownOutputs.join(', ')} 중 하나 이상이어야 합니다`)
+  }
+
+  const pages = input.pages ?? undefined
+  if (pages !== undefined && typeof pages !== 'string') {
+    throw new InvalidOcrOptionsError('pages는 "1-3,10,15-" 형식의 문자열이어야 합니다')
+  }
+
+  const options: OcrOptions = {
+    languages: Array.from(new Set(languages as OcrLanguage[])),
+    mode: mode as OcrMode,
+    deskew: readBoolean(input, 'deskew'),
+    rotatePages: readBoolean(input, 'rotatePages'),
+    clean: readBoolean(input, 'clean'),
+    optimize,
+    outputs: Array.from(new Set(outputs as OcrOutputFormat[])),
+  }
+  const normalizedPages = normalizePageRanges(pages)
+  if (normalizedPages) options.pages = normalizedPages
+
+  // ocrmypdf 제약: --redo-ocr는 --deskew와 함께 쓸 수 없음
+  if (options.mode === 'redo-ocr' && options.deskew) {
+    throw new InvalidOcrOptionsError('기존 OCR 레이어 교체(redo-ocr) 모드에서는 기울기 보정을 사용할 수 없습니다')
+  }
+
+  return options
+}
@@ -0,0 +1,127 @@
+import { createWriteStream } from 'fs'
+import { readFile, readdir, rm, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { OcrDocumentStructure, OcrEngineType, OcrOutputFormat, OcrPageStructure, OcrResultFormat } from '../types'
+import { toAlto, toHocr } from './ocrFormats'
+import { resultFileName } from './resultFormats'
+import { closeZipEntries, openZipEntries, zipStream } from './zip'
+
+// ocrmypdf 실행 후 기본 결과물(PDF, 텍스트, 구조화 JSON)과 요청한 결과물(hOCR, ALTO, zip) 작성
+
+// ocrmypdf --sidecar 텍스트는 페이지마다 폼 피드로 구분됨
+export const PAGE_SEPARATOR = '\f'
+
+// 형식별 결과 파일 경로
+export type ResultFiles = Partial<Record<OcrResultFormat, string>>
+
+export interface ResultSources {
+  engine: OcrEngineType
+  workDir: string
+  pdfPath: string         // ocrmypdf 출력 PDF
+  textPath: string        // ocrmypdf --sidecar 출력
+  pagesDir: string        // 플러그인이 페이지별 구조 JSON을 남기는 디렉터리 (OCR_STRUCTURE_DIR)
+}
+
+// 페이지별 구조 파일과 sidecar 텍스트를 문서 구조로 합침
+// 구조 파일을 남기지 않는 엔진(Tesseract)이면 null
+async function readDocumentStructure(sources: ResultSources): Promise<OcrDocumentStructure | null> {
+  const names = await readdir(sources.pagesDir).catch(() => [] as string[])
+  const pageFiles = names.filter((name) => /^page-\d+\.json$/.test(name)).sort()
+  if (pageFiles.length === 0) return null
+
+  const pageTexts = (await readFile(sources.textPath, 'utf8').catch(() => '')).split(PAGE_SEPARATOR)
+
+  const pages: OcrPageStructure[] = []
+  for (const name of pageFiles) {
+    const page = JSON.parse(await readFile(path.join(sources.pagesDir, name), 'utf8'))
+    pages.push({
+      page: page.page,
+      width: page.width,
+      height: page.height,
+      text: pageTexts[page.page - 1] ?? '',
+      blocks: page.blocks,
+    })
+  }
+
+  return { engine: sources.engine, pages }
+}
+
+// 엔진 출력으로 기본 결과물(PDF, 텍스트, 구조화 JSON) 작성
+// 요청한 형식과 관계없이 같은 입력·설정이면 같으므로 결과 캐시에는 이것만 보관
+export async function writeBaseResults(sources: ResultSources): Promise<ResultFiles> {
+  const files: ResultFiles = { pdf: sources.pdfPath, txt: sources.textPath }
+
+  try {
+    const structure = await readDocumentStructure(sources)
+    if (structure) {
+      files.json = path.join(sources.workDir, 'output.json')
+      await writeFile(files.json, JSON.stringify(structure))
+    }
+  } finally {
+    await rm(sources.pagesDir, { recursive: true, force: true }).catch(() => {
+      /* ignore */
+    })
+  }
+
+  return files
+}
+
+// 결과 문서의 페이지 수 (sidecar 텍스트의 페이지 수, OCR하지 않은 페이지 포함)
+export async function countResultPages(files: ResultFiles): Promise<number | undefined> {
+  if (!files.txt) return undefined
+  const text = await readFile(files.txt, 'utf8').catch(() => null)
+  return text === null ? undefined : text.split(PAGE_SEPARATOR).length
+}
+
+export interface ResultRequest {
+  engine: OcrEngineType
+  outputs: OcrOutputFormat[]
+  originalFileName: string
+  outputFileName: string  // 검색 가능한 PDF 파일명 (다른 형식의 파일명도 여기서 만듦)
+  workDir: string
+}
+
+// 기본 결과물로 요청한 결과물(hOCR, ALTO, zip)을 만들고 형식별 경로 반환 (요청하지 않은 PDF는 지움)
+export async function writeRequestedResults(base: ResultFiles, request: ResultRequest): Promise<ResultFiles> {
+  const files: ResultFiles = { ...base }
+  const outputPath = (extension: string) => path.join(request.workDir, `output.${extension}`)
+
+  if (request.outputs.includes('hocr') || request.outputs.includes('alto')) {
+    if (!files.json) throw new Error(`${request.engine} 엔진이 단어 구조를 남기지 않아 hOCR/ALTO를 만들 수 없습니다`)
+    const structure: OcrDocumentStructure = JSON.parse(await readFile(files.json, 'utf8'))
+    if (request.outputs.includes('hocr')) {
+      files.hocr = outputPath('hocr')
+      await writeFile(files.hocr, toHocr(structure))
+    }
+    if (request.outputs.includes('alto')) {
+      files.alto = outputPath('alto.xml')
+      await writeFile(files.alto, toAlto(structure, request.originalFileName))
+    }
+  }
+
+  if (!request.outputs.includes('pdf') && files.pdf) {
+    await unlink(files.pdf).catch(() => {
+      /* ignore */
+    })
+    delete files.pdf
+  }
+
+  // 요청한 결과물이 둘 이상이면 zip으로 묶음
+  if (request.outputs.length > 1) {
+    files.zip = outputPath('zip')
+    const entries = request.outputs.map((format) => ({
+      name: resultFileName(request.outputFileName, format),
+      path: files[format]!,
+    }))
+    const opened = await openZipEntries(entries)
+    if (opened.missing.length > 0) {
+      await closeZipEntries(opened.entries)
+      throw new Error(`묶을 결과 파일이 없습니다: ${opened.missing.map((entry) => entry.name).join(', ')}`)
+    }
+    await pipeline(Readable.from(zipStream(opened.entries)), createWriteStream(files.zip))
+  }
+
+  return files
+}
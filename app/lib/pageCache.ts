@@ -0,0 +1,56 @@
+import { readdir, rm, stat } from 'fs/promises'
+import path from 'path'
+import { PAGE_CACHE_DIR, PAGE_CACHE_RETENTION_MS } from './config'
+import { logger } from './logger'
+
+// Vision 플러그인(ocr_plugin.py)의 페이지별 결과 캐시 정리
+// 플러그인이 항목을 쓰고 읽을 때마다 수정 시각을 갱신하므로, 보관 시간 동안 쓰이지 않은 파일만 지움
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+export function isPageCacheEnabled(): boolean {
+  return PAGE_CACHE_RETENTION_MS > 0
+}
+
+// 디렉터리 아래의 오래된 파일을 지우고, 비게 된 하위 디렉터리도 삭제
+async function sweepDirectory(dir: string, cutoff: number): Promise<number> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => [])
+  let removed = 0
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      removed += await sweepDirectory(entryPath, cutoff)
+      if ((await readdir(entryPath).catch(() => ['?'])).length === 0) {
+        await rm(entryPath, { recursive: true, force: true }).catch(() => {
+          /* ignore */
+        })
+      }
+      continue
+    }
+
+    const info = await stat(entryPath).catch(() => null)
+    if (info && info.mtimeMs < cutoff) {
+      await rm(entryPath, { force: true }).catch(() => {
+        /* ignore */
+      })
+      removed++
+    }
+  }
+  return removed
+}
+
+async function sweepPageCache() {
+  const removed = await sweepDirectory(PAGE_CACHE_DIR, Date.now() - PAGE_CACHE_RETENTION_MS)
+  if (removed > 0) logger.debug('페이지 캐시 정리', { removed })
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 타이머가 하나만 돌도록 globalThis에 보관
+const globalForPageCache = globalThis as unknown as { ocrPageCacheSweeper?: NodeJS.Timeout }
+
+if (isPageCacheEnabled() && !globalForPageCache.ocrPageCacheSweeper) {
+  globalForPageCache.ocrPageCacheSweeper = setInterval(() => {
+    void sweepPageCache()
+  }, SWEEP_INTERVAL_MS)
+  globalForPageCache.ocrPageCacheSweeper.unref()
+}
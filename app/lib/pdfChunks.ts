@@ -0,0 +1,174 @@
+import { readFile, rm, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { OcrError } from './errors'
+import { logger } from './logger'
+import { OcrRunHooks, OcrRunRequest, processTimeoutMs, runOcrmypdf } from './ocr'
+import { PageRange, formatPageRanges, parsePageRanges } from './ocrOptions'
+import { PAGE_SEPARATOR } from './ocrOutputs'
+import { runProcess } from './processRunner'
+
+// 페이지가 많은 문서를 페이지 범위별로 나누어 차례로 OCR한 뒤 하나의 PDF와 텍스트로 합침
+// 한 번에 하나의 묶음만 처리하므로 메모리 사용량은 묶음 크기에 비례 (pdf_tools.py 사용)
+
+interface PdfChunk {
+  path: string
+  firstPage: number  // 원본 문서 기준 첫 페이지 (1부터)
+  pageCount: number
+}
+
+interface SplitManifest {
+  pageCount: number
+  chunks: PdfChunk[]  // 나눌 필요가 없으면 빈 목록
+}
+
+const PAGE_COUNT_TIMEOUT_MS = 60 * 1000
+
+function runPdfTools(args: string[], hooks: OcrRunHooks) {
+  return runProcess('python3', [path.join(process.cwd(), 'pdf_tools.py'), ...args], {
+    timeoutMs: processTimeoutMs(hooks),
+    signal: hooks.signal,
+  })
+}
+
+async function splitPdf(inputPath: string, chunkDir: string, pagesPerChunk: number, hooks: OcrRunHooks) {
+  await runPdfTools(['split', inputPath, chunkDir, String(pagesPerChunk)], hooks)
+  const manifest: SplitManifest = JSON.parse(await readFile(path.join(chunkDir, 'manifest.json'), 'utf8'))
+  return manifest
+}
+
+// 작업 등록 때 하루 한도를 확인할 PDF 페이지 수 (outputDir에 page-count.json 작성)
+// 페이지 수를 읽지 못하면 한도를 확인할 수 없으므로 등록을 거절 (암호로 보호된 PDF는 ENCRYPTED_PDF, 그 밖에는 INVALID_PDF)
+export async function countPdfPages(inputPath: string, outputDir: string): Promise<number> {
+  const outputPath = path.join(outputDir, 'page-count.json')
+  let result: { pageCount?: number; error?: string } = {}
+  try {
+    await runProcess('python3', [path.join(process.cwd(), 'pdf_tools.py'), 'count', inputPath, outputPath], {
+      timeoutMs: PAGE_COUNT_TIMEOUT_MS,
+    })
+    result = JSON.parse(await readFile(outputPath, 'utf8'))
+  } catch (error) {
+    logger.warn('PDF 페이지 수를 읽지 못함', { error })
+  } finally {
+    await unlink(outputPath).catch(() => {
+      /* ignore */
+    })
+  }
+
+  if (typeof result.pageCount === 'number') return result.pageCount
+  if (result.error === 'encrypted') throw new OcrError('ENCRYPTED_PDF')
+  throw new OcrError(
+    'INVALID_PDF',
+    'PDF의 페이지 수를 읽지 못했습니다. 하루 페이지 한도가 있는 API 키는 페이지 수를 확인할 수 있는 PDF만 등록할 수 있습니다.'
+  )
+}
+
+// 원본 문서 기준 페이지 범위 중 firstPage부터 pageCount쪽에 해당하는 부분을 그 구간 기준 --pages 값으로 변환 (없으면 null)
+function clipPageRanges(ranges: PageRange[], firstPage: number, pageCount: number): string | null {
+  const lastPage = firstPage + pageCount - 1
+  const clipped = ranges.flatMap(({ first, last }) => {
+    const start = Math.max(first, firstPage)
+    const end = Math.min(last ?? lastPage, lastPage)
+    return start <= end ? [{ first: start - firstPage + 1, last: end - firstPage + 1 }] : []
+  })
+  return clipped.length > 0 ? formatPageRanges(clipped) : null
+}
+
+// 묶음 진행 상황을 원본 문서 기준 페이지로 변환
+function chunkHooks(hooks: OcrRunHooks, chunk: PdfChunk, totalPages: number): OcrRunHooks {
+  return {
+    ...hooks,
+    onEvent: (event) => {
+      if (event.type === 'progress' && event.unit === 'page' && event.total === chunk.pageCount) {
+        hooks.onEvent({ ...event, completed: event.completed + chunk.firstPage - 1, total: totalPages })
+      } else {
+        hooks.onEvent(event)
+      }
+    },
+  }
+}
+
+// pagesPerChunk보다 페이지가 많으면 나누어 처리하고, 아니면(또는 나눌 수 없으면) 한 번에 처리
+// 페이지 범위(options.pages)는 문서 밖 페이지를 잘라내고, 선택한 페이지가 없는 묶음은 OCR 없이 그대로 합침
+export async function runChunkedOcr(
+  request: OcrRunRequest,
+  hooks: OcrRunHooks,
+  chunkDir: string,
+  pagesPerChunk: number
+): Promise<void> {
+  let manifest: SplitManifest
+  try {
+    manifest = await splitPdf(request.inputPath, chunkDir, pagesPerChunk, hooks)
+  } catch (error) {
+    // 암호화되었거나 손상된 PDF는 ocrmypdf가 원인별 오류를 내도록 그대로 실행
+    logger.warn('PDF 분할 실패, 한 번에 처리', { jobId: hooks.jobId, error })
+    manifest = { pageCount: 0, chunks: [] }
+  }
+
+  const ranges = request.options.pages ? parsePageRanges(request.options.pages) : []
+  const selectedPages = (firstPage: number, pageCount: number) =>
+    ranges.length > 0 ? clipPageRanges(ranges, firstPage, pageCount) : undefined
+
+  try {
+    if (manifest.pageCount > 0 && selectedPages(1, manifest.pageCount) === null) {
+      throw new OcrError(
+        'INVALID_OPTIONS',
+        `선택한 페이지가 문서에 없습니다 (전체 ${manifest.pageCount}페이지)`
+      )
+    }
+
+    if (manifest.chunks.length === 0) {
+      const pages = manifest.pageCount > 0 ? selectedPages(1, manifest.pageCount) : undefined
+      await runOcrmypdf(pages ? { ...request, options: { ...request.options, pages } } : request, hooks)
+      return
+    }
+
+    logger.info('PDF를 나누어 처리', {
+      jobId: hooks.jobId,
+      pageCount: manifest.pageCount,
+      chunks: manifest.chunks.length,
+    })
+
+    const outputs: string[] = []
+    const texts: string[] = []
+    for (const [index, chunk] of manifest.chunks.entries()) {
+      const outputPath = path.join(chunkDir, `output-${index + 1}.pdf`)
+      const textPath = path.join(chunkDir, `output-${index + 1}.txt`)
+      const pages = selectedPages(chunk.firstPage, chunk.pageCount)
+
+      // 선택한 페이지가 없는 묶음은 원본 그대로 (텍스트는 빈 페이지)
+      if (pages === null) {
+        outputs.push(chunk.path)
+        texts.push(new Array(chunk.pageCount).fill('').join(PAGE_SEPARATOR))
+        continue
+      }
+
+      // 이전 묶음의 일괄 인식 결과가 남아 같은 페이지 번호로 읽히지 않도록 비움
+      await rm(request.prefetchDir, { recursive: true, force: true })
+      await runOcrmypdf(
+        {
+          ...request,
+          options: pages ? { ...request.options, pages } : request.options,
+          inputPath: chunk.path,
+          outputPath,
+          textPath,
+          pageOffset: chunk.firstPage - 1,
+        },
+        chunkHooks(hooks, chunk, manifest.pageCount)
+      )
+      await unlink(chunk.path).catch(() => {
+        /* ignore */
+      })
+
+      outputs.push(outputPath)
+      texts.push(await readFile(textPath, 'utf8'))
+    }
+
+    // 원본의 목차(북마크)와 문서 정보(제목, 작성자, XMP)를 합친 PDF로 옮김
+    await runPdfTools(['merge', request.outputPath, request.inputPath, ...outputs], hooks)
+    await writeFile(request.textPath, texts.join(PAGE_SEPARATOR))
+  } finally {
+    await rm(chunkDir, { recursive: true, force: true }).catch(() => {
+      /* ignore */
+    })
+  }
+}
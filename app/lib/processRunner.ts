@@ -0,0 +1,203 @@
+import { spawn } from 'child_process'
+import { readFile, readdir } from 'fs/promises'
+
+// 셸을 거치지 않고 인자 배열로 외부 프로세스 실행
+// - 제한 시간 초과나 AbortSignal 발생 시 자식 프로세스 그룹 전체 종료
+// - stderr는 줄 단위로 콜백에 전달하고 마지막 몇 줄은 오류 분석용으로 보관
+// - 실패는 원인별 오류 클래스로 구분
+// - 실행 중인 프로세스 그룹을 기록해 메모리 사용량(RSS)을 조회할 수 있게 함
+
+const KILL_GRACE_MS = 5000 // SIGTERM 후 SIGKILL까지 대기 시간
+const DEFAULT_STDERR_TAIL_LINES = 50
+
+export interface RunProcessOptions {
+  timeoutMs: number
+  env?: NodeJS.ProcessEnv
+  cwd?: string
+  signal?: AbortSignal
+  onStderrLine?: (line: string) => void
+  stderrTailLines?: number
+}
+
+export interface ProcessResult {
+  durationMs: number
+  stderrTail: string[]
+}
+
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    public readonly command: string,
+    public readonly stderrTail: string[]
+  ) {
+    super(message)
+    this.name = 'ProcessError'
+  }
+}
+
+// 실행 파일을 찾을 수 없거나 실행 권한이 없음
+export class ProcessSpawnError extends ProcessError {
+  constructor(command: string, public readonly code: string | undefined) {
+    super(`${command} 실행 실패 (${code ?? 'unknown'})`, command, [])
+    this.name = 'ProcessSpawnError'
+  }
+}
+
+export class ProcessTimeoutError extends ProcessError {
+  constructor(command: string, timeoutMs: number, stderrTail: string[]) {
+    super(`${command} 실행 시간 초과 (${Math.round(timeoutMs / 1000)}초)`, command, stderrTail)
+    this.name = 'ProcessTimeoutError'
+  }
+}
+
+export class ProcessAbortedError extends ProcessError {
+  constructor(command: string, stderrTail: string[]) {
+    super(`${command} 실행이 중단되었습니다`, command, stderrTail)
+    this.name = 'ProcessAbortedError'
+  }
+}
+
+// 0이 아닌 종료 코드로 끝났거나 시그널로 종료됨 (SIGKILL은 대개 OOM killer)
+export class ProcessExitError extends ProcessError {
+  constructor(
+    command: string,
+    public readonly exitCode: number | null,
+    public readonly exitSignal: NodeJS.Signals | null,
+    stderrTail: string[]
+  ) {
+    super(
+      exitSignal ? `${command}가 ${exitSignal} 시그널로 종료되었습니다` : `${command}가 종료 코드 ${exitCode}로 끝났습니다`,
+      command,
+      stderrTail
+    )
+    this.name = 'ProcessExitError'
+  }
+}
+
+// 실행 중인 자식 프로세스 그룹 ID (HMR로 모듈이 다시 로드되어도 유지되도록 globalThis에 보관)
+const globalForProcesses = globalThis as unknown as { ocrProcessGroups?: Set<number> }
+const activeGroups = (globalForProcesses.ocrProcessGroups ??= new Set<number>())
+
+export function activeProcessCount(): number {
+  return activeGroups.size
+}
+
+// /proc/<pid>/stat의 프로세스 그룹 ID (명령 이름에 공백·괄호가 있을 수 있어 마지막 ')' 뒤부터 읽음)
+async function processGroupOf(pid: string): Promise<number | null> {
+  const stat = await readFile(`/proc/${pid}/stat`, 'utf8').catch(() => null)
+  if (!stat) return null
+  const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ')
+  return Number(fields[2])
+}
+
+async function residentBytesOf(pid: string): Promise<number> {
+  const status = await readFile(`/proc/${pid}/status`, 'utf8').catch(() => '')
+  const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(status)
+  return match ? Number(match[1]) * 1024 : 0
+}
+
+// 실행 중인 자식 프로세스 그룹(ocrmypdf와 tesseract, gs 등 손자 프로세스)의 RSS 합계 (바이트, /proc가 없으면 0)
+export async function childProcessRssBytes(): Promise<number> {
+  if (activeGroups.size === 0) return 0
+  const pids = await readdir('/proc').catch(() => [] as string[])
+  let total = 0
+  for (const pid of pids) {
+    if (!/^\d+$/.test(pid)) continue
+    const group = await processGroupOf(pid)
+    if (group !== null && activeGroups.has(group)) total += await residentBytesOf(pid)
+  }
+  return total
+}
+
+// 프로세스 그룹 전체에 시그널 전송 (ocrmypdf가 띄운 tesseract/gs 등 손자 프로세스까지 종료)
+function killGroup(pid: number | undefined, signal: NodeJS.Signals) {
+  if (!pid) return
+  try {
+    process.kill(-pid, signal)
+  } catch {
+    /* 이미 종료됨 */
+  }
+}
+
+export function runProcess(command: string, args: string[], options: RunProcessOptions): Promise<ProcessResult> {
+  const startedAt = Date.now()
+  const tailLimit = options.stderrTailLines ?? DEFAULT_STDERR_TAIL_LINES
+  const stderrTail: string[] = []
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new ProcessAbortedError(command, stderrTail))
+      return
+    }
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: ['ignore', 'ignore', 'pipe'],
+      detached: true, // 새 프로세스 그룹 → 그룹 단위로 종료 가능
+    })
+    const groupId = child.pid
+    if (groupId) activeGroups.add(groupId)
+
+    let stopReason: 'timeout' | 'aborted' | null = null
+    let killTimer: NodeJS.Timeout | undefined
+    let buffered = ''
+
+    const stop = (reason: 'timeout' | 'aborted') => {
+      if (stopReason) return
+      stopReason = reason
+      killGroup(child.pid, 'SIGTERM')
+      killTimer = setTimeout(() => killGroup(child.pid, 'SIGKILL'), KILL_GRACE_MS)
+    }
+
+    const handleLine = (line: string) => {
+      stderrTail.push(line)
+      if (stderrTail.length > tailLimit) stderrTail.shift()
+      options.onStderrLine?.(line)
+    }
+
+    child.stderr?.setEncoding('utf8')
+    child.stderr?.on('data', (chunk: string) => {
+      buffered += chunk
+      const lines = buffered.split('\n')
+      buffered = lines.pop() ?? ''
+      lines.forEach(handleLine)
+    })
+
+    const timeoutTimer = setTimeout(() => stop('timeout'), options.timeoutMs)
+    const onAbort = () => stop('aborted')
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
+    // spawn 실패 시 'error'와 'close'가 모두 올 수 있으므로 한 번만 처리
+    let settled = false
+    const settle = () => {
+      if (settled) return false
+      settled = true
+      if (groupId) activeGroups.delete(groupId)
+      clearTimeout(timeoutTimer)
+      if (killTimer) clearTimeout(killTimer)
+      options.signal?.removeEventListener('abort', onAbort)
+      return true
+    }
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (!settle()) return
+      reject(new ProcessSpawnError(command, error.code))
+    })
+
+    child.on('close', (exitCode, exitSignal) => {
+      if (!settle()) return
+      if (buffered) handleLine(buffered)
+
+      if (stopReason === 'timeout') {
+        reject(new ProcessTimeoutError(command, options.timeoutMs, stderrTail))
+      } else if (stopReason === 'aborted') {
+        reject(new ProcessAbortedError(command, stderrTail))
+      } else if (exitCode !== 0) {
+        reject(new ProcessExitError(command, exitCode, exitSignal, stderrTail))
+      } else {
+        resolve({ durationMs: Date.now() - startedAt, stderrTail })
+      }
+    })
+  })
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from 'crypto'
+import { NextRequest } from 'next/server'
+import { currentLogContext, withLogContext } from './logger'
+
+// API 요청 ID: 클라이언트나 프록시가 보낸 X-Request-ID를 쓰고, 없거나 형식이 맞지 않으면 새로 만듦
+// 요청을 처리하는 동안 남기는 로그와 응답 헤더, 그 요청으로 등록한 작업에 같은 ID가 붙음
+
+export const REQUEST_ID_HEADER = 'X-Request-ID'
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+function readRequestId(request: NextRequest): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER)
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID()
+}
+
+// 지금 처리 중인 요청의 ID (withRequestId 밖이면 없음)
+export function currentRequestId(): string | undefined {
+  const { requestId } = currentLogContext()
+  return typeof requestId === 'string' ? requestId : undefined
+}
+
+// 라우트 핸들러를 감싸 요청 ID를 로그 문맥과 응답 헤더(X-Request-ID)에 붙임
+export function withRequestId<C>(handler: (request: NextRequest, context: C) => Promise<Response>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const requestId = readRequestId(request)
+    const response = await withLogContext({ requestId }, () => handler(request, context))
+    response.headers.set(REQUEST_ID_HEADER, requestId)
+    return response
+  }
+}
@@ -0,0 +1,217 @@
+import { createHash, randomUUID } from 'crypto'
+import { copyFile, link, mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { OcrEngineType, OcrOptions } from '../types'
+import { RESULT_CACHE_DIR, RESULT_CACHE_MAX_BYTES } from './config'
+import { logger } from './logger'
+import { ResultFiles } from './ocrOutputs'
+
+// 입력 PDF 내용과 인식 설정이 같은 요청의 결과를 재사용하는 디스크 캐시 (전체 크기 제한, 오래 안 쓴 항목부터 삭제)
+// 항목마다 기본 결과물(PDF, 텍스트, 구조화 JSON)만 보관하고 hOCR/ALTO/zip은 적중 때 요청에 맞게 다시 만듦
+
+const CACHED_FORMATS = ['pdf', 'txt', 'json'] as const
+type CachedFormat = (typeof CACHED_FORMATS)[number]
+
+// 항목 디렉터리의 메타데이터 파일
+const ENTRY_FILE = 'entry.json'
+
+interface CacheEntry {
+  key: string
+  files: Partial<Record<CachedFormat, string>>  // 형식별 파일명 (항목 디렉터리 기준)
+  size: number
+  createdAt: number
+  lastUsedAt: number
+}
+
+interface CacheStore {
+  entries: Map<string, CacheEntry>  // 오래 안 쓴 항목이 앞에 오도록 유지
+  totalBytes: number
+  loading?: Promise<void>
+}
+
+export interface ResultCacheStats {
+  enabled: boolean
+  entries: number
+  bytes: number
+  maxBytes: number
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 색인이 유지되도록 globalThis에 보관
+const globalForCache = globalThis as unknown as { ocrResultCache?: CacheStore }
+const cache: CacheStore = globalForCache.ocrResultCache ?? { entries: new Map(), totalBytes: 0 }
+globalForCache.ocrResultCache = cache
+
+function isCacheEnabled(): boolean {
+  return RESULT_CACHE_MAX_BYTES > 0
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+// 키 순서와 관계없이 같은 값이면 같은 문자열
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// 입력 PDF 해시 + 인식 설정 해시 (결과 형식(outputs)은 기본 결과물에 영향이 없어 제외)
+export function resultCacheKey(inputHash: string, engine: OcrEngineType, options: OcrOptions): string {
+  const recognition: Partial<OcrOptions> = { ...options }
+  delete recognition.outputs
+  const optionsHash = sha256(canonicalJson({ engine, options: recognition }))
+  return `${inputHash}-${optionsHash.slice(0, 16)}`
+}
+
+function entryDir(key: string): string {
+  return path.join(RESULT_CACHE_DIR, key)
+}
+
+// 캐시 디렉터리에서 색인 복원 (서버 시작 후 처음 사용할 때 한 번). 메타데이터가 없는 디렉터리는 삭제
+async function loadEntries(): Promise<void> {
+  const names = await readdir(RESULT_CACHE_DIR).catch(() => [] as string[])
+  const loaded: CacheEntry[] = []
+
+  for (const name of names) {
+    try {
+      loaded.push(JSON.parse(await readFile(path.join(RESULT_CACHE_DIR, name, ENTRY_FILE), 'utf8')))
+    } catch {
+      await rm(path.join(RESULT_CACHE_DIR, name), { recursive: true, force: true }).catch(() => {
+        /* ignore */
+      })
+    }
+  }
+
+  loaded.sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+  for (const entry of loaded) {
+    cache.entries.set(entry.key, entry)
+    cache.totalBytes += entry.size
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  cache.loading ??= loadEntries()
+  return cache.loading
+}
+
+async function removeEntry(entry: CacheEntry) {
+  if (cache.entries.get(entry.key) === entry) {
+    cache.entries.delete(entry.key)
+    cache.totalBytes -= entry.size
+  }
+  await rm(entryDir(entry.key), { recursive: true, force: true }).catch(() => {
+    /* ignore */
+  })
+}
+
+// 하드 링크로 복사 (다른 파일 시스템이면 실제 복사)
+async function linkOrCopy(source: string, target: string) {
+  await link(source, target).catch(() => copyFile(source, target))
+}
+
+// 캐시된 결과를 workDir로 가져와 형식별 경로 반환 (없으면 null)
+export async function restoreCachedResult(key: string, workDir: string): Promise<ResultFiles | null> {
+  if (!isCacheEnabled()) return null
+  await ensureLoaded()
+
+  const entry = cache.entries.get(key)
+  if (!entry) return null
+
+  try {
+    await mkdir(workDir, { recursive: true })
+    const files: ResultFiles = {}
+    for (const format of CACHED_FORMATS) {
+      const name = entry.files[format]
+      if (!name) continue
+      files[format] = path.join(workDir, name)
+      await linkOrCopy(path.join(entryDir(key), name), files[format]!)
+    }
+
+    // 최근 사용 항목으로 옮김
+    entry.lastUsedAt = Date.now()
+    cache.entries.delete(key)
+    cache.entries.set(key, entry)
+    await writeFile(path.join(entryDir(key), ENTRY_FILE), JSON.stringify(entry)).catch(() => {
+      /* ignore */
+    })
+    return files
+  } catch (error) {
+    // 파일이 지워졌거나 손상된 항목은 버리고 새로 처리
+    logger.warn('결과 캐시 항목을 읽지 못해 삭제', { key, error })
+    await removeEntry(entry)
+    await rm(workDir, { recursive: true, force: true }).catch(() => {
+      /* ignore */
+    })
+    return null
+  }
+}
+
+// 작업의 기본 결과물을 캐시에 저장하고 한도를 넘으면 오래 안 쓴 항목부터 삭제
+// 캐시 실패는 작업 결과에 영향을 주지 않도록 기록만 함
+export async function storeCachedResult(key: string, results: ResultFiles): Promise<void> {
+  if (!isCacheEnabled()) return
+  await ensureLoaded()
+
+  const tempDir = path.join(RESULT_CACHE_DIR, `.tmp-${randomUUID()}`)
+  try {
+    await mkdir(tempDir, { recursive: true })
+
+    const now = Date.now()
+    const entry: CacheEntry = { key, files: {}, size: 0, createdAt: now, lastUsedAt: now }
+    for (const format of CACHED_FORMATS) {
+      const source = results[format]
+      if (!source) continue
+      const name = path.basename(source)
+      await linkOrCopy(source, path.join(tempDir, name))
+      entry.files[format] = name
+      entry.size += (await stat(source)).size
+    }
+    if (entry.size > RESULT_CACHE_MAX_BYTES) {
+      await rm(tempDir, { recursive: true, force: true })
+      return
+    }
+    await writeFile(path.join(tempDir, ENTRY_FILE), JSON.stringify(entry))
+
+    const existing = cache.entries.get(key)
+    if (existing) await removeEntry(existing)
+    await rename(tempDir, entryDir(key))
+    cache.entries.set(key, entry)
+    cache.totalBytes += entry.size
+
+    for (const oldest of Array.from(cache.entries.values())) {
+      if (cache.totalBytes <= RESULT_CACHE_MAX_BYTES) break
+      await removeEntry(oldest)
+    }
+  } catch (error) {
+    logger.warn('결과 캐시 저장 실패', { key, error })
+    await rm(tempDir, { recursive: true, force: true }).catch(() => {
+      /* ignore */
+    })
+  }
+}
+
+export async function getResultCacheStats(): Promise<ResultCacheStats> {
+  if (isCacheEnabled()) await ensureLoaded()
+  return {
+    enabled: isCacheEnabled(),
+    entries: cache.entries.size,
+    bytes: cache.totalBytes,
+    maxBytes: RESULT_CACHE_MAX_BYTES,
+  }
+}
+
+// 캐시 전체 삭제 후 삭제한 항목 수와 크기 반환
+export async function purgeResultCache(): Promise<{ entries: number; bytes: number }> {
+  await ensureLoaded()
+  const purged = { entries: cache.entries.size, bytes: cache.totalBytes }
+  for (const entry of Array.from(cache.entries.values())) {
+    await removeEntry(entry)
+  }
+  return purged
+}
@@ -0,0 +1,26 @@
+import { OcrOutputFormat, OcrResultFormat } from '../types'
+
+// 클라이언트와 서버가 함께 사용하는 결과 형식 정의
+
+export const RESULT_FORMATS: Record<OcrResultFormat, { contentType: string; extension: string }> = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  hocr: { contentType: 'text/html; charset=utf-8', extension: 'hocr' },
+  alto: { contentType: 'application/xml; charset=utf-8', extension: 'alto.xml' },
+  zip: { contentType: 'application/zip', extension: 'zip' },
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+}
+
+export function isOcrResultFormat(value: unknown): value is OcrResultFormat {
+  return typeof value === 'string' && Object.hasOwn(RESULT_FORMATS, value)
+}
+
+// 형식별 다운로드 파일명 (보고서_OCR.pdf → 보고서_OCR.alto.xml)
+export function resultFileName(outputFileName: string, format: OcrResultFormat): string {
+  return `${outputFileName.replace(/\.pdf$/i, '')}.${RESULT_FORMATS[format].extension}`
+}
+
+// format 없이 결과를 요청할 때 받는 형식: 결과물이 하나면 그 형식, 여럿이면 zip
+export function primaryResultFormat(outputs: OcrOutputFormat[]): OcrResultFormat {
+  return outputs.length === 1 ? outputs[0] : 'zip'
+}
@@ -0,0 +1,226 @@
+import { createHash, randomUUID } from 'crypto'
+import { createReadStream } from 'fs'
+import { mkdir, rm, truncate, writeFile } from 'fs/promises'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import { OcrUploadStatus } from '../types'
+import {
+  MAX_UPLOAD_RESERVED_BYTES,
+  MAX_UPLOAD_SESSIONS_PER_KEY,
+  UPLOAD_CHUNK_BYTES,
+  UPLOAD_SESSION_RETENTION_MS,
+} from './config'
+import { OcrError } from './errors'
+import { UPLOADS_DIR, StagedUpload, writeRequestBody } from './uploads'
+
+// 이어 올리기 업로드 (tus 방식): 세션 생성 → 조각을 순서대로 추가 → 받은 위치 조회 → 작업 등록으로 마무리
+// 조각은 세션 파일 뒤에 이어 붙이고, 연결이 끊긴 조각은 확인된 위치까지 잘라내 다시 받을 수 있게 함
+
+export interface UploadSession {
+  id: string
+  fileName: string
+  size: number      // 클라이언트가 알려준 전체 크기
+  offset: number    // 지금까지 받은 바이트 수 (다음 조각의 시작 위치)
+  path: string
+  hash?: string     // 마지막 조각을 받은 뒤 계산한 SHA-256 (작업 등록을 다시 시도할 때 재사용)
+  busy: boolean     // 조각을 받거나 작업으로 넘기는 중
+  apiKeyId?: string // 업로드를 시작한 API 키 (같은 키로만 이어 올리고 등록할 수 있음)
+  createdAt: number
+  updatedAt: number
+}
+
+// 이어 올리기 한도에 닿았을 때 (키별 진행 중인 업로드 수, 서버 전체의 업로드 크기 합계)
+export class UploadLimitError extends OcrError {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super('TOO_MANY_UPLOADS', message)
+    this.name = 'UploadLimitError'
+  }
+}
+
+interface UploadSessionStore {
+  sessions: Map<string, UploadSession>
+  sweeper?: NodeJS.Timeout
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 세션이 유지되도록 globalThis에 보관
+const globalForUploads = globalThis as unknown as { ocrUploadSessions?: UploadSessionStore }
+const store: UploadSessionStore = globalForUploads.ocrUploadSessions ?? { sessions: new Map() }
+globalForUploads.ocrUploadSessions = store
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+// 보관 시간 동안 조각이 오지 않은 세션과 파일 정리
+async function sweepExpiredSessions() {
+  const cutoff = Date.now() - UPLOAD_SESSION_RETENTION_MS
+  for (const session of Array.from(store.sessions.values())) {
+    if (!session.busy && session.updatedAt < cutoff) {
+      await deleteUploadSession(session)
+    }
+  }
+}
+
+if (!store.sweeper) {
+  store.sweeper = setInterval(() => {
+    void sweepExpiredSessions()
+  }, SWEEP_INTERVAL_MS)
+  store.sweeper.unref()
+}
+
+// 새 업로드를 받을 수 있는지 확인: 같은 키의 진행 중인 업로드 수와, 모든 업로드가 알려준 크기 합계(디스크 예약)
+// 끝나지 않은 업로드는 보관 시간이 지나야 지워지므로 Retry-After는 정리 주기로 알려줌
+function assertUploadCapacity(size: number, apiKeyId?: string) {
+  const sessions = Array.from(store.sessions.values())
+  const retryAfterSeconds = SWEEP_INTERVAL_MS / 1000
+
+  const active = sessions.filter((session) => session.apiKeyId === apiKeyId).length
+  if (MAX_UPLOAD_SESSIONS_PER_KEY > 0 && active >= MAX_UPLOAD_SESSIONS_PER_KEY) {
+    throw new UploadLimitError(
+      `동시에 진행할 수 있는 업로드 수(${MAX_UPLOAD_SESSIONS_PER_KEY}개)를 넘었습니다. 올리고 있는 파일을 마치거나 취소한 뒤 다시 시도해주세요.`,
+      retryAfterSeconds
+    )
+  }
+
+  const reserved = sessions.reduce((total, session) => total + session.size, 0)
+  if (MAX_UPLOAD_RESERVED_BYTES > 0 && reserved + size > MAX_UPLOAD_RESERVED_BYTES) {
+    throw new UploadLimitError('서버가 받고 있는 업로드가 너무 많습니다. 잠시 후 다시 시도해주세요.', retryAfterSeconds)
+  }
+}
+
+// 업로드 세션 생성 (한도는 await 없이 확인하고 바로 등록해 동시에 들어온 요청도 함께 셈)
+export async function createUploadSession(
+  fileName: string,
+  size: number,
+  apiKeyId?: string
+): Promise<UploadSession> {
+  assertUploadCapacity(size, apiKeyId)
+
+  const id = randomUUID()
+  const now = Date.now()
+  const session: UploadSession = {
+    id,
+    fileName,
+    size,
+    offset: 0,
+    path: path.join(UPLOADS_DIR, `${id}.part`),
+    busy: false,
+    apiKeyId,
+    createdAt: now,
+    updatedAt: now,
+  }
+  store.sessions.set(id, session)
+
+  try {
+    // 빈 파일을 만들어 두어 첫 조각도 이어 붙이기로 처리
+    await mkdir(UPLOADS_DIR, { recursive: true })
+    await writeFile(session.path, '')
+  } catch (error) {
+    store.sessions.delete(id)
+    throw error
+  }
+  return session
+}
+
+export function getUploadSession(id: string): UploadSession | undefined {
+  return store.sessions.get(id)
+}
+
+// 세션을 한 요청만 다루도록 표시 (이미 다른 요청이 쓰는 중이면 409)
+function acquire(session: UploadSession) {
+  if (session.busy) {
+    throw new OcrError('UPLOAD_OFFSET_MISMATCH', '같은 업로드에 다른 요청이 진행 중입니다')
+  }
+  session.busy = true
+}
+
+function release(session: UploadSession) {
+  session.busy = false
+  session.updatedAt = Date.now()
+}
+
+// offset 위치부터 조각을 이어 붙이고 새 위치 반환
+// 위치가 서버와 다르면 409, 전체 크기를 넘으면 UploadTooLargeError
+export async function appendUploadChunk(
+  session: UploadSession,
+  offset: number,
+  body: ReadableStream<Uint8Array>
+): Promise<number> {
+  acquire(session)
+  try {
+    if (offset !== session.offset) {
+      throw new OcrError(
+        'UPLOAD_OFFSET_MISMATCH',
+        `업로드 위치가 서버와 다릅니다 (요청 ${offset}, 서버 ${session.offset})`
+      )
+    }
+
+    try {
+      session.offset += await writeRequestBody(body, session.path, session.size - session.offset, {
+        append: true,
+      })
+    } catch (error) {
+      // 끊긴 조각의 일부는 버려 클라이언트가 확인된 위치부터 다시 보내게 함
+      await truncate(session.path, session.offset).catch(() => {
+        /* ignore */
+      })
+      throw error
+    }
+    return session.offset
+  } finally {
+    release(session)
+  }
+}
+
+// 모두 받은 업로드를 작업에 넘길 수 있게 준비 (파일은 세션 경로 그대로, 작업 등록 후 deleteUploadSession 호출)
+// 등록이 실패하면(대기열 가득 참 등) releaseUploadSession으로 세션을 남겨 다시 보내지 않고 재시도
+export async function finalizeUploadSession(session: UploadSession): Promise<StagedUpload> {
+  acquire(session)
+  try {
+    if (session.offset !== session.size) {
+      throw new OcrError(
+        'UPLOAD_OFFSET_MISMATCH',
+        `업로드가 아직 끝나지 않았습니다 (${session.offset}/${session.size} 바이트)`
+      )
+    }
+    if (!session.hash) {
+      const hash = createHash('sha256')
+      await pipeline(createReadStream(session.path), hash)
+      session.hash = hash.digest('hex')
+    }
+    return { path: session.path, size: session.size, hash: session.hash }
+  } catch (error) {
+    release(session)
+    throw error
+  }
+}
+
+export function releaseUploadSession(session: UploadSession) {
+  release(session)
+}
+
+// 클라이언트의 업로드 취소: 조각을 받거나 작업으로 넘기는 중이면 409 (그 요청이 파일을 쓰거나 옮기는 중이므로)
+// busy 확인과 세션 삭제 사이에 await가 없어, 확인한 뒤 다른 요청이 세션을 잡을 수 없음
+export async function cancelUploadSession(session: UploadSession) {
+  if (session.busy) {
+    throw new OcrError('UPLOAD_OFFSET_MISMATCH', '같은 업로드에 다른 요청이 진행 중이라 취소할 수 없습니다. 끝난 뒤 다시 시도하세요')
+  }
+  await deleteUploadSession(session)
+}
+
+// 세션과 파일 삭제 (작업 등록이 끝났거나 클라이언트가 취소, 작업 디렉터리로 옮겨진 파일은 그대로)
+export async function deleteUploadSession(session: UploadSession) {
+  if (store.sessions.get(session.id) === session) store.sessions.delete(session.id)
+  await rm(session.path, { force: true }).catch(() => {
+    /* ignore */
+  })
+}
+
+export function toUploadStatus(session: UploadSession): OcrUploadStatus {
+  return {
+    uploadId: session.id,
+    fileName: session.fileName,
+    size: session.size,
+    offset: session.offset,
+    chunkSize: UPLOAD_CHUNK_BYTES,
+    expiresAt: session.updatedAt + UPLOAD_SESSION_RETENTION_MS,
+  }
+}
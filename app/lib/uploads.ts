@@ -0,0 +1,93 @@
+import { Hash, createHash, randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import { mkdir, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { ReadableStream as NodeReadableStream } from 'stream/web'
+import { JOBS_DIR } from './config'
+
+// 업로드된 PDF를 작업 디렉터리로 옮기기 전에 임시로 저장 (크기 확인과 SHA-256 계산을 저장하면서 함께 처리)
+
+export const UPLOADS_DIR = path.join(JOBS_DIR, 'uploads')
+
+export interface StagedUpload {
+  path: string
+  size: number
+  hash: string  // SHA-256 (결과 캐시와 페이지 캐시의 문서 구분에 사용)
+}
+
+// 업로드가 크기 한도를 넘음
+export class UploadTooLargeError extends Error {
+  constructor(public readonly limitBytes: number) {
+    super(`업로드 크기가 ${Math.round(limitBytes / (1024 * 1024))}MB를 넘었습니다`)
+    this.name = 'UploadTooLargeError'
+  }
+}
+
+async function newUploadPath(): Promise<string> {
+  await mkdir(UPLOADS_DIR, { recursive: true })
+  return path.join(UPLOADS_DIR, `${randomUUID()}.pdf`)
+}
+
+// 요청 본문을 메모리에 모으지 않고 파일에 바로 쓰고 쓴 바이트 수 반환
+// limitBytes를 넘으면 UploadTooLargeError (이미 쓴 부분은 호출한 쪽에서 정리)
+export async function writeRequestBody(
+  body: ReadableStream<Uint8Array>,
+  filePath: string,
+  limitBytes: number,
+  options: { append?: boolean; hash?: Hash } = {}
+): Promise<number> {
+  let size = 0
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length
+      if (size > limitBytes) {
+        callback(new UploadTooLargeError(limitBytes))
+        return
+      }
+      options.hash?.update(chunk)
+      callback(null, chunk)
+    },
+  })
+
+  await pipeline(
+    Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+    meter,
+    createWriteStream(filePath, { flags: options.append ? 'a' : 'w' })
+  )
+  return size
+}
+
+// 요청 본문을 디스크에 저장 (한도를 넘거나 연결이 끊기면 지움)
+export async function stageUploadStream(
+  body: ReadableStream<Uint8Array>,
+  limitBytes: number
+): Promise<StagedUpload> {
+  const filePath = await newUploadPath()
+  const hash = createHash('sha256')
+
+  try {
+    const size = await writeRequestBody(body, filePath, limitBytes, { hash })
+    return { path: filePath, size, hash: hash.digest('hex') }
+  } catch (error) {
+    await unlink(filePath).catch(() => {
+      /* ignore */
+    })
+    throw error
+  }
+}
+
+// multipart 업로드처럼 이미 메모리에 있는 본문 저장
+export async function stageUploadBuffer(buffer: Buffer): Promise<StagedUpload> {
+  const filePath = await newUploadPath()
+  await writeFile(filePath, buffer)
+  return { path: filePath, size: buffer.length, hash: createHash('sha256').update(buffer).digest('hex') }
+}
+
+// 작업으로 옮기지 못한 업로드 삭제
+export async function discardUpload(upload: StagedUpload) {
+  await unlink(upload.path).catch(() => {
+    /* ignore */
+  })
+}
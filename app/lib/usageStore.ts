@@ -0,0 +1,149 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import path from 'path'
+import { OcrEngineType, OcrErrorCode, OcrJobState, OcrUsageReport, OcrUsageTotals } from '../types'
+import { USAGE_DB_PATH, VISION_COST_CURRENCY, VISION_PRICE_PER_1000_PAGES } from './config'
+
+// 사용량 기록 저장소 (SQLite, 서버를 다시 시작해도 유지)
+// 끝난 작업마다 한 행: 페이지 수, 엔진, Vision 호출 수, 처리 시간, 결과. API 키 하루 한도와 관리자 사용량 보고에 사용
+
+export interface JobUsage {
+  jobId: string
+  apiKeyId?: string
+  engine: OcrEngineType
+  state: OcrJobState         // done 또는 failed (취소는 failed + CANCELLED)
+  errorCode?: OcrErrorCode
+  cacheHit: boolean
+  pageCount?: number         // 문서 페이지 수
+  ocrPages: number           // OCR한 페이지 수 (완료된 작업의 선택 페이지, 캐시 적중은 0)
+  visionCalls: number        // 성공한 Vision API 요청 수
+  visionPages: number        // Vision API가 과금한 페이지 수
+  durationMs?: number        // 실행 시작부터 끝까지 (대기 중 취소면 없음)
+  finishedAt: number
+}
+
+export interface KeyUsage {
+  pages: number
+  jobs: number
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 연결이 하나만 열리도록 globalThis에 보관
+const globalForUsage = globalThis as unknown as { ocrUsageDb?: Database.Database }
+
+function usageDb(): Database.Database {
+  if (!globalForUsage.ocrUsageDb) {
+    mkdirSync(path.dirname(USAGE_DB_PATH), { recursive: true })
+    const db = new Database(USAGE_DB_PATH)
+    db.pragma('journal_mode = WAL')
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS job_usage (
+        job_id TEXT PRIMARY KEY,
+        key_id TEXT,
+        day TEXT NOT NULL,
+        engine TEXT NOT NULL,
+        state TEXT NOT NULL,
+        error_code TEXT,
+        cache_hit INTEGER NOT NULL,
+        page_count INTEGER,
+        ocr_pages INTEGER NOT NULL,
+        vision_calls INTEGER NOT NULL,
+        vision_pages INTEGER NOT NULL,
+        duration_ms INTEGER,
+        finished_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS job_usage_day ON job_usage (day);
+      CREATE INDEX IF NOT EXISTS job_usage_key_day ON job_usage (key_id, day);
+    `)
+    globalForUsage.ocrUsageDb = db
+  }
+  return globalForUsage.ocrUsageDb
+}
+
+// 사용량 집계 기준 날짜 (UTC, YYYY-MM-DD)
+export function usageDay(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+export function recordJobUsage(usage: JobUsage) {
+  usageDb()
+    .prepare(`
+      INSERT OR REPLACE INTO job_usage (
+        job_id, key_id, day, engine, state, error_code, cache_hit, page_count,
+        ocr_pages, vision_calls, vision_pages, duration_ms, finished_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      usage.jobId,
+      usage.apiKeyId ?? null,
+      usageDay(usage.finishedAt),
+      usage.engine,
+      usage.state,
+      usage.errorCode ?? null,
+      usage.cacheHit ? 1 : 0,
+      usage.pageCount ?? null,
+      usage.ocrPages,
+      usage.visionCalls,
+      usage.visionPages,
+      usage.durationMs ?? null,
+      usage.finishedAt
+    )
+}
+
+// API 키의 하루 사용량 (과금된 페이지 수, 완료한 작업 수)
+// 페이지는 작업 결과와 관계없이 센다: 완료한 작업은 OCR한 페이지, 실패·취소한 작업도 Vision이 과금한 페이지
+export function getKeyUsage(keyId: string, day = usageDay()): KeyUsage {
+  return usageDb()
+    .prepare(`
+      SELECT COALESCE(SUM(MAX(ocr_pages, vision_pages)), 0) AS pages, COALESCE(SUM(state = 'done'), 0) AS jobs
+      FROM job_usage WHERE key_id = ? AND day = ?
+    `)
+    .get(keyId, day) as KeyUsage
+}
+
+interface TotalsRow {
+  jobs: number
+  failedJobs: number
+  cacheHits: number
+  ocrPages: number
+  visionCalls: number
+  visionPages: number
+  durationMs: number
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*) AS jobs,
+  COALESCE(SUM(state = 'failed'), 0) AS failedJobs,
+  COALESCE(SUM(cache_hit), 0) AS cacheHits,
+  COALESCE(SUM(ocr_pages), 0) AS ocrPages,
+  COALESCE(SUM(vision_calls), 0) AS visionCalls,
+  COALESCE(SUM(vision_pages), 0) AS visionPages,
+  COALESCE(SUM(duration_ms), 0) AS durationMs
+`
+
+function withCost(row: TotalsRow): OcrUsageTotals {
+  return { ...row, estimatedCost: (row.visionPages / 1000) * VISION_PRICE_PER_1000_PAGES }
+}
+
+// from~to(UTC 날짜, 양 끝 포함) 사용량: 전체, 날짜별, API 키별 합계와 예상 Vision 비용
+export function getUsageReport(from: string, to: string): OcrUsageReport {
+  const db = usageDb()
+  const range = 'WHERE day >= ? AND day <= ?'
+
+  const totals = db.prepare(`SELECT ${TOTALS_COLUMNS} FROM job_usage ${range}`).get(from, to) as TotalsRow
+  const days = db
+    .prepare(`SELECT day, ${TOTALS_COLUMNS} FROM job_usage ${range} GROUP BY day ORDER BY day DESC`)
+    .all(from, to) as (TotalsRow & { day: string })[]
+  const keys = db
+    .prepare(`SELECT key_id AS keyId, ${TOTALS_COLUMNS} FROM job_usage ${range} GROUP BY key_id ORDER BY visionPages DESC`)
+    .all(from, to) as (TotalsRow & { keyId: string | null })[]
+
+  return {
+    from,
+    to,
+    pricePer1000Pages: VISION_PRICE_PER_1000_PAGES,
+    currency: VISION_COST_CURRENCY,
+    totals: withCost(totals),
+    days: days.map(({ day, ...row }) => ({ day, ...withCost(row) })),
+    keys: keys.map(({ keyId, ...row }) => ({ keyId, ...withCost(row) })),
+  }
+}
@@ -0,0 +1,98 @@
+import { readFileSync, statSync } from 'fs'
+
+// Google Vision API 엔드포인트와 인증 방식 설정
+// 서버는 작업 접수 전에 설정을 검사하고, 실제 인증(토큰 발급 등)은 vision_client.py가 수행
+
+export type VisionAuthMode = 'api-key' | 'bearer' | 'service-account'
+
+const VISION_AUTH_MODES: readonly VisionAuthMode[] = ['api-key', 'bearer', 'service-account']
+
+export const DEFAULT_VISION_ENDPOINT = 'https://vision.googleapis.com/v1'
+
+export interface VisionAuthCheck {
+  mode: VisionAuthMode | null
+  problem?: string  // 설정이 잘못되었을 때 원인 (없으면 사용 가능)
+}
+
+// GOOGLE_VISION_AUTH로 지정한 방식, 없으면 설정된 값으로 추론 (API 키 → 액세스 토큰 → 서비스 계정 순)
+function configuredMode(): VisionAuthMode | null | undefined {
+  const explicit = process.env.GOOGLE_VISION_AUTH?.trim()
+  if (explicit) {
+    return (VISION_AUTH_MODES as readonly string[]).includes(explicit)
+      ? (explicit as VisionAuthMode)
+      : undefined
+  }
+  if (process.env.GOOGLE_VISION_API_KEY) return 'api-key'
+  if (process.env.GOOGLE_VISION_ACCESS_TOKEN) return 'bearer'
+  if (process.env.GOOGLE_APPLICATION_CREDENTIALS) return 'service-account'
+  return null
+}
+
+// 서비스 계정 JSON 검사 결과 (파일이 바뀌지 않았으면 다시 읽지 않음)
+let serviceAccountCache: { key: string; problem?: string } | null = null
+
+function checkServiceAccountFile(filePath: string): string | undefined {
+  let key: string
+  try {
+    key = `${filePath}:${statSync(filePath).mtimeMs}`
+  } catch {
+    return `서비스 계정 파일을 찾을 수 없습니다: ${filePath}`
+  }
+  if (serviceAccountCache?.key === key) return serviceAccountCache.problem
+
+  let problem: string | undefined
+  try {
+    const account = JSON.parse(readFileSync(filePath, 'utf8'))
+    if (account?.type !== 'service_account' || !account.client_email || !account.private_key) {
+      problem = `서비스 계정 키 파일이 아닙니다 (type, client_email, private_key 필요): ${filePath}`
+    }
+  } catch {
+    problem = `서비스 계정 파일을 JSON으로 읽을 수 없습니다: ${filePath}`
+  }
+
+  serviceAccountCache = { key, problem }
+  return problem
+}
+
+// 설정된 인증 방식과 필요한 값이 갖춰져 있는지 확인
+export function checkVisionCredentials(): VisionAuthCheck {
+  const mode = configuredMode()
+  if (mode === undefined) {
+    return {
+      mode: null,
+      problem: `GOOGLE_VISION_AUTH는 ${VISION_AUTH_MODES.join(', ')} 중 하나여야 합니다`,
+    }
+  }
+  if (mode === null) {
+    return {
+      mode: null,
+      problem: 'Vision API 인증 정보(GOOGLE_VISION_API_KEY, GOOGLE_VISION_ACCESS_TOKEN, GOOGLE_APPLICATION_CREDENTIALS)가 설정되지 않았습니다',
+    }
+  }
+
+  const endpoint = getVisionEndpoint()
+  if (!/^https?:\/\//.test(endpoint) || !URL.canParse(endpoint)) {
+    return { mode, problem: `GOOGLE_VISION_ENDPOINT가 올바른 URL이 아닙니다: ${endpoint}` }
+  }
+
+  switch (mode) {
+    case 'api-key':
+      return process.env.GOOGLE_VISION_API_KEY
+        ? { mode }
+        : { mode, problem: 'GOOGLE_VISION_API_KEY가 설정되지 않았습니다' }
+    case 'bearer':
+      return process.env.GOOGLE_VISION_ACCESS_TOKEN
+        ? { mode }
+        : { mode, problem: 'GOOGLE_VISION_ACCESS_TOKEN이 설정되지 않았습니다' }
+    case 'service-account': {
+      const filePath = process.env.GOOGLE_APPLICATION_CREDENTIALS
+      if (!filePath) return { mode, problem: 'GOOGLE_APPLICATION_CREDENTIALS가 설정되지 않았습니다' }
+      return { mode, problem: checkServiceAccountFile(filePath) }
+    }
+  }
+}
+
+// Vision API 기본 URL (지역 엔드포인트, 사내 프록시, 테스트용 가짜 서버 등)
+export function getVisionEndpoint(): string {
+  return (process.env.GOOGLE_VISION_ENDPOINT?.trim() || DEFAULT_VISION_ENDPOINT).replace(/\/+$/, '')
+}
@@ -0,0 +1,232 @@
+import { createHmac, randomUUID } from 'crypto'
+import { LookupAddress, lookup } from 'dns'
+import { lookup as lookupAll } from 'dns/promises'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, LookupFunction, isIP } from 'net'
+import { setTimeout as sleep } from 'timers/promises'
+import { OcrWebhookAttempt, OcrWebhookPayload, OcrWebhookState, OcrWebhookStatus } from '../types'
+import {
+  WEBHOOK_ALLOWED_HOSTS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_SECRET,
+  WEBHOOK_TIMEOUT_MS,
+} from './config'
+import { OcrError } from './errors'
+import { logger } from './logger'
+import { METRICS, incrementCounter } from './metrics'
+
+// 작업 완료 알림(웹훅): 작업이 끝나면 callbackUrl로 서명한 JSON을 POST
+// 2xx가 아니거나 연결에 실패하면 지수 백오프로 다시 보내고, 시도마다 결과를 기록해 작업 상태로 보여줌
+// 재시도 대기는 서버 메모리에만 있으므로 서버를 다시 시작하면 남은 재시도는 사라짐
+// 허용 목록(OCR_WEBHOOK_ALLOWED_HOSTS)에 없는 호스트는 공인 IP로만 보냄 (서버가 내부망 주소로 요청하는 SSRF 방지)
+
+export interface WebhookDelivery {
+  url: string
+  resultBaseUrl: string  // 다운로드 주소의 앞부분 (OCR_PUBLIC_URL 또는 작업을 등록한 요청의 주소)
+  deliveryId: string
+  state: OcrWebhookState
+  attempts: OcrWebhookAttempt[]
+  nextAttemptAt?: number
+}
+
+const RETRY_MAX_MS = 60 * 60 * 1000
+
+// 웹훅을 보내지 않는 주소: 루프백, 사설망, 링크 로컬(클라우드 메타데이터 169.254.169.254 포함), 예약·멀티캐스트
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],  // 지정되지 않은 주소와 루프백 (::, ::1)
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+function isAllowedHost(hostname: string): boolean {
+  return WEBHOOK_ALLOWED_HOSTS.includes(hostname)
+}
+
+// 연결할 때 이름을 풀면서 내부망 주소면 거절 (검증 뒤 DNS 응답을 바꿔 내부망을 노리는 경우도 막음)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, '', 0)
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address))
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`내부 네트워크 주소(${blocked?.address ?? hostname})로는 보낼 수 없습니다`), '', 0)
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// 다시 보내도 같은 결과일 응답 (408, 429를 뺀 4xx)
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429
+}
+
+// 시도 n(1부터)이 실패한 뒤 기다릴 시간: 기본 10초, 30초, 90초... 최대 1시간, ±20% 흔들림
+function retryDelayMs(attempt: number): number {
+  const delay = Math.min(WEBHOOK_RETRY_BASE_MS * 3 ** (attempt - 1), RETRY_MAX_MS)
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+// callbackUrl 검증 (웹훅 비활성화, http(s)가 아닌 주소, 허용되지 않은 호스트, 내부망 주소는 INVALID_REQUEST)
+// 허용 목록을 설정하지 않았으면 호스트 이름을 풀어 모든 주소가 공인 IP인지 확인
+export async function parseCallbackUrl(raw: string): Promise<string> {
+  if (!WEBHOOK_SECRET) {
+    throw new OcrError('INVALID_REQUEST', '작업 완료 알림이 비활성화되어 있습니다 (OCR_WEBHOOK_SECRET 미설정)')
+  }
+
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new OcrError('INVALID_REQUEST', 'callbackUrl이 올바른 주소가 아닙니다')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new OcrError('INVALID_REQUEST', 'callbackUrl은 http 또는 https 주소여야 합니다')
+  }
+  if (isAllowedHost(url.hostname)) return url.toString()
+  if (WEBHOOK_ALLOWED_HOSTS.length > 0) {
+    throw new OcrError('INVALID_REQUEST', `callbackUrl 호스트(${url.hostname})로는 알림을 보낼 수 없습니다`)
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookupAll(hostname, { all: true }).then(
+      (results) => results.map(({ address }) => address),
+      () => {
+        throw new OcrError('INVALID_REQUEST', `callbackUrl 호스트(${url.hostname})를 찾을 수 없습니다`)
+      }
+    )
+  if (addresses.some(isBlockedAddress)) {
+    throw new OcrError(
+      'INVALID_REQUEST',
+      `callbackUrl이 내부 네트워크 주소를 가리킵니다 (${url.hostname}). 내부 서버로 보내려면 OCR_WEBHOOK_ALLOWED_HOSTS에 추가하세요`
+    )
+  }
+  return url.toString()
+}
+
+export function createWebhookDelivery(url: string, resultBaseUrl: string): WebhookDelivery {
+  return { url, resultBaseUrl, deliveryId: randomUUID(), state: 'waiting', attempts: [] }
+}
+
+// 서명: HMAC-SHA256(OCR_WEBHOOK_SECRET, "<X-OCR-Timestamp>.<본문>")의 hex
+export function signWebhookBody(body: string, timestamp: number): string {
+  return createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex')
+}
+
+// POST 한 번 보내고 응답 상태 코드 반환 (리디렉션은 따라가지 않음, 응답 본문은 버림)
+function postWebhook(rawUrl: string, headers: Record<string, string>, body: string): Promise<number> {
+  const url = new URL(rawUrl)
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest
+
+  return new Promise((resolve, reject) => {
+    const request = send(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: isAllowedHost(url.hostname) ? undefined : publicLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, (response) => {
+      response.resume()
+      resolve(response.statusCode ?? 0)
+    })
+    request.on('error', reject)
+    request.end(body)
+  })
+}
+
+// 한 번 보내고 결과 기록. 다시 보낼 필요가 없으면(성공 또는 영구 실패) true
+async function attemptDelivery(delivery: WebhookDelivery, payload: OcrWebhookPayload): Promise<boolean> {
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const startedAt = Date.now()
+  const attempt: OcrWebhookAttempt = { at: startedAt, durationMs: 0 }
+
+  try {
+    attempt.status = await postWebhook(delivery.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'pdf-ocr-service-webhook',
+      'X-OCR-Event': payload.event,
+      'X-OCR-Delivery': delivery.deliveryId,
+      'X-OCR-Timestamp': String(timestamp),
+      'X-OCR-Signature': `sha256=${signWebhookBody(body, timestamp)}`,
+    }, body)
+    if (attempt.status < 200 || attempt.status >= 300) attempt.error = `HTTP ${attempt.status}`
+  } catch (error) {
+    attempt.error = error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+  }
+
+  attempt.durationMs = Date.now() - startedAt
+  delivery.attempts.push(attempt)
+  return attempt.error === undefined || (attempt.status !== undefined && isPermanentFailure(attempt.status))
+}
+
+// 작업이 끝난 뒤 호출: 성공하거나 재시도를 모두 쓸 때까지 백그라운드에서 전송
+export function startWebhookDelivery(delivery: WebhookDelivery, payload: OcrWebhookPayload) {
+  const fields = { stage: 'webhook', jobId: payload.jobId, deliveryId: delivery.deliveryId, url: delivery.url }
+
+  const run = async () => {
+    for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      const done = await attemptDelivery(delivery, payload)
+      const last = delivery.attempts[delivery.attempts.length - 1]
+
+      if (last.error === undefined) {
+        incrementCounter(METRICS.webhookDeliveries, { result: 'delivered' })
+        delivery.state = 'delivered'
+        delivery.nextAttemptAt = undefined
+        logger.info('웹훅 전송 완료', { ...fields, attempt, status: last.status })
+        return
+      }
+      if (done || attempt === WEBHOOK_MAX_ATTEMPTS) break
+
+      incrementCounter(METRICS.webhookDeliveries, { result: 'retry' })
+      const delay = retryDelayMs(attempt)
+      delivery.state = 'retrying'
+      delivery.nextAttemptAt = Date.now() + delay
+      logger.warn('웹훅 전송 실패, 다시 시도 예정', { ...fields, attempt, error: last.error, retryInMs: delay })
+      // 재시도 대기가 서버 종료를 막지 않도록 ref: false
+      await sleep(delay, undefined, { ref: false })
+    }
+
+    incrementCounter(METRICS.webhookDeliveries, { result: 'failed' })
+    delivery.state = 'failed'
+    delivery.nextAttemptAt = undefined
+    logger.error('웹훅 전송 실패', { ...fields, attempts: delivery.attempts.length })
+  }
+
+  void run()
+}
+
+export function toWebhookStatus(delivery: WebhookDelivery): OcrWebhookStatus {
+  return {
+    url: delivery.url,
+    state: delivery.state,
+    deliveryId: delivery.deliveryId,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt,
+  }
+}
@@ -0,0 +1,225 @@
+import { FileHandle, open } from 'fs/promises'
+import { crc32 } from 'zlib'
+
+// 압축 없이(stored) 파일을 묶는 최소 ZIP 작성기 (4GB를 넘으면 ZIP64 형식)
+// PDF와 이미지는 이미 압축되어 있어 deflate 이득이 작으므로 CPU와 메모리를 아끼기 위해 저장만 함
+// 파일을 통째로 메모리에 올리지 않도록 CRC 계산과 기록 모두 스트림으로 처리
+// 파일은 첫 바이트를 쓰기 전에 모두 열어 두고 같은 핸들로 읽음 (보관 기간 정리로 지워져도 열어 둔 내용은 그대로)
+
+// 디스크 위 파일(path) 또는 작은 메모리 내용(data, 목록 CSV 등)
+export type ZipEntry =
+  | { name: string; path: string }  // name: 압축 파일 안의 경로 (UTF-8)
+  | { name: string; data: Buffer }
+
+// 내용을 읽을 준비가 된 항목 (파일은 열어 둔 핸들과 열 때의 크기)
+export type OpenZipEntry =
+  | { name: string; file: FileHandle; size: number; mtime: Date }
+  | { name: string; data: Buffer }
+
+const UTF8_FLAG = 0x0800
+const ZIP_VERSION = 20
+const ZIP64_VERSION = 45
+
+// 4GB를 넘는 크기·위치는 ZIP64 확장 필드에 기록하고 기본 필드에는 이 값을 씀
+const ZIP64_MARKER = 0xffffffff
+const ZIP64_COUNT_MARKER = 0xffff
+const ZIP64_EXTRA_ID = 0x0001
+
+// ZIP 헤더용 MS-DOS 날짜/시간
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// 열어 둔 파일의 처음부터 size바이트를 조각으로 읽음 (열 때보다 짧아졌으면 오류)
+async function* readFileChunks(file: FileHandle, size: number): AsyncGenerator<Buffer> {
+  let read = 0
+  if (size > 0) {
+    for await (const chunk of file.createReadStream({ start: 0, end: size - 1, autoClose: false })) {
+      read += (chunk as Buffer).length
+      yield chunk as Buffer
+    }
+  }
+  if (read !== size) {
+    throw new Error(`ZIP에 넣을 파일의 크기가 바뀌었습니다 (${size}바이트 중 ${read}바이트)`)
+  }
+}
+
+async function fileCrc32(file: FileHandle, size: number): Promise<number> {
+  let crc = 0
+  for await (const chunk of readFileChunks(file, size)) {
+    crc = crc32(chunk, crc)
+  }
+  return crc
+}
+
+// 파일 항목을 모두 열어 크기를 확인 (없는 파일은 missing으로 돌려주어 ZIP을 쓰기 전에 목록에 남길 수 있게 함)
+// 열어 둔 핸들은 zipStream이 다 쓴 뒤 닫고, zipStream에 넘기지 않으면 closeZipEntries로 닫음
+export async function openZipEntries(entries: ZipEntry[]): Promise<{ entries: OpenZipEntry[]; missing: ZipEntry[] }> {
+  const opened: OpenZipEntry[] = []
+  const missing: ZipEntry[] = []
+  try {
+    for (const entry of entries) {
+      if (!('path' in entry)) {
+        opened.push(entry)
+        continue
+      }
+      let file: FileHandle
+      try {
+        file = await open(entry.path, 'r')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+        missing.push(entry)
+        continue
+      }
+      const info = await file.stat().catch(async (error) => {
+        await file.close()
+        throw error
+      })
+      opened.push({ name: entry.name, file, size: info.size, mtime: info.mtime })
+    }
+  } catch (error) {
+    await closeZipEntries(opened)
+    throw error
+  }
+  return { entries: opened, missing }
+}
+
+export async function closeZipEntries(entries: OpenZipEntry[]): Promise<void> {
+  await Promise.all(entries.map((entry) => ('file' in entry ? entry.file.close().catch(() => undefined) : undefined)))
+}
+
+// 압축 파일 안 경로 정리: 제어 문자를 없애고 역슬래시도 구분자로 보며, 빈 조각과 ".", ".."(zip-slip), 드라이브 이름(C:)을 뺌
+export function zipEntryName(name: string): string {
+  const segments = name
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .split(/[\\/]+/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && segment !== '.' && segment !== '..' && !/^[a-z]:$/i.test(segment))
+  return segments.join('/') || 'file'
+}
+
+// ZIP64 확장 필드 (값은 기본 필드에 ZIP64_MARKER를 쓴 것만, 정해진 순서로)
+function zip64Extra(values: number[]): Buffer {
+  if (values.length === 0) return Buffer.alloc(0)
+  const extra = Buffer.alloc(4 + values.length * 8)
+  extra.writeUInt16LE(ZIP64_EXTRA_ID, 0)
+  extra.writeUInt16LE(values.length * 8, 2)
+  values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8))
+  return extra
+}
+
+function fits32(value: number): boolean {
+  return value < ZIP64_MARKER
+}
+
+// 헤더 작성 함수는 4GB 파일을 만들지 않고 ZIP64 필드를 확인할 수 있도록 내보냄 (tests/zip.test.ts)
+export function localHeader(name: Buffer, crc: number, size: number, modified: { time: number; date: number }): Buffer {
+  // 압축하지 않으므로 원래 크기와 압축 크기가 같음
+  const extra = zip64Extra(fits32(size) ? [] : [size, size])
+  const header = Buffer.alloc(30)
+  header.writeUInt32LE(0x04034b50, 0)
+  header.writeUInt16LE(extra.length > 0 ? ZIP64_VERSION : ZIP_VERSION, 4)
+  header.writeUInt16LE(UTF8_FLAG, 6)
+  header.writeUInt16LE(0, 8) // stored
+  header.writeUInt16LE(modified.time, 10)
+  header.writeUInt16LE(modified.date, 12)
+  header.writeUInt32LE(crc, 14)
+  header.writeUInt32LE(fits32(size) ? size : ZIP64_MARKER, 18)
+  header.writeUInt32LE(fits32(size) ? size : ZIP64_MARKER, 22)
+  header.writeUInt16LE(name.length, 26)
+  header.writeUInt16LE(extra.length, 28)
+  return Buffer.concat([header, name, extra])
+}
+
+export function centralHeader(
+  name: Buffer,
+  crc: number,
+  size: number,
+  modified: { time: number; date: number },
+  offset: number
+): Buffer {
+  const extra = zip64Extra([
+    ...(fits32(size) ? [] : [size, size]),
+    ...(fits32(offset) ? [] : [offset]),
+  ])
+  const version = extra.length > 0 ? ZIP64_VERSION : ZIP_VERSION
+  const header = Buffer.alloc(46)
+  header.writeUInt32LE(0x02014b50, 0)
+  header.writeUInt16LE(version, 4)
+  header.writeUInt16LE(version, 6)
+  header.writeUInt16LE(UTF8_FLAG, 8)
+  header.writeUInt16LE(0, 10)
+  header.writeUInt16LE(modified.time, 12)
+  header.writeUInt16LE(modified.date, 14)
+  header.writeUInt32LE(crc, 16)
+  header.writeUInt32LE(fits32(size) ? size : ZIP64_MARKER, 20)
+  header.writeUInt32LE(fits32(size) ? size : ZIP64_MARKER, 24)
+  header.writeUInt16LE(name.length, 28)
+  header.writeUInt16LE(extra.length, 30)
+  header.writeUInt32LE(fits32(offset) ? offset : ZIP64_MARKER, 42)
+  return Buffer.concat([header, name, extra])
+}
+
+// 중앙 디렉터리 끝 레코드. 항목 수나 크기·위치가 기본 필드에 들어가지 않으면 ZIP64 레코드와 위치 정보를 앞에 붙임
+export function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const needsZip64 = count >= ZIP64_COUNT_MARKER || !fits32(size) || !fits32(offset)
+
+  const record = Buffer.alloc(22)
+  record.writeUInt32LE(0x06054b50, 0)
+  record.writeUInt16LE(needsZip64 ? ZIP64_COUNT_MARKER : count, 8)
+  record.writeUInt16LE(needsZip64 ? ZIP64_COUNT_MARKER : count, 10)
+  record.writeUInt32LE(needsZip64 ? ZIP64_MARKER : size, 12)
+  record.writeUInt32LE(needsZip64 ? ZIP64_MARKER : offset, 16)
+  if (!needsZip64) return record
+
+  const zip64Record = Buffer.alloc(56)
+  zip64Record.writeUInt32LE(0x06064b50, 0)
+  zip64Record.writeBigUInt64LE(BigInt(44), 4) // 이 필드 뒤 레코드 크기
+  zip64Record.writeUInt16LE(ZIP64_VERSION, 12)
+  zip64Record.writeUInt16LE(ZIP64_VERSION, 14)
+  zip64Record.writeBigUInt64LE(BigInt(count), 24)
+  zip64Record.writeBigUInt64LE(BigInt(count), 32)
+  zip64Record.writeBigUInt64LE(BigInt(size), 40)
+  zip64Record.writeBigUInt64LE(BigInt(offset), 48)
+
+  const locator = Buffer.alloc(20)
+  locator.writeUInt32LE(0x07064b50, 0)
+  locator.writeBigUInt64LE(BigInt(offset + size), 8) // ZIP64 레코드 위치 (중앙 디렉터리 바로 뒤)
+  locator.writeUInt32LE(1, 16)
+  return Buffer.concat([zip64Record, locator, record])
+}
+
+// ZIP 파일 내용을 조각 단위로 생성 (파일 저장이나 HTTP 응답 스트림에 그대로 연결)
+// 파일 항목은 openZipEntries로 연 것이어야 하며, 다 쓰거나 중간에 멈추면 핸들을 닫음
+export async function* zipStream(entries: OpenZipEntry[]): AsyncGenerator<Buffer> {
+  const central: Buffer[] = []
+  let offset = 0
+
+  try {
+    for (const entry of entries) {
+      const name = Buffer.from(zipEntryName(entry.name), 'utf8')
+      const size = 'file' in entry ? entry.size : entry.data.length
+      const crc = 'file' in entry ? await fileCrc32(entry.file, entry.size) : crc32(entry.data)
+      const modified = dosDateTime('file' in entry ? entry.mtime : new Date())
+
+      const header = localHeader(name, crc, size, modified)
+      central.push(centralHeader(name, crc, size, modified, offset))
+      yield header
+      if ('file' in entry) {
+        yield* readFileChunks(entry.file, entry.size)
+      } else {
+        yield entry.data
+      }
+      offset += header.length + size
+    }
+  } finally {
+    await closeZipEntries(entries)
+  }
+
+  const directory = Buffer.concat(central)
+  yield directory
+  yield endOfCentralDirectory(entries.length, directory.length, offset)
+}
@@ -1,14 +1,177 @@
 'use client'
 
-import { useState, useRef, useCallback } from 'react'
-import FileUploader from './components/FileUploader'
-import FileList from './components/FileList'
-import { FileStatus } from './types'
+import { useState, useRef, useCallback, useEffect } from 'react'
+import FileUploader, { formatSizeMB } from './components/FileUploader'
+import FileList, { pageRangeError } from './components/FileList'
+import { OcrPreviewSource } from './components/OcrPreview'
+import OcrSettingsPanel from './components/OcrSettingsPanel'
+import { DEFAULT_OCR_OPTIONS, normalizePageRanges } from './lib/ocrOptions'
+import {
+  FileStatus,
+  OCR_ERRORS,
+  OcrEngineType,
+  OcrErrorCode,
+  OcrDocumentStructure,
+  OcrJobStatus,
+  OcrOptions,
+  OcrProgress,
+  OcrResultFormat,
+  OcrServerStatus,
+  OcrUploadStatus,
+  isOcrErrorCode,
+} from './types'
+
+// 오류 코드와 함께 전달되는 요청 오류 (재시도 여부와 버튼 문구를 code로 결정)
+class OcrRequestError extends Error {
+  constructor(public readonly code: OcrErrorCode, message?: string) {
+    super(message ?? OCR_ERRORS[code].message)
+    this.name = 'OcrRequestError'
+  }
+}
+
+// Blob을 파일로 저장
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// 오류 응답을 코드가 있는 오류로 변환 (서버 JSON의 code 우선, 없으면 HTTP 상태로 판단)
+async function toRequestError(response: Response): Promise<OcrRequestError> {
+  try {
+    const data = await response.json()
+    if (isOcrErrorCode(data?.code)) {
+      return new OcrRequestError(data.code, typeof data.error === 'string' ? data.error : undefined)
+    }
+  } catch {
+    // JSON이 아닌 응답 (프록시 오류 페이지, 빈 응답 등)
+  }
+
+  if (response.status === 502 || response.status === 503 || response.status === 504) {
+    return new OcrRequestError('SERVER_UNAVAILABLE')
+  }
+  if (response.status === 413) {
+    return new OcrRequestError('FILE_TOO_LARGE')
+  }
+  return new OcrRequestError('INTERNAL_ERROR', `서버 오류 (${response.status}): "다시 시도" 버튼을 눌러주세요.`)
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// 결과 PDF 다운로드 (실패해도 보관 기간 동안 다시 받을 수 있음)
+// format을 생략하면 요청한 결과물 (여러 개면 zip)
+async function downloadResult(
+  jobId: string,
+  format?: OcrResultFormat
+): Promise<{ blob: Blob; fileName: string }> {
+  let lastError = new OcrRequestError('NETWORK_ERROR')
+  const url = `/api/ocr/jobs/${jobId}/result${format ? `?format=${format}` : ''}`
+
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      const response = await fetch(url)
+      if (!response.ok) {
+        lastError = await toRequestError(response)
+        if (!OCR_ERRORS[lastError.code].retryable) break
+      } else {
+        // 바이너리를 직접 Blob으로 받기 (Base64 변환 없음 → 메모리 절약)
+        const fileName = decodeURIComponent(response.headers.get('X-OCR-FileName') ?? '')
+        return { blob: await response.blob(), fileName }
+      }
+    } catch {
+      lastError = new OcrRequestError('NETWORK_ERROR')
+    }
+    if (attempt < 3) await sleep(3000)
+  }
+
+  throw new OcrRequestError(lastError.code, `결과 다운로드에 실패했습니다: ${lastError.message}`)
+}
+
+// 이어 올리기 업로드 상태 조회. 업로드가 없으면(보관 시간 만료, 서버 재시작) null 반환
+async function fetchUploadStatus(uploadId: string): Promise<OcrUploadStatus | null> {
+  const response = await fetch(`/api/ocr/uploads/${uploadId}`, { cache: 'no-store' })
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw await toRequestError(response)
+  }
+  return response.json()
+}
+
+// 작업 상태 조회. 작업이 없으면(보관 기간 만료, 서버 재시작) null 반환
+async function fetchJobStatus(jobId: string): Promise<OcrJobStatus | null> {
+  const response = await fetch(`/api/ocr/jobs/${jobId}`, { cache: 'no-store' })
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw await toRequestError(response)
+  }
+  return response.json()
+}
+
+// 서버가 보고한 ocrmypdf 진행 상황을 진행률(30~85%)과 메시지로 변환
+function describeJobProgress(progress?: OcrProgress): Partial<FileStatus> {
+  if (!progress) {
+    return { progress: 30, statusMessage: 'OCR 준비 중...' }
+  }
+
+  const { stage, current, total } = progress
+  // Vision 일괄 인식 (OCR_VISION_MODE=batch): 이후 OCR 단계는 받아 둔 결과를 쓰므로 빠르게 지나감
+  if (stage === 'Vision batch' && total) {
+    return {
+      progress: 32 + Math.round((40 * current) / total),
+      statusMessage: `Vision API 일괄 인식 중... (${total}페이지 중 ${current}페이지 완료)`,
+    }
+  }
+  if (stage === 'OCR' && total) {
+    return {
+      progress: 35 + Math.round((45 * current) / total),
+      statusMessage: `OCR 처리 중... (${total}페이지 중 ${Math.min(current + 1, total)}페이지)`,
+    }
+  }
+  if (stage === 'Scanning contents') {
+    return { progress: 32, statusMessage: 'PDF 분석 중...' }
+  }
+  // OCR 이후 단계 (PDF 생성, 최적화 등)
+  return { progress: 82, statusMessage: `마무리 중... (${stage})` }
+}
 
 export default function Home() {
   const [files, setFiles] = useState<FileStatus[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
-  const processingRef = useRef(false) // 순차 처리 제어용
+  const activeCountRef = useRef(0) // 처리 중인 파일 수 (isProcessing 표시용)
+  const [engines, setEngines] = useState<OcrEngineType[]>([])
+  const [engine, setEngine] = useState<OcrEngineType | ''>('')
+  const [ocrOptions, setOcrOptions] = useState<OcrOptions>(DEFAULT_OCR_OPTIONS)
+  const [maxUploadBytes, setMaxUploadBytes] = useState<number | undefined>(undefined)
+  const [includeSidecars, setIncludeSidecars] = useState(false) // 전체 다운로드에 텍스트/JSON 포함
+  const [passwordRequired, setPasswordRequired] = useState(false) // 웹 UI 세션에 비밀번호가 필요함
+  const [uiPassword, setUiPassword] = useState('')
+  const uiPasswordRef = useRef('') // 처리 중인 요청도 마지막 입력값을 쓰도록 ref로 전달
+
+  const updateFileStatus = useCallback((id: string, updates: Partial<FileStatus>) => {
+    setFiles((prev) =>
+      prev.map((file) => (file.id === id ? { ...file, ...updates } : file))
+    )
+  }, [])
+
+  // 서버에서 선택 가능한 OCR 엔진 목록과 업로드 한도 가져오기 (실패해도 서버 기본 엔진으로 처리 가능)
+  useEffect(() => {
+    fetch('/api/ocr')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((status: OcrServerStatus | null) => {
+        if (status?.engines) setEngines(status.engines)
+        if (status?.limits) setMaxUploadBytes(status.limits.maxUploadBytes)
+      })
+      .catch(() => {
+        /* 서버가 잠들어 있으면 OCR 시작 시 다시 깨움 */
+      })
+  }, [])
 
   const handleFilesSelected = (selectedFiles: File[]) => {
     const newFiles: FileStatus[] = selectedFiles.map((file) => ({
@@ -23,7 +186,7 @@ export default function Home() {
   }
 
   // 서버 깨우기 - 최대 60초까지 반복 시도 (Render 콜드 스타트 대응)
-  const wakeUpServer = async (fileId: string): Promise<boolean> => {
+  const wakeUpServer = useCallback(async (fileId: string): Promise<boolean> => {
     const MAX_ATTEMPTS = 8
     const RETRY_DELAYS = [3000, 5000, 5000, 8000, 8000, 10000, 10000, 10000]
 
@@ -55,210 +218,422 @@ export default function Home() {
     }
 
     return false
-  }
+  }, [updateFileStatus])
+
+  // 웹 UI 세션 쿠키 발급/갱신 (서버가 API 키 인증을 쓰면 이후 요청은 이 쿠키로 인증)
+  // 쿠키가 없거나 만료되었으면 입력한 웹 UI 비밀번호로 새로 받음
+  const startSession = useCallback(async () => {
+    const response = await fetch('/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: uiPasswordRef.current }),
+    })
+    if (!response.ok) {
+      const error = await toRequestError(response)
+      if (error.code === 'UNAUTHORIZED') {
+        setPasswordRequired(true)
+        throw new OcrRequestError('UNAUTHORIZED', `${error.message}. 위에 비밀번호를 입력한 뒤 다시 시작해주세요.`)
+      }
+      throw error
+    }
+    setPasswordRequired(false)
+  }, [])
 
-  // 에러 응답에서 메시지 추출
-  const extractErrorMessage = async (response: Response): Promise<string> => {
-    const status = response.status
+  const handleUiPasswordChange = (password: string) => {
+    uiPasswordRef.current = password
+    setUiPassword(password)
+  }
 
-    if (status === 502 || status === 503 || status === 504) {
-      return 'OCR 처리 중 서버가 중단되었을 수 있습니다. 1~2분 기다린 뒤 "다시 시도" 해 주세요.'
-    }
-    if (status === 413) {
-      return '파일 크기가 서버 허용 한도를 초과했습니다. 더 작은 파일로 시도해주세요.'
+  // 파일을 조각으로 나누어 올리고 업로드 ID 반환 (진행률 10~20%)
+  // 이전 업로드가 남아 있으면 서버가 받은 위치부터 이어서 보내고, 조각 전송이 실패하면 받은 위치를 다시 조회해 이어감
+  const uploadFile = useCallback(async (fileStatus: FileStatus, previousUploadId?: string): Promise<string> => {
+    const MAX_CONSECUTIVE_FAILURES = 5
+    const file = fileStatus.originalFile
+
+    let upload = previousUploadId ? await fetchUploadStatus(previousUploadId) : null
+    if (!upload) {
+      const response = await fetch('/api/ocr/uploads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: fileStatus.originalName, size: file.size }),
+      })
+      if (!response.ok) {
+        throw await toRequestError(response)
+      }
+      upload = (await response.json()) as OcrUploadStatus
+      updateFileStatus(fileStatus.id, { uploadId: upload.uploadId })
     }
 
-    try {
-      const text = await response.text()
-      // JSON 에러 응답인지 확인
+    const { uploadId, chunkSize } = upload
+    let offset = upload.offset
+    let failures = 0
+
+    while (offset < file.size) {
+      updateFileStatus(fileStatus.id, {
+        progress: 10 + Math.round((10 * offset) / file.size),
+        statusMessage: `파일 업로드 중... ${Math.floor((100 * offset) / file.size)}% (${formatSizeMB(offset)} / ${formatSizeMB(file.size)})`,
+      })
+
+      let error: OcrRequestError
       try {
-        const data = JSON.parse(text)
-        if (data && data.error) return String(data.error)
+        const response = await fetch(`/api/ocr/uploads/${uploadId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+          },
+          body: file.slice(offset, offset + chunkSize),
+        })
+        if (response.ok) {
+          offset = ((await response.json()) as OcrUploadStatus).offset
+          failures = 0
+          continue
+        }
+        error = await toRequestError(response)
+        // 위치가 어긋났으면(이전 조각의 응답만 못 받은 경우 등) 서버 위치에서 이어감
+        if (error.code === 'UPLOAD_OFFSET_MISMATCH' && response.headers.has('Upload-Offset')) {
+          offset = Number(response.headers.get('Upload-Offset'))
+          continue
+        }
       } catch {
-        // JSON이 아닌 경우
+        error = new OcrRequestError('NETWORK_ERROR')
       }
-      if (text.includes('<!DOCTYPE') || text.includes('<html')) {
-        return '서버가 정상적으로 응답하지 않았습니다. "다시 시도" 버튼을 눌러주세요.'
+
+      if (!OCR_ERRORS[error.code].retryable || error.code === 'UPLOAD_NOT_FOUND') {
+        throw error
       }
-      if (!text || text.length === 0) {
-        return '서버로부터 빈 응답을 받았습니다. "다시 시도" 버튼을 눌러주세요.'
+      failures++
+      if (failures >= MAX_CONSECUTIVE_FAILURES) {
+        throw new OcrRequestError(
+          error.code,
+          '업로드가 중단되었습니다. "다시 시도" 버튼을 누르면 받은 부분부터 이어서 올립니다.'
+        )
       }
-    } catch {
-      // 읽기 실패
-    }
-
-    return `서버 오류 (${status}): "다시 시도" 버튼을 눌러주세요.`
-  }
 
-  const processFile = async (fileStatus: FileStatus) => {
-    try {
-      // 상태를 processing으로 변경
       updateFileStatus(fileStatus.id, {
-        status: 'processing',
-        progress: 3,
-        statusMessage: '준비 중...',
-        error: undefined,
+        statusMessage: `업로드 연결 실패, ${failures * 3}초 후 이어서 올립니다...`,
       })
-
-      // 1단계: 서버 깨우기
-      const isServerAwake = await wakeUpServer(fileStatus.id)
-      if (!isServerAwake) {
-        throw new Error('서버가 깨어나지 않습니다. 1~2분 후 "다시 시도" 버튼을 눌러주세요.')
+      await sleep(failures * 3000)
+      const status = await fetchUploadStatus(uploadId).catch(() => undefined)
+      if (status === null) {
+        throw new OcrRequestError('UPLOAD_NOT_FOUND')
       }
+      if (status) offset = status.offset
+    }
 
-      // 2단계: FormData로 파일 전송
-      updateFileStatus(fileStatus.id, {
-        progress: 20,
-        statusMessage: '파일 업로드 중...',
-      })
-      const formData = new FormData()
-      formData.append('file', fileStatus.originalFile)
-      formData.append('originalFileName', fileStatus.originalName)
+    return uploadId
+  }, [updateFileStatus])
 
-      // 3단계: OCR API 호출 (최대 3회 시도, 502/503/504 시 대기 후 재시도)
-      let response: Response | null = null
-      let lastError = ''
+  // OCR 작업 등록 (재시도 가능한 오류는 최대 3회 시도, 대기열이 가득 차면 Retry-After 후 재등록)
+  // PDF는 이어 올리기로 먼저 올린 뒤 업로드 ID로 등록 (등록을 다시 시도해도 파일은 다시 보내지 않음)
+  const submitJob = useCallback(async (fileStatus: FileStatus): Promise<OcrJobStatus> => {
+    const params = new URLSearchParams({
+      originalFileName: fileStatus.originalName,
+      options: JSON.stringify(fileStatus.ocrOptions ?? DEFAULT_OCR_OPTIONS),
+    })
+    if (fileStatus.engine) params.set('engine', fileStatus.engine)
+
+    let uploadId = fileStatus.uploadId
+    const MAX_QUEUE_FULL_RETRIES = 20
+    let lastError = new OcrRequestError('NETWORK_ERROR')
+    let queueFullRetries = 0
 
-      for (let attempt = 1; attempt <= 3; attempt++) {
-        try {
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      let response: Response
+      try {
+        uploadId = await uploadFile(fileStatus, uploadId)
+        params.set('uploadId', uploadId)
+
+        updateFileStatus(fileStatus.id, {
+          progress: 20,
+          statusMessage: attempt === 1 ? 'OCR 작업 등록 중...' : `작업 등록 ${attempt}차 재시도 중...`,
+        })
+        response = await fetch(`/api/ocr?${params}`, { method: 'POST' })
+      } catch (error) {
+        // 업로드가 만료되었으면 다음 시도에서 처음부터 다시 올림
+        if (error instanceof OcrRequestError) {
+          if (error.code === 'UPLOAD_NOT_FOUND') uploadId = undefined
+          else if (!OCR_ERRORS[error.code].retryable) throw error
+        }
+        lastError = error instanceof OcrRequestError ? error : new OcrRequestError('NETWORK_ERROR')
+        if (attempt < 3) {
           updateFileStatus(fileStatus.id, {
-            progress: attempt === 1 ? 30 : 20 + attempt * 5,
-            statusMessage: attempt === 1 ? 'OCR 처리 중... (1~2분 걸릴 수 있습니다)' : `${attempt}차 재시도 중...`,
+            statusMessage: '연결 실패, 10초 후 재시도...',
           })
+          await sleep(10000)
+        }
+        continue
+      }
 
-          response = await fetch('/api/ocr', {
-            method: 'POST',
-            body: formData,
-          })
+      if (response.ok) {
+        return response.json()
+      }
 
-          // 502/503/504 에러면 10초 대기 후 재시도 (서버 재시작 대기)
-          if (!response.ok && [502, 503, 504].includes(response.status) && attempt < 3) {
-            updateFileStatus(fileStatus.id, {
-              statusMessage: '서버 응답 없음, 10초 후 재시도...',
-            })
-            await new Promise(resolve => setTimeout(resolve, 10000))
-            response = null
-            continue
-          }
+      const error = await toRequestError(response)
+      if (error.code === 'UPLOAD_NOT_FOUND') uploadId = undefined
+
+      // 서버 대기열이 가득 찼거나 동시 작업 수 한도에 닿음 → Retry-After만큼 기다린 뒤 다시 등록 (시도 횟수에 포함하지 않음)
+      if (
+        (error.code === 'QUEUE_FULL' || error.code === 'TOO_MANY_JOBS') &&
+        queueFullRetries < MAX_QUEUE_FULL_RETRIES
+      ) {
+        queueFullRetries++
+        const retryAfter = Number(response.headers.get('Retry-After')) || 30
+        updateFileStatus(fileStatus.id, {
+          statusMessage: error.code === 'QUEUE_FULL'
+            ? `서버 대기열이 가득 찼습니다. ${retryAfter}초 후 다시 등록합니다...`
+            : `진행 중인 작업이 많습니다. ${retryAfter}초 후 다시 등록합니다...`,
+        })
+        await sleep(retryAfter * 1000)
+        attempt--
+        continue
+      }
 
-          break
-        } catch (fetchError) {
-          lastError = fetchError instanceof Error ? fetchError.message : '네트워크 오류'
-          if (attempt < 3) {
-            updateFileStatus(fileStatus.id, {
-              progress: 25,
-              statusMessage: '연결 실패, 10초 후 재시도...',
-            })
-            await new Promise(resolve => setTimeout(resolve, 10000))
-          }
+      // 다시 보내도 같은 결과인 오류(잘못된 옵션, 큰 파일 등)는 바로 실패 처리
+      if (!OCR_ERRORS[error.code].retryable || attempt === 3) {
+        throw error
+      }
+
+      lastError = error
+      updateFileStatus(fileStatus.id, {
+        statusMessage: '서버 응답 없음, 10초 후 재시도...',
+      })
+      await sleep(10000)
+    }
+
+    throw lastError
+  }, [updateFileStatus, uploadFile])
+
+  // 작업이 끝날 때까지 상태 폴링. 연결이 잠시 끊겨도 서버의 작업은 계속 진행됨
+  const waitForJob = useCallback(async (fileId: string, jobId: string): Promise<OcrJobStatus> => {
+    const POLL_INTERVAL = 1500
+    const MAX_CONSECUTIVE_FAILURES = 40 // 약 1분간 연결 실패 허용
+    let failures = 0
+    let shownProgress = 0 // 단계가 바뀌어도 진행률이 뒤로 가지 않도록
+
+    while (true) {
+      let job: OcrJobStatus | null
+      try {
+        job = await fetchJobStatus(jobId)
+        failures = 0
+      } catch {
+        failures++
+        if (failures >= MAX_CONSECUTIVE_FAILURES) {
+          throw new OcrRequestError(
+            'NETWORK_ERROR',
+            '서버와의 연결이 끊겼습니다. 처리는 서버에서 계속되므로 잠시 후 "다시 시도" 버튼을 눌러주세요.'
+          )
         }
+        updateFileStatus(fileId, { statusMessage: '서버 연결 재시도 중... (처리는 계속 진행됩니다)' })
+        await sleep(POLL_INTERVAL)
+        continue
       }
 
-      if (!response) {
-        throw new Error(`서버 연결에 실패했습니다: ${lastError}. "다시 시도" 버튼을 눌러주세요.`)
+      if (!job) {
+        throw new OcrRequestError('JOB_NOT_FOUND')
       }
 
-      // 4단계: 응답 처리
+      if (job.state === 'done' || job.state === 'failed') {
+        return job
+      }
+
+      const update: Partial<FileStatus> = job.state === 'queued'
+        ? {
+            progress: 25,
+            statusMessage: job.queuePosition
+              ? `OCR 대기 중... (대기 순번 ${job.queuePosition}번)`
+              : 'OCR 대기열에서 기다리는 중...',
+          }
+        : describeJobProgress(job.progress)
+      shownProgress = Math.max(shownProgress, update.progress ?? 0)
+      updateFileStatus(fileId, { ...update, progress: shownProgress })
+
+      await sleep(POLL_INTERVAL)
+    }
+  }, [updateFileStatus])
+
+  const processFile = useCallback(async (fileStatus: FileStatus) => {
+    try {
+      // 상태를 processing으로 변경
       updateFileStatus(fileStatus.id, {
-        progress: 70,
-        statusMessage: '응답 처리 중...',
+        status: 'processing',
+        progress: 3,
+        statusMessage: '준비 중...',
+        error: undefined,
+        errorCode: undefined,
       })
 
-      if (!response.ok) {
-        const errorMsg = await extractErrorMessage(response)
-        throw new Error(errorMsg)
+      // 1단계: 서버 깨우기
+      const isServerAwake = await wakeUpServer(fileStatus.id)
+      if (!isServerAwake) {
+        throw new OcrRequestError('SERVER_UNAVAILABLE', '서버가 깨어나지 않습니다. 1~2분 후 "다시 시도" 버튼을 눌러주세요.')
+      }
+      await startSession()
+
+      // 2단계: 이전 작업이 아직 유효하면 재사용, 아니면 새로 등록
+      let job: OcrJobStatus | null = null
+      if (fileStatus.jobId) {
+        updateFileStatus(fileStatus.id, { progress: 20, statusMessage: '이전 작업 확인 중...' })
+        job = await fetchJobStatus(fileStatus.jobId).catch(() => null)
+        if (job?.state === 'failed') job = null
+      }
+      if (!job) {
+        job = await submitJob(fileStatus)
+        updateFileStatus(fileStatus.id, { jobId: job.jobId, uploadId: undefined })
+      }
+
+      // 3단계: 처리 완료까지 상태 확인
+      job = await waitForJob(fileStatus.id, job.jobId)
+      if (job.state === 'failed') {
+        throw new OcrRequestError(job.errorCode ?? 'INTERNAL_ERROR', job.error)
       }
 
-      // 성공 응답: 바이너리 PDF를 직접 Blob으로 받기 (Base64 변환 없음 → 메모리 절약)
+      // 4단계: 결과 다운로드
       updateFileStatus(fileStatus.id, {
         progress: 85,
-        statusMessage: 'PDF 다운로드 중...',
+        statusMessage: '결과 다운로드 중...',
       })
+      const result = await downloadResult(job.jobId)
 
-      const pdfBlob = await response.blob()
-      const newFileName = decodeURIComponent(
-        response.headers.get('X-OCR-FileName') || `${fileStatus.originalName.replace('.pdf', '')}_OCR.pdf`
-      )
+      // 인식 텍스트 (미리보기와 .txt 저장용, 실패해도 PDF는 제공)
+      updateFileStatus(fileStatus.id, { progress: 95, statusMessage: '텍스트 가져오는 중...' })
+      const extractedText = job.resultFormats?.includes('txt')
+        ? await downloadResult(job.jobId, 'txt').then(({ blob }) => blob.text()).catch(() => undefined)
+        : undefined
 
       updateFileStatus(fileStatus.id, {
         status: 'completed',
         progress: 100,
         statusMessage: undefined,
-        newName: newFileName,
-        processedBlob: pdfBlob,
-        extractedText: 'OCR 처리가 완료되었습니다. 다운로드된 PDF에서 텍스트를 드래그하여 확인하세요.',
+        newName: result.fileName || job.outputFileName,
+        processedBlob: result.blob,
+        extractedText,
+        resultFormats: job.resultFormats,
+        primaryFormat: job.primaryFormat,
       })
     } catch (error) {
       console.error('파일 처리 오류:', error)
       updateFileStatus(fileStatus.id, {
         status: 'error',
         statusMessage: undefined,
-        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다',
+        error: error instanceof Error ? error.message : OCR_ERRORS.INTERNAL_ERROR.message,
+        errorCode: error instanceof OcrRequestError ? error.code : 'INTERNAL_ERROR',
       })
     }
-  }
+  }, [updateFileStatus, wakeUpServer, startSession, submitJob, waitForJob])
 
-  // 파일들을 순차적으로 1개씩 처리 (서버 메모리 보호)
-  const processFilesSequentially = useCallback(async (filesToProcess: FileStatus[]) => {
-    if (processingRef.current) return // 이미 처리 중이면 중복 실행 방지
-    processingRef.current = true
+  // 파일들을 모두 서버 대기열에 등록 (동시 실행 수는 서버가 제한하므로 클라이언트는 순서를 제어하지 않음)
+  const processFiles = useCallback(async (filesToProcess: FileStatus[]) => {
+    if (filesToProcess.length === 0) return
+    activeCountRef.current += filesToProcess.length
     setIsProcessing(true)
 
-    for (const fileStatus of filesToProcess) {
-      await processFile(fileStatus)
-    }
+    await Promise.all(filesToProcess.map((fileStatus) => processFile(fileStatus)))
 
-    processingRef.current = false
-    setIsProcessing(false)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+    activeCountRef.current -= filesToProcess.length
+    if (activeCountRef.current === 0) setIsProcessing(false)
+  }, [processFile])
 
   // 에러 발생한 파일을 다시 시도
+  // 재시도해도 같은 결과인 오류(이미 텍스트 있음, 잘못된 옵션 등)는 대기 상태로 되돌려 설정을 바꾼 뒤 다시 시작하게 함
   const handleRetry = (fileStatus: FileStatus) => {
-    updateFileStatus(fileStatus.id, {
-      status: 'pending',
+    const retryable = !fileStatus.errorCode || OCR_ERRORS[fileStatus.errorCode].retryable
+    const reset = {
+      status: 'pending' as const,
       progress: 0,
       error: undefined,
+      errorCode: undefined,
       statusMessage: undefined,
-    })
-    const updatedFile = { ...fileStatus, status: 'pending' as const, progress: 0, error: undefined, statusMessage: undefined }
-    processFilesSequentially([updatedFile])
-  }
-
-  const updateFileStatus = (id: string, updates: Partial<FileStatus>) => {
-    setFiles((prev) =>
-      prev.map((file) => (file.id === id ? { ...file, ...updates } : file))
-    )
+      ...(retryable ? {} : { jobId: undefined }),
+    }
+    updateFileStatus(fileStatus.id, reset)
+    if (retryable) {
+      processFiles([{ ...fileStatus, ...reset }])
+    }
   }
 
   const handleDownload = (fileStatus: FileStatus) => {
     if (!fileStatus.processedBlob || !fileStatus.newName) return
+    saveBlob(fileStatus.processedBlob, fileStatus.newName)
+  }
 
-    const url = URL.createObjectURL(fileStatus.processedBlob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = fileStatus.newName
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+  // 다른 형식의 결과는 서버 보관 기간 동안 서버에서 받아 저장
+  const handleDownloadExport = async (fileStatus: FileStatus, format: OcrResultFormat) => {
+    if (!fileStatus.jobId) return
+
+    try {
+      const { blob, fileName } = await downloadResult(fileStatus.jobId, format)
+      saveBlob(blob, fileName)
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : OCR_ERRORS.INTERNAL_ERROR.message)
+    }
   }
 
+  // 미리보기용 결과 PDF와 단어 위치 (받아 둔 결과가 PDF면 그대로 쓰고, 아니면 서버 보관 기간 동안 서버에서 받음)
+  // 미리보기는 이 함수가 바뀌면 다시 불러오므로 useCallback으로 고정 (컴포넌트 상태를 쓰지 않음)
+  const handleLoadPreview = useCallback(async (fileStatus: FileStatus): Promise<OcrPreviewSource> => {
+    const jobId = fileStatus.jobId
+    if (!jobId) {
+      throw new OcrRequestError('JOB_NOT_FOUND')
+    }
+
+    const [pdf, structure] = await Promise.all([
+      fileStatus.primaryFormat === 'pdf' && fileStatus.processedBlob
+        ? fileStatus.processedBlob
+        : downloadResult(jobId, 'pdf').then(({ blob }) => blob),
+      downloadResult(jobId, 'json').then(async ({ blob }) => JSON.parse(await blob.text()) as OcrDocumentStructure),
+    ])
+    return { pdf, structure }
+  }, [])
+
   const handleRemove = (id: string) => {
+    // 처리 중인 파일을 제거하면 서버 작업도 취소 (대기열 자리와 메모리 반환)
+    const target = files.find((file) => file.id === id)
+    if (target?.status === 'processing' && target.jobId) {
+      fetch(`/api/ocr/jobs/${target.jobId}`, { method: 'DELETE' }).catch(() => {
+        /* 취소 실패 시 서버에서 끝까지 처리된 뒤 보관 기간 후 삭제됨 */
+      })
+    }
     setFiles((prev) => prev.filter((file) => file.id !== id))
   }
 
+  // 완료·실패한 작업을 서버에서 하나의 ZIP(결과물 + manifest.csv)으로 받기
+  // 링크로 받으므로 브라우저가 디스크에 바로 저장 (결과를 메모리에 모으지 않음)
   const handleDownloadAll = () => {
-    files
-      .filter((file) => file.status === 'completed' && file.processedBlob)
-      .forEach((file) => {
-        setTimeout(() => handleDownload(file), 100)
-      })
+    const jobIds = files
+      .filter((file) => file.jobId && (file.status === 'completed' || file.status === 'error'))
+      .map((file) => file.jobId!)
+    if (jobIds.length === 0) return
+
+    const params = new URLSearchParams({ jobs: jobIds.join(',') })
+    if (includeSidecars) params.set('sidecars', 'txt,json')
+    const a = document.createElement('a')
+    a.href = `/api/ocr/archive?${params}`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
   }
 
+  const handlePageRangeChange = (id: string, pageRange: string) => {
+    updateFileStatus(id, { pageRange })
+  }
+
+  // 현재 OCR 설정과 파일별 페이지 범위를 이번에 시작하는 파일들에 고정 (재시도 시에도 같은 설정 사용)
   const handleStartOCR = () => {
-    const pendingFiles = files.filter((file) => file.status === 'pending')
-    processFilesSequentially(pendingFiles)
+    const invalid = files.find((file) => file.status === 'pending' && pageRangeError(file.pageRange))
+    if (invalid) {
+      window.alert(`${invalid.originalName}: ${pageRangeError(invalid.pageRange)}`)
+      return
+    }
+
+    const withSettings = (file: FileStatus): FileStatus => ({
+      ...file,
+      engine: engine || undefined,
+      ocrOptions: { ...ocrOptions, pages: normalizePageRanges(file.pageRange) },
+    })
+    const pendingFiles = files.filter((file) => file.status === 'pending').map(withSettings)
+    setFiles((prev) => prev.map((file) => (file.status === 'pending' ? withSettings(file) : file)))
+    processFiles(pendingFiles)
   }
 
   const handleRemoveAllPending = () => {
@@ -282,7 +657,11 @@ export default function Home() {
 
         {/* File Uploader */}
         <div className="mb-8">
-          <FileUploader currentFileCount={files.length} onFilesSelected={handleFilesSelected} />
+          <FileUploader
+            currentFileCount={files.length}
+            maxFileSizeBytes={maxUploadBytes}
+            onFilesSelected={handleFilesSelected}
+          />
         </div>
 
         {/* File List */}
@@ -303,36 +682,67 @@ export default function Home() {
                     </button>
                     <button
                       onClick={handleStartOCR}
-                      disabled={isProcessing}
-                      className={`px-6 py-2 text-white rounded-lg transition-colors font-medium shadow-md hover:shadow-lg ${
-                        isProcessing
-                          ? 'bg-gray-400 cursor-not-allowed'
-                          : 'bg-green-600 hover:bg-green-700'
-                      }`}
+                      className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium shadow-md hover:shadow-lg"
                     >
-                      {isProcessing
-                        ? 'OCR 처리 중...'
-                        : `OCR 시작 (${files.filter(f => f.status === 'pending').length}개)`
-                      }
+                      OCR 시작 ({files.filter(f => f.status === 'pending').length}개)
                     </button>
                   </>
                 )}
                 {files.some((f) => f.status === 'completed') && (
-                  <button
-                    onClick={handleDownloadAll}
-                    className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium shadow-md hover:shadow-lg"
-                  >
-                    전체 다운로드
-                  </button>
+                  <>
+                    <label className="flex items-center gap-1.5 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={includeSidecars}
+                        onChange={(event) => setIncludeSidecars(event.target.checked)}
+                      />
+                      텍스트/JSON 포함
+                    </label>
+                    <button
+                      onClick={handleDownloadAll}
+                      className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium shadow-md hover:shadow-lg"
+                      title="결과물과 처리 목록(manifest.csv)을 ZIP 하나로 받습니다"
+                    >
+                      전체 다운로드
+                    </button>
+                  </>
                 )}
               </div>
             </div>
 
-            {/* 순차 처리 안내 */}
+            {/* 웹 UI 비밀번호 (세션 쿠키가 없거나 만료되었을 때만) */}
+            {passwordRequired && (
+              <div className="mb-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-3">
+                <label htmlFor="ui-password" className="text-sm text-amber-800 font-medium">
+                  웹 UI 비밀번호
+                </label>
+                <input
+                  id="ui-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={uiPassword}
+                  onChange={(event) => handleUiPasswordChange(event.target.value)}
+                  className="flex-1 px-3 py-1.5 border border-amber-300 rounded-md text-sm"
+                />
+              </div>
+            )}
+
+            {/* OCR 설정 (대기 중인 파일이 있을 때만) */}
+            {files.some((f) => f.status === 'pending') && (
+              <OcrSettingsPanel
+                engines={engines}
+                engine={engine}
+                options={ocrOptions}
+                onEngineChange={setEngine}
+                onOptionsChange={setOcrOptions}
+              />
+            )}
+
+            {/* 서버 대기열 안내 */}
             {isProcessing && (
               <div className="mb-4 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-sm text-blue-700">
-                  서버 메모리 보호를 위해 파일을 <span className="font-semibold">1개씩 순차적으로</span> 처리합니다.
+                  서버 메모리 보호를 위해 파일은 <span className="font-semibold">서버 대기열에서 순서대로</span> 처리됩니다.
                 </p>
               </div>
             )}
@@ -340,8 +750,11 @@ export default function Home() {
             <FileList
               files={files}
               onDownload={handleDownload}
+              onDownloadExport={handleDownloadExport}
               onRemove={handleRemove}
               onRetry={handleRetry}
+              onPageRangeChange={handlePageRangeChange}
+              onLoadPreview={handleLoadPreview}
             />
           </div>
         )}
@@ -352,10 +765,12 @@ export default function Home() {
             <h3 className="text-xl font-bold text-gray-800 mb-4">사용 방법</h3>
             <ol className="list-decimal list-inside space-y-3 text-gray-600">
               <li>위의 업로드 영역에 PDF 파일을 드래그하거나 클릭하여 선택하세요</li>
-              <li>최대 20개, 개당 20MB 이하의 파일을 업로드할 수 있습니다</li>
+              <li>
+                최대 20개{maxUploadBytes !== undefined && `, 개당 ${formatSizeMB(maxUploadBytes)} 이하`}의 파일을 업로드할 수 있습니다
+              </li>
               <li>업로드된 파일 목록을 확인하고 원하지 않는 파일은 제거할 수 있습니다</li>
               <li>&quot;OCR 시작&quot; 버튼을 눌러 처리를 시작하면, 진행 상황을 실시간으로 확인할 수 있습니다</li>
-              <li>서버 보호를 위해 파일은 1개씩 순차적으로 처리됩니다</li>
+              <li>서버 보호를 위해 파일은 서버 대기열에서 순서대로 처리됩니다</li>
               <li>처리가 완료되면 개별 다운로드 또는 전체 다운로드가 가능합니다</li>
               <li>모든 파일은 <span className="font-semibold">&quot;원본파일명_OCR.pdf&quot;</span> 형식으로 저장됩니다</li>
             </ol>
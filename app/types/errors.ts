@@ -0,0 +1,153 @@
+// API 라우트와 클라이언트가 함께 사용하는 오류 코드
+// 서버는 오류 응답과 실패한 작업 상태에 code를 담고, 클라이언트는 문자열 대신 code로 재시도 여부와 버튼을 결정합니다.
+
+export type OcrErrorCode =
+  | 'ENGINE_MISSING'       // ocrmypdf 또는 필요한 프로그램이 설치되지 않음
+  | 'ENGINE_UNAVAILABLE'   // 요청한 OCR 엔진을 쓸 수 없음 (설정 누락, 허용되지 않은 엔진)
+  | 'PRIOR_OCR'            // 이미 텍스트 레이어가 있음
+  | 'TIMEOUT'              // 처리 시간 초과
+  | 'OOM'                  // 서버 메모리 부족으로 강제 종료
+  | 'QUOTA_EXCEEDED'       // Google Vision API 할당량 초과
+  | 'VISION_API_ERROR'     // Google Vision API 호출 실패
+  | 'ENCRYPTED_PDF'        // 암호로 보호된 PDF
+  | 'INVALID_PDF'          // 손상되었거나 PDF가 아닌 파일
+  | 'INVALID_OPTIONS'      // 잘못된 OCR 옵션
+  | 'INVALID_REQUEST'      // 필수 필드 누락 등 잘못된 요청
+  | 'FILE_TOO_LARGE'       // 업로드 크기 한도 초과
+  | 'UPLOAD_NOT_FOUND'     // 이어 올리기 업로드가 없거나 보관 시간이 지남
+  | 'UPLOAD_OFFSET_MISMATCH' // 이어 올리기 조각의 위치가 서버와 다르거나 업로드가 끝나지 않음
+  | 'UNAUTHORIZED'         // 인증 토큰이 없거나 올바르지 않음
+  | 'FORBIDDEN'            // 인증은 되었지만 허용되지 않음 (비활성화된 키, 설정되지 않은 기능)
+  | 'API_QUOTA_EXCEEDED'   // API 키의 하루 페이지 한도 초과
+  | 'TOO_MANY_JOBS'        // API 키의 동시 작업 수 한도 초과
+  | 'TOO_MANY_UPLOADS'     // 진행 중인 이어 올리기 업로드 수 또는 크기 한도 초과
+  | 'QUEUE_FULL'           // 서버 대기열이 가득 참
+  | 'JOB_NOT_FOUND'        // 작업이 없거나 보관 기간이 지남
+  | 'JOB_NOT_READY'        // 작업이 아직 끝나지 않음
+  | 'CANCELLED'            // 사용자가 작업을 취소함
+  | 'SERVER_UNAVAILABLE'   // 서버가 응답하지 않음 (502/503/504, 재시작 중)
+  | 'NETWORK_ERROR'        // 클라이언트에서 서버로 연결하지 못함
+  | 'INTERNAL_ERROR'       // 그 밖의 서버 오류
+
+export interface OcrErrorInfo {
+  retryable: boolean  // 같은 파일과 설정으로 다시 시도하면 성공할 수 있는지
+  message: string     // 사용자에게 보여줄 기본 메시지
+}
+
+export const OCR_ERRORS: Record<OcrErrorCode, OcrErrorInfo> = {
+  ENGINE_MISSING: {
+    retryable: false,
+    message: 'OCR 엔진이 설치되지 않았습니다. 서버 관리자에게 문의하세요.',
+  },
+  ENGINE_UNAVAILABLE: {
+    retryable: false,
+    message: '선택한 OCR 엔진을 사용할 수 없습니다. 다른 엔진을 선택하세요.',
+  },
+  PRIOR_OCR: {
+    retryable: false,
+    message: '이 PDF에는 이미 텍스트 레이어가 존재합니다. OCR 설정에서 "텍스트가 있는 페이지 건너뛰기"를 선택하세요.',
+  },
+  TIMEOUT: {
+    retryable: false,
+    message: 'OCR 처리 시간이 초과되었습니다. 더 작은 파일로 시도해주세요.',
+  },
+  OOM: {
+    retryable: false,
+    message: '서버 메모리가 부족합니다. 더 작은 파일(10페이지 이하)로 시도해주세요.',
+  },
+  QUOTA_EXCEEDED: {
+    retryable: true,
+    message: 'Google Vision API 사용량 한도를 초과했습니다. 잠시 후 다시 시도해주세요.',
+  },
+  VISION_API_ERROR: {
+    retryable: true,
+    message: 'Google Vision API 호출에 실패했습니다. 잠시 후 다시 시도해주세요.',
+  },
+  ENCRYPTED_PDF: {
+    retryable: false,
+    message: '암호로 보호된 PDF는 처리할 수 없습니다. 암호를 해제한 뒤 다시 올려주세요.',
+  },
+  INVALID_PDF: {
+    retryable: false,
+    message: 'PDF 파일이 손상되었거나 올바른 PDF가 아닙니다.',
+  },
+  INVALID_OPTIONS: {
+    retryable: false,
+    message: 'OCR 옵션이 올바르지 않습니다. 설정을 확인해주세요.',
+  },
+  INVALID_REQUEST: {
+    retryable: false,
+    message: '요청 형식이 올바르지 않습니다.',
+  },
+  FILE_TOO_LARGE: {
+    retryable: false,
+    message: '파일 크기가 서버 허용 한도를 초과했습니다. 더 작은 파일로 시도해주세요.',
+  },
+  UPLOAD_NOT_FOUND: {
+    retryable: true,
+    message: '업로드를 찾을 수 없습니다. 보관 시간이 지났거나 서버가 재시작되었습니다.',
+  },
+  UPLOAD_OFFSET_MISMATCH: {
+    retryable: true,
+    message: '업로드 위치가 서버와 다릅니다. 받은 위치를 확인한 뒤 이어서 올려주세요.',
+  },
+  UNAUTHORIZED: {
+    retryable: false,
+    message: '인증에 실패했습니다. 토큰을 확인해주세요.',
+  },
+  FORBIDDEN: {
+    retryable: false,
+    message: '이 요청을 수행할 권한이 없습니다.',
+  },
+  API_QUOTA_EXCEEDED: {
+    retryable: false,
+    message: '오늘 처리할 수 있는 페이지 수를 모두 사용했습니다. 내일 다시 시도하거나 관리자에게 문의하세요.',
+  },
+  TOO_MANY_JOBS: {
+    retryable: true,
+    message: '동시에 처리할 수 있는 작업 수를 넘었습니다. 진행 중인 작업이 끝난 뒤 다시 시도해주세요.',
+  },
+  TOO_MANY_UPLOADS: {
+    retryable: true,
+    message: '진행 중인 업로드가 너무 많습니다. 올리고 있는 파일이 끝난 뒤 다시 시도해주세요.',
+  },
+  QUEUE_FULL: {
+    retryable: true,
+    message: '현재 처리 대기 중인 작업이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+  },
+  JOB_NOT_FOUND: {
+    retryable: true,
+    message: '작업을 찾을 수 없습니다. 보관 기간이 지났거나 서버가 재시작되었습니다.',
+  },
+  JOB_NOT_READY: {
+    retryable: true,
+    message: '아직 OCR 처리가 완료되지 않았습니다.',
+  },
+  CANCELLED: {
+    retryable: true,
+    message: 'OCR 작업이 취소되었습니다.',
+  },
+  SERVER_UNAVAILABLE: {
+    retryable: true,
+    message: 'OCR 처리 중 서버가 중단되었을 수 있습니다. 1~2분 기다린 뒤 "다시 시도" 해 주세요.',
+  },
+  NETWORK_ERROR: {
+    retryable: true,
+    message: '서버에 연결하지 못했습니다. 네트워크 상태를 확인한 뒤 "다시 시도" 해 주세요.',
+  },
+  INTERNAL_ERROR: {
+    retryable: true,
+    message: 'OCR 처리 중 알 수 없는 오류가 발생했습니다.',
+  },
+}
+
+export function isOcrErrorCode(value: unknown): value is OcrErrorCode {
+  return typeof value === 'string' && Object.hasOwn(OCR_ERRORS, value)
+}
+
+// 모든 API 오류 응답 본문 형식
+export interface OcrErrorBody {
+  error: string       // 사용자에게 보여줄 메시지 (code의 기본 메시지보다 구체적일 수 있음)
+  code: OcrErrorCode
+  retryable: boolean
+}
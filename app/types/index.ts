@@ -1,3 +1,7 @@
+import { OcrErrorCode } from './errors'
+
+export * from './errors'
+
 export interface FileStatus {
   id: string
   originalFile: File
@@ -6,9 +10,17 @@ export interface FileStatus {
   status: 'pending' | 'processing' | 'completed' | 'error'
   progress: number
   statusMessage?: string  // 현재 진행 단계를 사용자에게 보여주는 메시지
+  jobId?: string          // 서버 OCR 작업 ID (재시도 시 완료된 결과 재사용)
+  uploadId?: string       // 이어 올리기 업로드 ID (재시도 시 받은 위치부터 이어서 전송)
+  engine?: OcrEngineType  // OCR 시작 시 선택한 엔진 (없으면 서버 기본값)
+  ocrOptions?: OcrOptions // OCR 시작 시 선택한 옵션 (재시도에도 동일하게 사용)
+  pageRange?: string      // 파일별로 입력한 OCR 페이지 범위 (OCR 시작 시 ocrOptions.pages로 고정)
   processedBlob?: Blob
-  extractedText?: string
+  extractedText?: string  // 페이지 구분자(\f)로 이어진 인식 텍스트
+  resultFormats?: OcrResultFormat[]  // 서버에서 받을 수 있는 결과 형식
+  primaryFormat?: OcrResultFormat    // processedBlob의 형식
   error?: string
+  errorCode?: OcrErrorCode  // 재시도 가능 여부와 버튼 문구 결정에 사용
 }
 
 export interface OCRRequest {
@@ -23,3 +35,207 @@ export interface OCRResponse {
   extractedText: string
   error?: string
 }
+
+// OCR 엔진: Google Vision / ocrmypdf 내장 Tesseract / 테스트용 Mock
+export type OcrEngineType = 'vision' | 'tesseract' | 'mock'
+
+// OCR 언어 (ocrmypdf/Tesseract 언어 코드)
+export type OcrLanguage = 'kor' | 'eng' | 'jpn' | 'chi_sim' | 'chi_tra'
+
+// 기존 텍스트 레이어 처리 방식
+// force: 모든 페이지를 래스터화 후 OCR / skip-text: 텍스트가 있는 페이지 건너뜀 / redo-ocr: 기존 OCR 레이어만 교체
+export type OcrMode = 'force' | 'skip-text' | 'redo-ocr'
+
+// 작업별 OCR 옵션 (POST /api/ocr의 options 필드, JSON)
+export interface OcrOptions {
+  languages: OcrLanguage[]
+  mode: OcrMode
+  deskew: boolean       // 기울어진 페이지 보정
+  rotatePages: boolean  // 페이지 방향 자동 회전
+  clean: boolean        // OCR 전 스캔 노이즈 제거 (unpaper)
+  optimize: 0 | 1 | 2 | 3  // 출력 PDF 최적화 수준 (높을수록 작지만 메모리/시간 증가)
+  outputs: OcrOutputFormat[]  // 요청할 결과물 (둘 이상이면 zip으로 묶어 반환)
+  pages?: string        // OCR할 페이지 범위 (예: "1-3,10,15-", 없으면 전체). 나머지 페이지는 텍스트 없이 그대로 포함
+}
+
+// 요청할 수 있는 결과물: 검색 가능한 PDF / 여러 페이지를 합친 hOCR / ALTO 4 XML
+export type OcrOutputFormat = 'pdf' | 'hocr' | 'alto'
+
+// 서버 OCR 작업 상태
+export type OcrJobState = 'queued' | 'running' | 'done' | 'failed'
+
+// ocrmypdf가 보고하는 현재 단계의 진행 상황
+export interface OcrProgress {
+  stage: string       // ocrmypdf 단계 이름 (예: 'Scanning contents', 'OCR')
+  current: number     // 완료한 개수 (OCR 단계에서는 페이지 수)
+  total?: number
+  unit?: string       // 'page' 등
+}
+
+// 결과 형식 (GET /api/ocr/jobs/:id/result?format=)
+// 요청한 결과물(OcrOutputFormat)과 그 묶음(zip) 외에 txt(페이지별 텍스트, \f로 구분)는 항상,
+// json(페이지·블록·문단·줄·단어 구조)은 구조 정보를 내는 엔진(Vision, Mock)에서 제공
+export type OcrResultFormat = OcrOutputFormat | 'zip' | 'txt' | 'json'
+
+// bbox: 페이지 이미지 픽셀 기준 [왼쪽, 위, 오른쪽, 아래]
+export type OcrBoundingBox = [number, number, number, number]
+
+export interface OcrWord {
+  text: string
+  bbox: OcrBoundingBox
+  confidence: number  // 0~1
+}
+
+// 줄: Vision의 detectedBreak(LINE_BREAK, EOL_SURE_SPACE, HYPHEN)로 나눔
+export interface OcrLine {
+  bbox: OcrBoundingBox
+  baseline: [number, number]  // hOCR baseline (기울기, 줄 bbox 왼쪽 아래 기준 y 오프셋)
+  fontSize: number            // 글자 높이 (픽셀)
+  angle: number               // 글자 방향, 반시계 방향 각도 (0, 90, 180, 270 — 페이지를 돌리지 않은 회전 글자)
+  words: OcrWord[]
+}
+
+export interface OcrParagraph {
+  bbox: OcrBoundingBox
+  confidence: number
+  lines: OcrLine[]
+}
+
+export interface OcrBlock {
+  bbox: OcrBoundingBox
+  confidence: number
+  paragraphs: OcrParagraph[]
+}
+
+export interface OcrPageStructure {
+  page: number    // 1부터 시작
+  width: number   // OCR에 사용한 페이지 이미지 크기 (픽셀)
+  height: number
+  text: string
+  blocks: OcrBlock[]
+}
+
+// format=json 응답 (Vision, Mock 엔진만 제공)
+export interface OcrDocumentStructure {
+  engine: OcrEngineType
+  pages: OcrPageStructure[]
+}
+
+// GET /api/ocr/jobs/:id 응답
+export interface OcrJobStatus {
+  jobId: string
+  requestId?: string     // 작업을 등록한 요청의 ID (X-Request-ID, 로그 검색용)
+  state: OcrJobState
+  originalFileName: string
+  outputFileName: string
+  engine: OcrEngineType
+  fallbackFrom?: OcrEngineType  // 요청한 엔진을 쓸 수 없어 engine으로 대체된 경우
+  options: OcrOptions
+  pageCount?: number  // 문서 페이지 수 (처리를 시작한 뒤부터)
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+  expiresAt?: number  // 이 시각 이후 결과가 삭제됨
+  queuePosition?: number  // state === 'queued'일 때 대기 순번 (1부터)
+  progress?: OcrProgress  // state === 'running'일 때 최근 진행 상황
+  resultUrl?: string  // state === 'done'일 때만 존재
+  resultFormats?: OcrResultFormat[]  // state === 'done'일 때 받을 수 있는 형식
+  primaryFormat?: OcrResultFormat    // format 없이 결과를 요청하면 받는 형식 (결과물이 둘 이상이면 zip)
+  error?: string
+  errorCode?: OcrErrorCode  // state === 'failed'일 때 실패 원인
+  retryable?: boolean
+  webhook?: OcrWebhookStatus  // 등록할 때 callbackUrl을 지정한 경우
+}
+
+// 작업 완료 알림(웹훅) 전송 상태
+// waiting: 작업이 끝나기를 기다림, retrying: 실패해 다시 보낼 예정, delivered: 전송 성공, failed: 재시도를 모두 실패
+export type OcrWebhookState = 'waiting' | 'retrying' | 'delivered' | 'failed'
+
+export interface OcrWebhookAttempt {
+  at: number
+  status?: number     // 받는 쪽 HTTP 상태 (연결 실패면 없음)
+  error?: string
+  durationMs: number
+}
+
+export interface OcrWebhookStatus {
+  url: string
+  state: OcrWebhookState
+  deliveryId: string        // 재시도해도 같은 값 (X-OCR-Delivery 헤더, 받는 쪽 중복 처리용)
+  attempts: OcrWebhookAttempt[]
+  nextAttemptAt?: number
+}
+
+// 웹훅 본문 (X-OCR-Signature 헤더로 서명)
+export interface OcrWebhookPayload {
+  event: 'job.completed' | 'job.failed'
+  deliveryId: string
+  jobId: string
+  state: OcrJobState
+  originalFileName: string
+  outputFileName: string
+  pageCount: number | null
+  errorCode: OcrErrorCode | null
+  error: string | null
+  downloadUrl: string | null  // 완료된 작업의 결과 다운로드 주소 (보관 기간 동안 유효)
+  finishedAt: number
+  expiresAt: number | null
+}
+
+// POST /api/ocr/uploads, GET/PATCH /api/ocr/uploads/:id 응답
+export interface OcrUploadStatus {
+  uploadId: string
+  fileName: string
+  size: number       // 전체 크기
+  offset: number     // 서버가 받은 바이트 수 (다음 조각의 시작 위치)
+  chunkSize: number  // 권장 조각 크기
+  expiresAt: number  // 이 시각까지 조각이 오지 않으면 업로드 삭제
+}
+
+// GET /api/ocr 헬스체크 응답
+export interface OcrServerStatus {
+  status: 'ok'
+  timestamp: number
+  engines: OcrEngineType[]  // 요청으로 선택 가능한 엔진
+  defaultEngine: OcrEngineType
+  queue: {
+    running: number
+    queued: number
+    maxConcurrent: number
+    maxQueued: number
+  }
+  limits: {
+    maxUploadBytes: number      // PDF 본문 업로드 최대 크기
+    maxFormUploadBytes: number  // multipart/form-data 업로드 최대 크기
+    uploadChunkBytes: number    // 이어 올리기 업로드의 권장 조각 크기
+  }
+}
+
+// POST /api/session 응답 (웹 UI 세션)
+export interface OcrSessionStatus {
+  authRequired: boolean  // 서버가 API 키 인증을 사용하는지 (false면 세션 없이 사용)
+  keyId?: string         // 세션이 사용하는 API 키
+  expiresAt?: number
+}
+
+// 사용량 합계 (GET /api/admin/usage)
+export interface OcrUsageTotals {
+  jobs: number           // 끝난 작업 수 (완료 + 실패)
+  failedJobs: number
+  cacheHits: number
+  ocrPages: number       // OCR한 페이지 수
+  visionCalls: number    // 성공한 Vision API 요청 수
+  visionPages: number    // Vision API가 과금한 페이지 수
+  durationMs: number     // 처리 시간 합계
+  estimatedCost: number  // visionPages 기준 예상 비용
+}
+
+export interface OcrUsageReport {
+  from: string  // YYYY-MM-DD (UTC, 포함)
+  to: string
+  pricePer1000Pages: number
+  currency: string
+  totals: OcrUsageTotals
+  days: (OcrUsageTotals & { day: string })[]
+  keys: (OcrUsageTotals & { keyId: string | null })[]  // keyId가 null이면 API 키 없이 등록한 작업
+}
@@ -0,0 +1,81 @@
+"""
+ocrmypdf plugin: 진행 상황 이벤트
+ocrmypdf의 진행 표시줄을 대체하여 단계별 진행 상황을 stderr에 JSON 한 줄씩 출력합니다.
+Node 서버(app/lib/ocr.ts)가 이 줄을 읽어 작업 상태에 반영합니다.
+OCR 엔진 플러그인은 같은 형식으로 오류(error)와 Vision API 호출(vision_call) 이벤트도 출력합니다.
+OCR 엔진 플러그인이 함께 쓰는 도우미(emit_event, page_number_from_path, document_page_number)도 제공합니다.
+"""
+
+import json
+import os
+import re
+import sys
+from pathlib import Path
+
+from ocrmypdf import hookimpl
+
+EVENT_PREFIX = "@@OCR_EVENT "
+
+
+def emit_event(event_type, **fields):
+    """Node 서버가 읽을 수 있도록 stderr에 JSON 이벤트 한 줄 출력"""
+    payload = json.dumps({"type": event_type, **fields}, ensure_ascii=False)
+    print(f"{EVENT_PREFIX}{payload}", file=sys.stderr, flush=True)
+
+
+def page_number_from_path(path):
+    """ocrmypdf 작업 파일명(예: 000007_ocr.png)에서 1부터 시작하는 페이지 번호 추출"""
+    match = re.match(r"(\d+)", Path(path).name)
+    return int(match.group(1)) if match else 1
+
+
+def page_offset():
+    """큰 문서를 나누어 처리할 때 이 실행의 첫 페이지 앞에 있는 원본 문서의 페이지 수 (OCR_PAGE_OFFSET)"""
+    try:
+        return max(int(os.environ.get("OCR_PAGE_OFFSET", 0)), 0)
+    except ValueError:
+        return 0
+
+
+def document_page_number(path):
+    """작업 파일명의 페이지 번호를 원본 문서 기준 번호로 변환"""
+    return page_number_from_path(path) + page_offset()
+
+
+class EventProgressBar:
+    """ocrmypdf ProgressBar 프로토콜 구현: 갱신될 때마다 progress 이벤트 출력"""
+
+    def __init__(self, *, total=None, desc=None, unit=None, disable=False, **kwargs):
+        # disable은 무시: 터미널이 아니어도 서버에는 항상 진행 상황을 알림
+        self.total = total
+        self.desc = desc or ""
+        self.unit = unit
+        self.completed = 0
+
+    def __enter__(self):
+        self._emit()
+        return self
+
+    def __exit__(self, *args):
+        return False
+
+    def update(self, n=1, *, completed=None):
+        if completed is not None:
+            self.completed = completed
+        else:
+            self.completed += n
+        self._emit()
+
+    def _emit(self):
+        emit_event(
+            "progress",
+            stage=self.desc,
+            completed=int(self.completed),
+            total=int(self.total) if self.total else None,
+            unit=self.unit,
+        )
+
+
+@hookimpl
+def get_progressbar_class():
+    return EventProgressBar
@@ -0,0 +1,154 @@
+"""
+ocrmypdf plugin: 테스트용 Mock OCR Engine
+외부 API를 호출하지 않고 페이지마다 항상 같은 텍스트를 hOCR로 출력합니다.
+오프라인 개발, CI, API 할당량을 쓰지 않는 테스트에 사용합니다.
+"""
+
+import json
+import os
+import sys
+from collections import namedtuple
+from pathlib import Path
+
+from ocrmypdf import OcrEngine, hookimpl
+from PIL import Image
+
+# 같은 디렉터리의 ocr_events 모듈 사용 (플러그인은 파일 경로로 로드됨)
+sys.path.insert(0, os.path.dirname(os.path.abspath(__file__)))
+from ocr_events import document_page_number  # noqa: E402
+
+OrientationConfidence = namedtuple("OrientationConfidence", ["angle", "confidence"])
+
+
+class MockOcrEngine(OcrEngine):
+    """결정적(deterministic) 결과를 내는 Mock OCR 엔진"""
+
+    @staticmethod
+    def __str__():
+        return "Mock OCR Engine"
+
+    @staticmethod
+    def creator_tag(options):
+        return "Mock OCR Engine"
+
+    @staticmethod
+    def version():
+        return "1.0.0"
+
+    @staticmethod
+    def languages(options):
+        return {"eng", "kor", "jpn", "chi_sim", "chi_tra"}
+
+    @staticmethod
+    def get_orientation(input_file, options):
+        return OrientationConfidence(angle=0, confidence=0.0)
+
+    @staticmethod
+    def generate_hocr(input_file, output_hocr, output_text, options):
+        with Image.open(input_file) as image:
+            width, height = image.size
+
+        page_number = document_page_number(input_file)
+        words = ["MOCK", "OCR", "PAGE", str(page_number)]
+        boxes = _word_boxes(words, width, height)
+
+        Path(output_text).write_text(" ".join(words), encoding="utf-8")
+        Path(output_hocr).write_text(_generate_hocr(words, boxes, width, height), encoding="utf-8")
+        _write_structure(page_number, words, boxes, width, height)
+
+    @staticmethod
+    def generate_pdf(input_file, output_pdf, output_text, options):
+        raise NotImplementedError("hOCR 모드를 사용합니다")
+
+
+def _word_boxes(words, width, height):
+    """페이지 상단에 단어를 한 줄로 배치한 bbox 목록 [x0, y0, x1, y1]"""
+    word_width = max(width // (len(words) + 2), 1)
+    word_height = max(height // 40, 1)
+    top = word_height
+    return [
+        [word_width * (index + 1), top, word_width * (index + 2) - 1, top + word_height]
+        for index in range(len(words))
+    ]
+
+
+def _write_structure(page_number, words, boxes, width, height):
+    """OCR_STRUCTURE_DIR이 지정되면 Vision 플러그인과 같은 형식의 페이지 구조 JSON 저장"""
+    structure_dir = os.environ.get("OCR_STRUCTURE_DIR")
+    if not structure_dir:
+        return
+
+    line_bbox = [boxes[0][0], boxes[0][1], boxes[-1][2], boxes[-1][3]]
+    structure = {
+        "page": page_number,
+        "width": width,
+        "height": height,
+        "blocks": [
+            {
+                "bbox": line_bbox,
+                "confidence": 0.99,
+                "paragraphs": [
+                    {
+                        "bbox": line_bbox,
+                        "confidence": 0.99,
+                        "lines": [
+                            {
+                                "bbox": line_bbox,
+                                "baseline": [0, 0],
+                                "fontSize": line_bbox[3] - line_bbox[1],
+                                "angle": 0,
+                                "words": [
+                                    {"text": word, "bbox": box, "confidence": 0.99}
+                                    for word, box in zip(words, boxes)
+                                ],
+                            }
+                        ],
+                    }
+                ],
+            }
+        ],
+    }
+    Path(structure_dir, f"page-{page_number:06d}.json").write_text(
+        json.dumps(structure, ensure_ascii=False), encoding="utf-8"
+    )
+
+
+def _generate_hocr(words, boxes, width, height):
+    """단어 bbox로 한 줄짜리 hOCR 생성"""
+    spans = []
+    for index, (word, box) in enumerate(zip(words, boxes)):
+        spans.append(
+            f'          <span class="ocrx_word" id="word_{index + 1}" '
+            f'title="bbox {box[0]} {box[1]} {box[2]} {box[3]}; x_wconf 99">{word}</span>'
+        )
+
+    line_bbox = f"{boxes[0][0]} {boxes[0][1]} {boxes[-1][2]} {boxes[-1][3]}"
+    return "\n".join(
+        [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            "<!DOCTYPE html PUBLIC \"-//W3C//DTD XHTML 1.0 Transitional//EN\"",
+            '  "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+            '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">',
+            "<head>",
+            "  <title>Mock OCR</title>",
+            '  <meta http-equiv="Content-Type" content="text/html; charset=utf-8" />',
+            "</head>",
+            "<body>",
+            f'  <div class="ocr_page" id="page_1" title="bbox 0 0 {width} {height}; ppageno 0">',
+            f'    <div class="ocr_carea" id="block_1" title="bbox {line_bbox}">',
+            f'      <p class="ocr_par" id="par_1" title="bbox {line_bbox}">',
+            f'        <span class="ocr_line" id="line_1" title="bbox {line_bbox}">',
+            *spans,
+            "        </span>",
+            "      </p>",
+            "    </div>",
+            "  </div>",
+            "</body>",
+            "</html>",
+        ]
+    )
+
+
+@hookimpl
+def get_ocr_engine():
+    return MockOcrEngine()
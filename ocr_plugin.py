@@ -2,18 +2,65 @@
 ocrmypdf plugin: Google Cloud Vision API OCR Engine
 Google Vision API로 OCR을 수행하고, 결과를 hOCR 포맷으로 변환하여
 ocrmypdf가 검색 가능한 PDF 텍스트 레이어를 생성하도록 합니다.
+
+OCR_VISION_MODE=batch이면 페이지 처리 전에 PDF를 files:annotate로 여러 페이지씩 묶어
+동시에 인식해 두고(OCR_VISION_PREFETCH_DIR), 페이지별 hOCR 생성 때 그 결과를 사용합니다.
+
+OCR_PAGE_CACHE_DIR이 지정되면 페이지별 결과(hOCR, 텍스트, 구조)를 페이지 이미지 해시로 저장해 두고,
+같은 문서를 다시 처리할 때(실패 후 재시도 등) 이미 인식한 페이지는 API를 호출하지 않습니다.
+
+--rotate-pages이면 페이지 방향도 원본 PDF 페이지의 files:annotate 결과로 판단하고,
+그 결과를 회전에 맞춰 hOCR 생성에 다시 쓰므로 페이지당 Vision 호출은 한 번입니다.
 """
 
 import base64
+import copy
+import hashlib
+import io
+import json
+import math
 import os
+import sys
+import threading
+import time
 from collections import namedtuple
+from concurrent.futures import ThreadPoolExecutor, as_completed
 from pathlib import Path
 
-import requests
+import pikepdf
 from ocrmypdf import OcrEngine, hookimpl
+from PIL import Image
+
+# 같은 디렉터리의 ocr_events 모듈 사용 (플러그인은 파일 경로로 로드됨)
+sys.path.insert(0, os.path.dirname(os.path.abspath(__file__)))
+from ocr_events import document_page_number, emit_event, page_number_from_path, page_offset  # noqa: E402
+from vision_client import VisionClient, VisionError, auth_mode  # noqa: E402
 
 OrientationConfidence = namedtuple("OrientationConfidence", ["angle", "confidence"])
 
+# files:annotate 한 요청에서 인식할 수 있는 최대 페이지 수 (Vision API 제한)
+FILES_ANNOTATE_MAX_PAGES = 5
+
+# 페이지 방향 신뢰도 상한 (ocrmypdf --rotate-pages-threshold 기본값 14와 같은 척도)
+ORIENTATION_MAX_CONFIDENCE = 30.0
+# 이보다 적은 글자 수로 판단한 방향은 신뢰도를 비례해서 낮춤
+ORIENTATION_MIN_SYMBOLS = 20
+
+# 페이지 캐시 형식 버전 (hOCR/구조 생성 방식이 바뀌면 올려서 이전 항목을 무시)
+PAGE_CACHE_VERSION = 2
+
+# 줄을 끝내는 detectedBreak 유형 (SPACE, SURE_SPACE는 같은 줄 안의 단어 구분)
+LINE_ENDING_BREAKS = {"LINE_BREAK", "EOL_SURE_SPACE", "HYPHEN"}
+
+# ocrmypdf(-l) 언어 코드 → Vision API languageHints (BCP-47)
+LANGUAGE_HINTS = {
+    "kor": "ko",
+    "eng": "en",
+    "jpn": "ja",
+    "chi_sim": "zh",
+    "chi_tra": "zh-Hant",
+}
+
 
 class GoogleVisionOcrEngine(OcrEngine):
     """Google Cloud Vision API를 사용하는 OCR 엔진"""
@@ -36,65 +83,485 @@ class GoogleVisionOcrEngine(OcrEngine):
 
     @staticmethod
     def get_orientation(input_file, options):
-        return OrientationConfidence(angle=0, confidence=0.0)
+        # --rotate-pages일 때만 호출됨: 원본 PDF 페이지 인식 결과의 단어 방향으로 페이지 회전 판단
+        # 미리보기 이미지를 따로 인식하지 않고 일괄 인식 결과를 쓰거나 이 페이지만 지금 인식해 두어
+        # generate_hocr가 같은 결과를 다시 씀. 이전 실행에서 판단한 방향은 페이지 캐시에서 읽음
+        orientation = _load_orientation(input_file, options)
+        if orientation is None:
+            page_number = page_number_from_path(input_file)
+            annotation = _read_prefetched(page_number) or _prefetch_page(options.input_file, page_number, options)
+            orientation = _annotation_orientation(annotation)
+            _store_orientation(input_file, orientation, options)
+        return orientation
 
     @staticmethod
     def generate_hocr(input_file, output_hocr, output_text, options):
-        api_key = os.environ.get("GOOGLE_VISION_API_KEY")
-        if not api_key:
-            raise RuntimeError("GOOGLE_VISION_API_KEY 환경변수가 설정되지 않았습니다")
-
-        # 이미지 파일을 Base64로 인코딩
-        with open(input_file, "rb") as f:
-            image_content = base64.b64encode(f.read()).decode("utf-8")
-
-        # Google Vision API 호출
-        url = f"https://vision.googleapis.com/v1/images:annotate?key={api_key}"
-        request_body = {
-            "requests": [
-                {
-                    "image": {"content": image_content},
-                    "features": [{"type": "DOCUMENT_TEXT_DETECTION"}],
-                    "imageContext": {"languageHints": ["ko", "en"]},
-                }
-            ]
-        }
+        # 같은 페이지 이미지를 이전 실행(실패 후 재시도 등)에서 인식했으면 저장해 둔 결과 사용
+        cache_key = _page_cache_key(input_file, options)
+        result = _load_cached_page(cache_key)
+        if result is None:
+            result = _recognize_page(input_file, options)
+            _store_cached_page(cache_key, result)
+        _mark_page_cached(input_file, options)
+
+        Path(output_hocr).write_text(result["hocr"], encoding="utf-8")
+        Path(output_text).write_text(result["text"], encoding="utf-8")
+        # 구조화 데이터 출력 (JSON 내보내기용)
+        _write_structure(output_hocr, result["structure"])
+
+    @staticmethod
+    def generate_pdf(input_file, output_pdf, output_text, options):
+        raise NotImplementedError("hOCR 모드를 사용합니다")
+
 
-        response = requests.post(url, json=request_body, timeout=120)
-        response.raise_for_status()
-        result = response.json()
+def _recognize_page(input_file, options):
+    """페이지 이미지를 인식해 hOCR, 텍스트, 구조화 데이터 반환"""
+    # 일괄 인식(또는 방향 판단 때 인식한) 결과가 있으면 사용, 없으면 이 페이지만 Vision API로 인식
+    annotation = _load_prefetched(input_file, options) or _annotate_image(input_file, options)
+
+    full_text_annotation = annotation.get("fullTextAnnotation", {})
+    pages = full_text_annotation.get("pages", [])
+
+    if not pages:
+        # 텍스트 없음 - 빈 hOCR
+        return {"hocr": _empty_hocr(), "text": "", "structure": _page_structure({}, 0, 0)}
+
+    page = pages[0]
+    width = page.get("width", 1)
+    height = page.get("height", 1)
+    return {
+        "hocr": _generate_hocr(page, width, height),
+        "text": full_text_annotation.get("text", ""),
+        "structure": _page_structure(page, width, height),
+    }
+
+
+def _elapsed_ms(started):
+    """시작 시각(time.monotonic())부터 지난 시간 (ms)"""
+    return round((time.monotonic() - started) * 1000)
+
+
+def _annotate_image(input_file, options):
+    """페이지 이미지 한 장을 Vision API(DOCUMENT_TEXT_DETECTION)로 인식해 응답(annotation) 반환"""
+    # 이미지 파일을 Base64로 인코딩
+    with open(input_file, "rb") as f:
+        image_content = base64.b64encode(f.read()).decode("utf-8")
+
+    # 재시도 후에도 실패하면 오류 코드를 서버에 알리고 작업 중단
+    started = time.monotonic()
+    try:
+        annotation = _vision_client().annotate_image(image_content, _language_hints(options))
+    except VisionError as error:
+        emit_event("error", code=error.code)
+        raise RuntimeError(str(error)) from error
+    page = document_page_number(input_file)
+    emit_event("vision_call", pages=1, firstPage=page, lastPage=page, durationMs=_elapsed_ms(started))
+    return annotation
+
+
+_client = None
+_client_lock = threading.Lock()
+
+
+def _vision_client():
+    """프로세스 안에서 공유하는 Vision 클라이언트 (일괄 인식 스레드와 페이지 인식이 같은 속도 제한을 사용)"""
+    global _client
+    with _client_lock:
+        if _client is None:
+            _client = VisionClient.from_env()
+        return _client
+
+
+def _read_int_env(name, default, minimum, maximum):
+    try:
+        value = int(os.environ.get(name, default))
+    except ValueError:
+        value = default
+    return min(max(value, minimum), maximum)
+
+
+def _prefetch_pages(pdfinfo, options):
+    """일괄 인식할 페이지 번호 (1부터). 일괄 모드가 아니거나 쓸 수 없으면 빈 목록
+
+    기울기 보정은 ocrmypdf가 페이지 이미지를 바꾸므로 PDF 기준 좌표가 맞지 않아 제외
+    (자동 회전은 판단한 방향만큼 좌표를 돌려 사용)
+    """
+    if os.environ.get("OCR_VISION_MODE", "page") != "batch":
+        return []
+    if not os.environ.get("OCR_VISION_PREFETCH_DIR") or not auth_mode():
+        return []
+    if getattr(options, "deskew", False):
+        return []
+
+    # --pages로 고른 페이지만 인식 (ocrmypdf가 0부터 시작하는 페이지 번호 집합으로 바꿔 둠)
+    # 이전 실행에서 인식해 페이지 캐시에 있는 페이지는 제외 (캐시 표시는 원본 문서 기준 페이지 번호)
+    selected = getattr(options, "pages", None)
+    skip_text = getattr(options, "skip_text", False)
+    offset = page_offset()
+    return [
+        page.pageno + 1
+        for page in pdfinfo.pages
+        if (not selected or page.pageno in selected)
+        and not (skip_text and page.has_text)
+        and not _is_page_cached(page.pageno + 1 + offset, options)
+    ]
 
-        annotation = result.get("responses", [{}])[0]
 
-        # API 오류 확인
-        if "error" in annotation:
-            error_msg = annotation["error"].get("message", "Unknown error")
-            raise RuntimeError(f"Vision API 오류: {error_msg}")
+def _chunk_pdf_content(input_file, pages):
+    """원본 PDF에서 지정한 페이지만 뽑은 작은 PDF를 Base64로 반환 (요청 크기와 메모리 절약)"""
+    with pikepdf.open(input_file) as source:
+        chunk = pikepdf.new()
+        for page_number in pages:
+            chunk.pages.append(source.pages[page_number - 1])
+        buffer = io.BytesIO()
+        chunk.save(buffer)
+    return base64.b64encode(buffer.getvalue()).decode("utf-8")
 
-        full_text_annotation = annotation.get("fullTextAnnotation", {})
-        pages = full_text_annotation.get("pages", [])
 
-        if not pages:
-            # 텍스트 없음 - 빈 hOCR 작성
-            _write_empty_hocr(output_hocr)
-            Path(output_text).write_text("", encoding="utf-8")
-            return
+def _annotate_pdf_chunk(input_file, pages, options):
+    """PDF의 페이지 묶음(최대 5쪽)을 files:annotate로 인식해 원본 페이지 번호별 응답 반환"""
+    pdf_content = _chunk_pdf_content(input_file, pages)
+    started = time.monotonic()
+    responses = _vision_client().annotate_file(
+        pdf_content, list(range(1, len(pages) + 1)), _language_hints(options)
+    )
+    # 페이지별 오류가 있어도 요청한 페이지 수만큼 과금됨
+    emit_event(
+        "vision_call",
+        pages=len(pages),
+        firstPage=pages[0] + page_offset(),
+        lastPage=pages[-1] + page_offset(),
+        durationMs=_elapsed_ms(started),
+    )
 
-        page = pages[0]
-        width = page.get("width", 1)
-        height = page.get("height", 1)
+    annotations = {}
+    for annotation in responses:
+        chunk_page = annotation.get("context", {}).get("pageNumber")
+        # 페이지별 오류는 저장하지 않음 → 해당 페이지는 hOCR 생성 때 개별 요청으로 다시 시도
+        if chunk_page and "error" not in annotation:
+            annotations[pages[chunk_page - 1]] = annotation
+    return annotations
+
+
+def _prefetch_document(input_file, pages, options):
+    """페이지 묶음을 동시에 인식해 OCR_VISION_PREFETCH_DIR에 페이지별 JSON으로 저장
+
+    묶음마다 해당 페이지만 담은 PDF를 보내고 결과는 받는 즉시 디스크에 쓰므로
+    메모리에는 동시에 처리 중인 묶음만 올라감
+    실패한 묶음은 건너뛰고 페이지별 요청으로 처리 (일괄 인식은 최적화일 뿐)
+    """
+    prefetch_dir = Path(os.environ["OCR_VISION_PREFETCH_DIR"])
+    prefetch_dir.mkdir(parents=True, exist_ok=True)
+    chunk_size = _read_int_env("OCR_VISION_BATCH_PAGES", FILES_ANNOTATE_MAX_PAGES, 1, FILES_ANNOTATE_MAX_PAGES)
+    concurrency = _read_int_env("OCR_VISION_CONCURRENCY", 4, 1, 16)
+
+    chunks = [pages[i:i + chunk_size] for i in range(0, len(pages), chunk_size)]
+    completed = 0
+    emit_event("progress", stage="Vision batch", completed=0, total=len(pages), unit="page")
+
+    with ThreadPoolExecutor(max_workers=concurrency) as executor:
+        futures = {executor.submit(_annotate_pdf_chunk, input_file, chunk, options): chunk for chunk in chunks}
+        for future in as_completed(futures):
+            chunk = futures[future]
+            try:
+                for page_number, annotation in future.result().items():
+                    _write_prefetched(page_number, annotation)
+            except (VisionError, pikepdf.PdfError, ValueError) as error:
+                print(f"Vision 일괄 인식 실패 (페이지 {chunk[0]}-{chunk[-1]}): {error}", file=sys.stderr)
+            completed += len(chunk)
+            emit_event("progress", stage="Vision batch", completed=completed, total=len(pages), unit="page")
+
+
+def _prefetch_path(page_number):
+    """일괄 인식 결과 파일 (페이지 번호는 이번 실행의 PDF 기준, OCR_VISION_PREFETCH_DIR이 없으면 None)"""
+    prefetch_dir = os.environ.get("OCR_VISION_PREFETCH_DIR")
+    return Path(prefetch_dir, f"vision-{page_number:06d}.json") if prefetch_dir else None
+
+
+def _write_prefetched(page_number, annotation):
+    path = _prefetch_path(page_number)
+    if path is not None:
+        path.parent.mkdir(parents=True, exist_ok=True)
+        path.write_text(json.dumps(annotation, ensure_ascii=False), encoding="utf-8")
+
+
+def _read_prefetched(page_number):
+    """일괄 인식해 둔 페이지 응답 (정규화 좌표 그대로, 없으면 None)"""
+    path = _prefetch_path(page_number)
+    if path is None or not path.exists():
+        return None
+    return json.loads(path.read_text(encoding="utf-8"))
+
+
+def _prefetch_page(input_file, page_number, options):
+    """방향 판단용으로 PDF의 한 페이지를 files:annotate로 인식해 일괄 인식 결과처럼 저장 (페이지 오류면 빈 응답)"""
+    try:
+        annotation = _annotate_pdf_chunk(input_file, [page_number], options).get(page_number)
+    except VisionError as error:
+        emit_event("error", code=error.code)
+        raise RuntimeError(str(error)) from error
+    if annotation is None:
+        return {}
+    _write_prefetched(page_number, annotation)
+    return annotation
+
+
+def _load_prefetched(input_file, options):
+    """일괄 인식해 둔 페이지 응답을 페이지 이미지 픽셀 좌표로 변환해 반환 (없으면 None)
+
+    자동 회전으로 돌린 페이지는 좌표도 같은 각도로 돌리고, 기울기 보정을 켰으면 좌표가 맞지 않아 쓰지 않음
+    """
+    page_number = page_number_from_path(input_file)
+    annotation = _read_prefetched(page_number)
+    if annotation is None:
+        return None
+    _prefetch_path(page_number).unlink()
+    if getattr(options, "deskew", False):
+        return None
+
+    angle = _applied_rotation(input_file, annotation, options)
+    with Image.open(input_file) as image:
+        width, height = image.size
+    for page in annotation.get("fullTextAnnotation", {}).get("pages", []):
+        _rotate_normalized_page(page, angle)
+        _denormalize_page(page, width, height)
+    return annotation
+
+
+def _page_elements(page):
+    """페이지의 블록, 문단, 단어, 글자 (boundingBox가 있는 요소)"""
+    for block in page.get("blocks", []):
+        yield block
+        for paragraph in block.get("paragraphs", []):
+            yield paragraph
+            for word in paragraph.get("words", []):
+                yield word
+                yield from word.get("symbols", [])
 
-        # 텍스트 출력
-        text = full_text_annotation.get("text", "")
-        Path(output_text).write_text(text, encoding="utf-8")
 
-        # hOCR 생성
-        hocr = _generate_hocr(page, width, height)
-        Path(output_hocr).write_text(hocr, encoding="utf-8")
+def _denormalize_page(page, width, height):
+    """PDF 인식 결과의 정규화 좌표(0~1)와 페이지 크기(pt)를 페이지 이미지 픽셀 기준으로 변환"""
+    page["width"] = width
+    page["height"] = height
+
+    for element in _page_elements(page):
+        box = element.get("boundingBox", {})
+        if "normalizedVertices" in box:
+            box["vertices"] = [
+                {"x": round(vertex.get("x", 0) * width), "y": round(vertex.get("y", 0) * height)}
+                for vertex in box.pop("normalizedVertices")
+            ]
+
+
+def _rotate_normalized_page(page, angle):
+    """정규화 좌표(0~1)를 페이지를 시계 방향으로 angle도 돌린 이미지 기준으로 변환"""
+    rotations = {
+        90: lambda x, y: (1 - y, x),
+        180: lambda x, y: (1 - x, 1 - y),
+        270: lambda x, y: (y, 1 - x),
+    }
+    rotate = rotations.get(angle)
+    if rotate is None:
+        return
+
+    for element in _page_elements(page):
+        box = element.get("boundingBox", {})
+        if "normalizedVertices" in box:
+            box["normalizedVertices"] = [
+                dict(zip(("x", "y"), rotate(vertex.get("x", 0), vertex.get("y", 0))))
+                for vertex in box["normalizedVertices"]
+            ]
+
+
+def _annotation_orientation(annotation):
+    """원본 PDF 페이지 인식 결과(정규화 좌표)로 판단한 페이지 방향 (텍스트가 없으면 0도, 신뢰도 0)"""
+    pages = annotation.get("fullTextAnnotation", {}).get("pages", [])
+    if not pages:
+        return OrientationConfidence(angle=0, confidence=0.0)
+    # 가로세로 비율이 글자 방향 판단에 영향을 주지 않도록 페이지 크기(pt) 기준 좌표로 바꿔 계산
+    page = copy.deepcopy(pages[0])
+    _denormalize_page(page, page.get("width", 1), page.get("height", 1))
+    return _page_orientation(page)
+
+
+def _applied_rotation(input_file, annotation, options):
+    """ocrmypdf가 페이지 이미지를 돌린 각도 (방향 신뢰도가 --rotate-pages-threshold 이상일 때만 돌림)"""
+    if not getattr(options, "rotate_pages", False):
+        return 0
+    orientation = _load_orientation(input_file, options) or _annotation_orientation(annotation)
+    threshold = getattr(options, "rotate_pages_threshold", 14.0)
+    return orientation.angle if orientation.confidence >= threshold else 0
+
+
+def _page_cache_key(input_file, options):
+    """페이지 이미지 내용과 언어 힌트의 해시 (OCR_PAGE_CACHE_DIR이 없으면 None)"""
+    if not os.environ.get("OCR_PAGE_CACHE_DIR"):
+        return None
+    digest = hashlib.sha256(f"vision:{PAGE_CACHE_VERSION}:{','.join(_language_hints(options))}\0".encode())
+    with open(input_file, "rb") as f:
+        for block in iter(lambda: f.read(1024 * 1024), b""):
+            digest.update(block)
+    return digest.hexdigest()
+
+
+def _page_cache_path(cache_key):
+    return Path(os.environ["OCR_PAGE_CACHE_DIR"], cache_key[:2], f"{cache_key}.json")
+
+
+def _document_page_marker(page_number, options):
+    """입력 PDF(OCR_INPUT_SHA256)의 페이지가 캐시되었음을 표시하는 파일 (없으면 None)
+
+    페이지 캐시 키는 페이지 이미지가 만들어진 뒤에야 알 수 있으므로
+    일괄 인식 전에 건너뛸 페이지를 판단할 때 사용
+    """
+    input_hash = os.environ.get("OCR_INPUT_SHA256")
+    if not os.environ.get("OCR_PAGE_CACHE_DIR") or not input_hash:
+        return None
+    document_key = hashlib.sha256(
+        f"{input_hash}:{PAGE_CACHE_VERSION}:{','.join(_language_hints(options))}".encode()
+    ).hexdigest()
+    return Path(os.environ["OCR_PAGE_CACHE_DIR"], "documents", document_key, f"page-{page_number:06d}")
+
+
+def _orientation_path(input_file, options):
+    """페이지 캐시에 저장한 이 페이지의 방향 판단 결과 파일 (캐시를 쓰지 않으면 None)"""
+    marker = _document_page_marker(document_page_number(input_file), options)
+    return None if marker is None else marker.with_name(f"{marker.name}.orientation.json")
+
+
+def _load_orientation(input_file, options):
+    path = _orientation_path(input_file, options)
+    if path is None:
+        return None
+    try:
+        stored = json.loads(path.read_text(encoding="utf-8"))
+        return OrientationConfidence(angle=int(stored["angle"]), confidence=float(stored["confidence"]))
+    except (OSError, ValueError, KeyError, TypeError):
+        return None
+
+
+def _store_orientation(input_file, orientation, options):
+    """다음 실행(재시도)에서 같은 페이지의 방향을 다시 인식하지 않도록 저장"""
+    path = _orientation_path(input_file, options)
+    if path is None:
+        return
+    try:
+        path.parent.mkdir(parents=True, exist_ok=True)
+        path.write_text(json.dumps(orientation._asdict()), encoding="utf-8")
+    except OSError as error:
+        # 캐시 저장 실패는 OCR 결과에 영향 없음
+        print(f"페이지 캐시 저장 실패: {error}", file=sys.stderr)
+
+
+def _is_page_cached(page_number, options):
+    marker = _document_page_marker(page_number, options)
+    return marker is not None and marker.exists()
+
+
+def _load_cached_page(cache_key):
+    """이전에 인식한 페이지 결과 (없거나 읽을 수 없으면 None)"""
+    if not cache_key:
+        return None
+    path = _page_cache_path(cache_key)
+    try:
+        result = json.loads(path.read_text(encoding="utf-8"))
+    except (OSError, ValueError):
+        return None
+    # 최근에 쓴 항목은 Node 서버의 정리 대상에서 늦게 빠지도록 수정 시각 갱신
+    try:
+        os.utime(path)
+    except OSError:
+        pass
+    return result
+
+
+def _store_cached_page(cache_key, result):
+    """페이지 결과를 임시 파일에 쓴 뒤 이름을 바꿔 저장 (다른 작업이 반쯤 쓴 파일을 읽지 않도록)"""
+    if not cache_key:
+        return
+    path = _page_cache_path(cache_key)
+    try:
+        path.parent.mkdir(parents=True, exist_ok=True)
+        temp_path = path.with_name(f"{path.name}.{os.getpid()}.{threading.get_ident()}.tmp")
+        temp_path.write_text(json.dumps(result, ensure_ascii=False), encoding="utf-8")
+        os.replace(temp_path, path)
+    except OSError as error:
+        # 캐시 저장 실패는 OCR 결과에 영향 없음
+        print(f"페이지 캐시 저장 실패: {error}", file=sys.stderr)
+
+
+def _mark_page_cached(input_file, options):
+    """다음 실행의 일괄 인식에서 이 페이지를 건너뛰도록 표시"""
+    marker = _document_page_marker(document_page_number(input_file), options)
+    if marker is None:
+        return
+    try:
+        marker.parent.mkdir(parents=True, exist_ok=True)
+        marker.touch()
+    except OSError as error:
+        # 캐시 저장 실패는 OCR 결과에 영향 없음
+        print(f"페이지 캐시 저장 실패: {error}", file=sys.stderr)
+
+
+def _language_hints(options):
+    """ocrmypdf -l 옵션으로 받은 언어를 Vision API 힌트로 변환"""
+    languages = getattr(options, "languages", None) or ["kor", "eng"]
+    hints = [LANGUAGE_HINTS[lang] for lang in languages if lang in LANGUAGE_HINTS]
+    return hints or ["ko", "en"]
+
+
+def _write_structure(output_hocr, structure):
+    """OCR_STRUCTURE_DIR이 지정되면 페이지 구조를 페이지 번호와 함께 JSON으로 저장
+
+    Node 서버(app/lib/ocrOutputs.ts)가 작업이 끝난 뒤 페이지 파일을 모아 structure.json을 만듭니다.
+    """
+    structure_dir = os.environ.get("OCR_STRUCTURE_DIR")
+    if not structure_dir:
+        return
+
+    page_number = document_page_number(output_hocr)
+    Path(structure_dir, f"page-{page_number:06d}.json").write_text(
+        json.dumps({"page": page_number, **structure}, ensure_ascii=False), encoding="utf-8"
+    )
 
-    @staticmethod
-    def generate_pdf(input_file, output_pdf, output_text, options):
-        raise NotImplementedError("hOCR 모드를 사용합니다")
+
+def _page_structure(page, width, height):
+    """블록/문단/줄/단어 구조와 bbox, 신뢰도 (페이지 번호 제외: 캐시된 페이지는 다른 번호로 쓰일 수 있음)"""
+    return {
+        "width": width,
+        "height": height,
+        "blocks": [
+            {
+                "bbox": _bbox_values(block.get("boundingBox", {})),
+                "confidence": round(block.get("confidence", 0.0), 3),
+                "paragraphs": [
+                    {
+                        "bbox": _bbox_values(paragraph.get("boundingBox", {})),
+                        "confidence": round(paragraph.get("confidence", 0.0), 3),
+                        "lines": [
+                            {
+                                "bbox": line["bbox"],
+                                "baseline": line["baseline"],
+                                "fontSize": line["size"],
+                                "angle": line["angle"],
+                                "words": [
+                                    {
+                                        "text": _word_text(word),
+                                        "bbox": _bbox_values(word.get("boundingBox", {})),
+                                        "confidence": round(_get_confidence(word) / 100, 2),
+                                    }
+                                    for word in line["words"]
+                                ],
+                            }
+                            for line in _paragraph_lines(paragraph)
+                        ],
+                    }
+                    for paragraph in block.get("paragraphs", [])
+                ],
+            }
+            for block in page.get("blocks", [])
+        ],
+    }
 
 
 def _generate_hocr(page, width, height):
@@ -131,37 +598,37 @@ def _generate_hocr(page, width, height):
                 f'      <p class="ocr_par" id="par_{par_id}" title="bbox {par_bbox}">'
             )
 
-            # 각 문단을 한 줄(line)로 처리
-            line_id += 1
-            lines.append(
-                f'        <span class="ocr_line" id="line_{line_id}" title="bbox {par_bbox}">'
-            )
-
-            for word in paragraph.get("words", []):
-                word_bbox = _get_bbox(word.get("boundingBox", {}))
-                word_text = "".join(
-                    symbol.get("text", "") for symbol in word.get("symbols", [])
-                )
-
-                if not word_text.strip():
-                    continue
-
-                # HTML 이스케이프
-                word_text = (
-                    word_text.replace("&", "&amp;")
-                    .replace("<", "&lt;")
-                    .replace(">", "&gt;")
-                    .replace('"', "&quot;")
-                )
-
-                word_id += 1
-                conf = _get_confidence(word)
-                lines.append(
-                    f'          <span class="ocrx_word" id="word_{word_id}" '
-                    f'title="bbox {word_bbox}; x_wconf {conf}">{word_text}</span>'
-                )
-
-            lines.append("        </span>")
+            # detectedBreak로 나눈 줄마다 bbox, 기준선, 글자 크기 지정
+            # (ocrmypdf가 이 값으로 텍스트 레이어의 위치와 크기를 정함)
+            for line in _paragraph_lines(paragraph):
+                line_id += 1
+                line_bbox = " ".join(str(value) for value in line["bbox"])
+                slope, offset = line["baseline"]
+                title = f'bbox {line_bbox}; baseline {slope} {offset}; x_size {line["size"]}'
+                if line["angle"]:
+                    title += f'; textangle {line["angle"]}'
+                lines.append(f'        <span class="ocr_line" id="line_{line_id}" title="{title}">')
+
+                for word in line["words"]:
+                    word_bbox = _get_bbox(word.get("boundingBox", {}))
+
+                    # HTML 이스케이프
+                    word_text = (
+                        _word_text(word)
+                        .replace("&", "&amp;")
+                        .replace("<", "&lt;")
+                        .replace(">", "&gt;")
+                        .replace('"', "&quot;")
+                    )
+
+                    word_id += 1
+                    conf = _get_confidence(word)
+                    lines.append(
+                        f'          <span class="ocrx_word" id="word_{word_id}" '
+                        f'title="bbox {word_bbox}; x_wconf {conf}">{word_text}</span>'
+                    )
+
+                lines.append("        </span>")
             lines.append("      </p>")
         lines.append("    </div>")
 
@@ -172,18 +639,147 @@ def _generate_hocr(page, width, height):
     return "\n".join(lines)
 
 
-def _get_bbox(bounding_box):
-    """Vision API boundingBox에서 bbox 문자열 추출"""
+def _detected_break(word):
+    """단어 마지막 글자 뒤의 구분 유형 (SPACE, LINE_BREAK, HYPHEN 등, 없으면 None)"""
+    symbols = word.get("symbols", [])
+    if not symbols:
+        return None
+    return symbols[-1].get("property", {}).get("detectedBreak", {}).get("type")
+
+
+def _word_text(word):
+    """단어를 이루는 글자(symbol)를 이어 붙인 텍스트
+
+    줄 끝에서 하이픈으로 나뉜 단어(HYPHEN)는 Vision이 하이픈을 글자로 주지 않으므로 직접 붙임
+    """
+    text = "".join(symbol.get("text", "") for symbol in word.get("symbols", []))
+    if _detected_break(word) == "HYPHEN":
+        text += "-"
+    return text
+
+
+def _paragraph_lines(paragraph):
+    """문단의 단어를 detectedBreak 기준으로 줄 단위로 나눔
+
+    각 줄: {"bbox": [x1, y1, x2, y2], "baseline": [기울기, 오프셋], "size": 글자 높이, "angle": 반시계 방향 각도, "words": [...]}
+    """
+    lines = []
+    current = []
+    for word in paragraph.get("words", []):
+        if _word_text(word).strip():
+            current.append(word)
+        if current and _detected_break(word) in LINE_ENDING_BREAKS:
+            lines.append(current)
+            current = []
+    if current:
+        lines.append(current)
+
+    return [_line_geometry(words) for words in lines]
+
+
+def _line_geometry(words):
+    """줄의 bbox, hOCR baseline, 글자 높이, 글자 방향 계산
+
+    baseline은 줄 bbox 왼쪽 아래를 원점으로 한 직선 (기울기, y 오프셋)
+    첫 단어와 마지막 단어의 아래 모서리를 이어 기울어진 줄도 따라가도록 함
+    """
+    boxes = [_bbox_values(word.get("boundingBox", {})) for word in words]
+    x1 = min(box[0] for box in boxes)
+    y1 = min(box[1] for box in boxes)
+    x2 = max(box[2] for box in boxes)
+    y2 = max(box[3] for box in boxes)
+
+    # 글자 진행 방향 (페이지를 돌리지 않은 회전 글자는 hOCR textangle로 알림, 반시계 방향)
+    angle = _text_angle(words[0].get("boundingBox", {})) or 0
+    upright = angle in (0, 180)
+
+    # 글자 크기 힌트: 큰 기호나 작은 구두점에 휘둘리지 않도록 단어 높이의 중앙값 사용
+    # (세로로 진행하는 줄은 bbox 너비가 글자 높이)
+    sizes = sorted((box[3] - box[1]) if upright else (box[2] - box[0]) for box in boxes)
+    size = sizes[len(sizes) // 2]
+
+    if angle == 0:
+        first, last = boxes[0], boxes[-1]
+        run = last[2] - first[0]
+        slope = (last[3] - first[3]) / run if run > 0 else 0.0
+        offset = first[3] + slope * (x1 - first[0]) - y2
+        baseline = [round(slope, 4), round(offset)]
+    else:
+        baseline = [0, 0]
+
+    return {
+        "bbox": [x1, y1, x2, y2],
+        "baseline": baseline,
+        "size": size,
+        "angle": (360 - angle) % 360,
+        "words": words,
+    }
+
+
+def _bbox_values(bounding_box):
+    """Vision API boundingBox에서 축 정렬된 [x1, y1, x2, y2] 추출
+
+    Vision은 글자 방향 기준으로 꼭짓점을 주므로(회전된 글자는 vertices[0]이 왼쪽 위가 아님)
+    네 꼭짓점의 최솟값/최댓값으로 계산
+    """
     vertices = bounding_box.get("vertices", [])
     if len(vertices) < 4:
-        return "0 0 0 0"
+        return [0, 0, 0, 0]
+
+    xs = [max(vertex.get("x", 0), 0) for vertex in vertices]
+    ys = [max(vertex.get("y", 0), 0) for vertex in vertices]
+
+    return [min(xs), min(ys), max(xs), max(ys)]
+
+
+def _text_angle(bounding_box):
+    """글자 진행 방향(vertices[0] → vertices[1])을 이미지 기준 시계 방향 0/90/180/270도로 반환
+
+    정방향 글자는 0, 위에서 아래로 읽히면 90, 뒤집혔으면 180. 꼭짓점이 없으면 None
+    """
+    vertices = bounding_box.get("vertices", [])
+    if len(vertices) < 2:
+        return None
 
-    x1 = max(vertices[0].get("x", 0), 0)
-    y1 = max(vertices[0].get("y", 0), 0)
-    x2 = max(vertices[2].get("x", 0), 0)
-    y2 = max(vertices[2].get("y", 0), 0)
+    dx = vertices[1].get("x", 0) - vertices[0].get("x", 0)
+    dy = vertices[1].get("y", 0) - vertices[0].get("y", 0)
+    if dx == 0 and dy == 0:
+        return None
 
-    return f"{x1} {y1} {x2} {y2}"
+    # 이미지 좌표는 y가 아래로 증가하므로 atan2 결과가 곧 시계 방향 각도
+    angle = math.degrees(math.atan2(dy, dx))
+    return int(round(angle / 90.0)) % 4 * 90
+
+
+def _page_orientation(page):
+    """단어별 글자 방향을 글자 수로 가중 투표해 페이지 회전 보정 각도와 신뢰도 계산
+
+    ocrmypdf는 angle만큼 페이지를 시계 방향으로 돌려 바로 세움
+    """
+    votes = {0: 0, 90: 0, 180: 0, 270: 0}
+    for block in page.get("blocks", []):
+        for paragraph in block.get("paragraphs", []):
+            for word in paragraph.get("words", []):
+                angle = _text_angle(word.get("boundingBox", {}))
+                if angle is not None:
+                    votes[angle] += len(word.get("symbols", [])) or 1
+
+    total = sum(votes.values())
+    if total == 0:
+        return OrientationConfidence(angle=0, confidence=0.0)
+
+    text_angle, count = max(votes.items(), key=lambda item: item[1])
+    # 한 방향이 압도적일수록, 판단에 쓴 글자가 많을수록 높은 신뢰도
+    agreement = max(count / total - 0.5, 0.0) * 2
+    sample = min(total / ORIENTATION_MIN_SYMBOLS, 1.0)
+    confidence = round(agreement * sample * ORIENTATION_MAX_CONFIDENCE, 1)
+
+    return OrientationConfidence(angle=(360 - text_angle) % 360, confidence=confidence)
+
+
+def _get_bbox(bounding_box):
+    """Vision API boundingBox에서 hOCR bbox 문자열 추출"""
+    return " ".join(str(value) for value in _bbox_values(bounding_box))
 
 
 def _get_confidence(word):
@@ -194,12 +790,12 @@ def _get_confidence(word):
 
     confidences = [s.get("confidence", 0.9) for s in symbols]
     avg = sum(confidences) / len(confidences)
-    return int(avg * 100)
+    return round(avg * 100)
 
 
-def _write_empty_hocr(output_path):
-    """빈 hOCR 파일 작성"""
-    hocr = (
+def _empty_hocr():
+    """텍스트가 없는 페이지의 hOCR"""
+    return (
         '<?xml version="1.0" encoding="UTF-8"?>\n'
         "<!DOCTYPE html PUBLIC \"-//W3C//DTD XHTML 1.0 Transitional//EN\"\n"
         '  "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">\n'
@@ -208,7 +804,14 @@ def _write_empty_hocr(output_path):
         '<body><div class="ocr_page" title="bbox 0 0 1 1"></div></body>\n'
         "</html>"
     )
-    Path(output_path).write_text(hocr, encoding="utf-8")
+
+
+@hookimpl
+def validate(pdfinfo, options):
+    # 페이지 처리 전에 실행됨: 일괄 모드면 전체 페이지를 미리 인식
+    pages = _prefetch_pages(pdfinfo, options)
+    if pages:
+        _prefetch_document(options.input_file, pages, options)
 
 
 @hookimpl
@@ -0,0 +1,151 @@
+"""
+큰 PDF를 페이지 범위별로 나누고 OCR 결과를 다시 합치는 도구
+Node 서버(app/lib/pdfChunks.ts)가 페이지가 많은 문서를 메모리 한도 안에서 나누어 처리할 때 사용합니다.
+
+    python3 pdf_tools.py split <입력 PDF> <출력 디렉터리> <묶음당 페이지 수>
+        → 출력 디렉터리에 chunk-NNNN.pdf와 manifest.json 작성
+          ({"pageCount": 전체 페이지 수, "chunks": [{"path", "firstPage", "pageCount"}]})
+          전체 페이지 수가 묶음 크기 이하면 나누지 않고 chunks는 빈 목록
+    python3 pdf_tools.py merge <출력 PDF> <원본 PDF> <입력 PDF>...
+        → 입력 PDF의 페이지를 순서대로 이어 붙여 저장
+          원본 PDF(나누기 전 문서)의 목차(북마크), 문서 정보, XMP 메타데이터를 옮김
+    python3 pdf_tools.py count <입력 PDF> <출력 JSON>
+        → 출력 JSON에 {"pageCount": 전체 페이지 수} 작성 (작업 등록 때 하루 한도 확인용)
+          열 수 없으면 {"error": "encrypted"} (암호로 보호됨) 또는 {"error": "invalid"} (손상되었거나 PDF가 아님)
+"""
+
+import json
+import sys
+from pathlib import Path
+
+import pikepdf
+
+
+def split(input_path, output_dir, chunk_pages):
+    output_dir = Path(output_dir)
+    output_dir.mkdir(parents=True, exist_ok=True)
+    chunks = []
+
+    with pikepdf.open(input_path) as source:
+        page_count = len(source.pages)
+        if page_count > chunk_pages:
+            for index, start in enumerate(range(0, page_count, chunk_pages)):
+                pages = source.pages[start:start + chunk_pages]
+                chunk = pikepdf.new()
+                chunk.pages.extend(pages)
+                chunk_path = output_dir / f"chunk-{index + 1:04d}.pdf"
+                chunk.save(chunk_path)
+                chunk.close()
+                chunks.append({"path": str(chunk_path), "firstPage": start + 1, "pageCount": len(pages)})
+
+    manifest = {"pageCount": page_count, "chunks": chunks}
+    (output_dir / "manifest.json").write_text(json.dumps(manifest), encoding="utf-8")
+
+
+def _page_indexes(pdf):
+    """페이지 객체 번호 → 페이지 순번 (0부터)"""
+    return {page.obj.objgen: index for index, page in enumerate(pdf.pages)}
+
+
+def _named_destination(pdf, name):
+    """이름으로 지정한 목적지 (/Names/Dests 이름 트리 또는 PDF 1.1의 /Dests 사전)"""
+    names = pdf.Root.get("/Names")
+    if names is not None and "/Dests" in names:
+        tree = pikepdf.NameTree(names.Dests)
+        if str(name) in tree:
+            return tree[str(name)]
+    dests = pdf.Root.get("/Dests")
+    if dests is not None and isinstance(name, pikepdf.Name):
+        return dests.get(name)
+    return None
+
+
+def _outline_page(pdf, page_indexes, item):
+    """목차 항목이 가리키는 페이지 순번 (문서 안 페이지를 가리키지 않으면 None)"""
+    destination = item.destination
+    if destination is None and item.action is not None and item.action.get("/S") == pikepdf.Name.GoTo:
+        destination = item.action.get("/D")
+    if isinstance(destination, (pikepdf.String, pikepdf.Name)):
+        destination = _named_destination(pdf, destination)
+    if isinstance(destination, pikepdf.Dictionary):
+        destination = destination.get("/D")
+    if isinstance(destination, pikepdf.Array) and len(destination) > 0 and isinstance(destination[0], pikepdf.Dictionary):
+        return page_indexes.get(destination[0].objgen)
+    return None
+
+
+def _copy_outline_items(pdf, page_indexes, items):
+    """목차 항목을 페이지 순번 기준으로 다시 만듦 (합친 PDF의 같은 순번 페이지를 가리키게)"""
+    copied = []
+    for item in items:
+        page = _outline_page(pdf, page_indexes, item)
+        new_item = pikepdf.OutlineItem(str(item.title), page)
+        new_item.is_closed = item.is_closed
+        new_item.children.extend(_copy_outline_items(pdf, page_indexes, item.children))
+        copied.append(new_item)
+    return copied
+
+
+def _copy_document_metadata(original, merged):
+    """원본의 목차, 문서 정보(/Info), XMP 메타데이터를 합친 PDF로 옮김
+
+    묶음은 페이지만 떼어 만든 새 PDF라 이 정보가 없음.
+    목차는 원본 페이지 객체를 가리키므로 순번으로 바꿔 옮기고, 페이지 수가 다르면 옮기지 않음.
+    """
+    if "/Info" in original.trailer:
+        merged.docinfo = merged.copy_foreign(original.docinfo)
+    if "/Metadata" in original.Root:
+        merged.Root.Metadata = merged.copy_foreign(original.Root.Metadata)
+
+    if "/Outlines" in original.Root and len(original.pages) == len(merged.pages):
+        page_indexes = _page_indexes(original)
+        with original.open_outline() as source_outline:
+            items = _copy_outline_items(original, page_indexes, source_outline.root)
+        with merged.open_outline() as outline:
+            outline.root.extend(items)
+
+
+def merge(output_path, original_path, input_paths):
+    merged = pikepdf.new()
+    sources = []
+    try:
+        for input_path in input_paths:
+            source = pikepdf.open(input_path)
+            sources.append(source)
+            merged.pages.extend(source.pages)
+        # 복사한 스트림(XMP)은 저장할 때 읽으므로 원본을 연 채로 저장
+        with pikepdf.open(original_path) as original:
+            _copy_document_metadata(original, merged)
+            merged.save(output_path)
+    finally:
+        merged.close()
+        for source in sources:
+            source.close()
+
+
+def count(input_path, output_path):
+    try:
+        with pikepdf.open(input_path) as source:
+            result = {"pageCount": len(source.pages)}
+    except pikepdf.PasswordError:
+        result = {"error": "encrypted"}
+    except pikepdf.PdfError:
+        result = {"error": "invalid"}
+    Path(output_path).write_text(json.dumps(result), encoding="utf-8")
+
+
+def main(args):
+    if len(args) == 4 and args[0] == "split":
+        split(args[1], args[2], max(int(args[3]), 1))
+    elif len(args) >= 4 and args[0] == "merge":
+        merge(args[1], args[2], args[3:])
+    elif len(args) == 3 and args[0] == "count":
+        count(args[1], args[2])
+    else:
+        print(__doc__, file=sys.stderr)
+        return 2
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(main(sys.argv[1:]))
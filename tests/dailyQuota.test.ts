@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import { writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { test } from 'node:test'
+import type { ApiKey } from '../app/lib/apiKeys'
+import type { JobUsage } from '../app/lib/usageStore'
+import { DEFAULT_OCR_OPTIONS } from '../app/lib/ocrOptions'
+import { setupTest } from './helpers'
+
+// API 키 하루 한도: 실패·취소한 작업이 과금한 페이지도 사용량에 포함
+const { dir, modules } = setupTest({
+  env: (dir) => ({
+    OCR_USAGE_DB: path.join(dir, 'usage.db'),
+    OCR_JOBS_DIR: path.join(dir, 'jobs'),
+    OCR_CACHE_DIR: path.join(dir, 'cache'),
+  }),
+  load: async () => ({ ...(await import('../app/lib/usageStore')), ...(await import('../app/lib/jobs')) }),
+})
+
+function usage(jobId: string, fields: Partial<JobUsage>): JobUsage {
+  return {
+    jobId,
+    apiKeyId: 'client',
+    engine: 'vision',
+    state: 'done',
+    cacheHit: false,
+    ocrPages: 0,
+    visionCalls: 0,
+    visionPages: 0,
+    finishedAt: Date.now(),
+    ...fields,
+  }
+}
+
+function apiKey(pagesPerDay: number | null): ApiKey {
+  return { id: 'client', name: 'client', pagesPerDay, maxConcurrentJobs: null, disabled: false }
+}
+
+test('완료, 실패, 취소한 작업의 과금 페이지를 모두 셈', async () => {
+  const { getKeyUsage, recordJobUsage } = await modules()
+  recordJobUsage(usage('done', { ocrPages: 3, visionCalls: 1, visionPages: 3 }))
+  recordJobUsage(usage('failed', { state: 'failed', errorCode: 'VISION_API_ERROR', visionCalls: 1, visionPages: 4 }))
+  recordJobUsage(usage('cancelled', { state: 'failed', errorCode: 'CANCELLED', visionCalls: 1, visionPages: 2 }))
+  recordJobUsage(usage('cached', { cacheHit: true }))
+  recordJobUsage(usage('tesseract', { engine: 'tesseract', ocrPages: 5 }))
+  recordJobUsage(usage('other-key', { apiKeyId: 'other', ocrPages: 100, visionPages: 100 }))
+
+  assert.deepEqual({ ...getKeyUsage('client') }, { pages: 14, jobs: 3 })
+})
+
+test('남은 페이지보다 큰 문서는 거절', async () => {
+  const { DailyQuotaError, assertDailyQuota } = await modules()
+
+  assert.doesNotThrow(() => assertDailyQuota(undefined, 1000))
+  assert.doesNotThrow(() => assertDailyQuota(apiKey(null), 1000))
+  assert.doesNotThrow(() => assertDailyQuota(apiKey(20), 6))
+
+  assert.throws(() => assertDailyQuota(apiKey(20), 7), (error) => {
+    assert.ok(error instanceof DailyQuotaError)
+    assert.equal(error.code, 'API_QUOTA_EXCEEDED')
+    assert.match(error.message, /남은 페이지: 6페이지/)
+    assert.ok(error.retryAfterSeconds > 0 && error.retryAfterSeconds <= 24 * 60 * 60)
+    return true
+  })
+  assert.throws(() => assertDailyQuota(apiKey(14)), DailyQuotaError)
+})
+
+test('하루 한도가 있는 키로 페이지 수를 읽을 수 없는 PDF는 등록하지 않음', async () => {
+  const { countActiveJobs, createJob, reservedPages } = await modules()
+  const uploadPath = path.join(dir, 'broken.pdf')
+  writeFileSync(uploadPath, 'PDF가 아닌 내용')
+
+  await assert.rejects(
+    createJob('broken.pdf', { path: uploadPath, size: 10, hash: 'f'.repeat(64) }, { engine: 'tesseract' }, DEFAULT_OCR_OPTIONS, {
+      apiKey: apiKey(20),
+    }),
+    { code: 'INVALID_PDF' }
+  )
+  assert.equal(countActiveJobs('client'), 0)
+  assert.equal(reservedPages('client'), 0)
+})
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { setupTest } from './helpers'
+
+// Vision을 쓸 수 없을 때 Tesseract 대체: 등록 때(인증 정보 없음)와 실행 중 오류 모두 요청한 출력을 확인
+const { modules } = setupTest({
+  env: () => ({
+    OCR_ENGINE: 'vision',
+    OCR_ALLOWED_ENGINES: 'vision,tesseract',
+    OCR_ENGINE_FALLBACK: '1',
+    GOOGLE_VISION_AUTH: undefined,
+    GOOGLE_APPLICATION_CREDENTIALS: undefined,
+    GOOGLE_VISION_ACCESS_TOKEN: undefined,
+  }),
+  load: () => import('../app/lib/engines'),
+})
+
+test('인증 정보가 없으면 PDF 출력은 Tesseract로 대체', async () => {
+  const { selectEngine } = await modules()
+  delete process.env.GOOGLE_VISION_API_KEY
+
+  assert.deepEqual(selectEngine(null, ['pdf']), { engine: 'tesseract', fallbackFrom: 'vision' })
+  assert.deepEqual(selectEngine('tesseract', ['pdf']), { engine: 'tesseract' })
+})
+
+test('hOCR/ALTO를 요청했으면 대체하지 않고 ENGINE_UNAVAILABLE', async () => {
+  const { selectEngine } = await modules()
+  delete process.env.GOOGLE_VISION_API_KEY
+
+  assert.throws(() => selectEngine('vision', ['pdf', 'hocr']), { code: 'ENGINE_UNAVAILABLE' })
+  assert.throws(() => selectEngine('vision', ['alto']), { code: 'ENGINE_UNAVAILABLE' })
+})
+
+test('실행 중 할당량 초과, API 오류, 인증 실패면 Tesseract로 다시 처리', async () => {
+  const { shouldFallBackAfterFailure } = await modules()
+
+  for (const code of ['QUOTA_EXCEEDED', 'VISION_API_ERROR', 'ENGINE_UNAVAILABLE'] as const) {
+    assert.equal(shouldFallBackAfterFailure('vision', code, ['pdf']), true, code)
+  }
+  assert.equal(shouldFallBackAfterFailure('vision', 'QUOTA_EXCEEDED', ['pdf', 'hocr']), false)
+  assert.equal(shouldFallBackAfterFailure('vision', 'TIMEOUT', ['pdf']), false)
+  assert.equal(shouldFallBackAfterFailure('vision', 'ENCRYPTED_PDF', ['pdf']), false)
+  assert.equal(shouldFallBackAfterFailure('tesseract', 'VISION_API_ERROR', ['pdf']), false)
+  assert.equal(shouldFallBackAfterFailure('mock', 'VISION_API_ERROR', ['pdf']), false)
+})
+
+test('인증 정보가 있으면 요청한 엔진 그대로', async () => {
+  const { selectEngine } = await modules()
+  process.env.GOOGLE_VISION_API_KEY = 'test-key'
+  try {
+    assert.deepEqual(selectEngine(undefined, ['pdf', 'hocr']), { engine: 'vision' })
+  } finally {
+    delete process.env.GOOGLE_VISION_API_KEY
+  }
+})
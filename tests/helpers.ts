@@ -0,0 +1,37 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after } from 'node:test'
+
+// Node 테스트 공통 준비
+// app/lib의 설정은 모듈을 처음 불러올 때 환경변수에서 읽으므로, 환경변수를 먼저 지정한 뒤 모듈을 동적으로 불러와야 함
+
+type TestEnv = Record<string, string | undefined>
+
+interface TestSetup<T> {
+  // 지정할 환경변수 (undefined면 삭제), 임시 디렉터리 경로를 받아 그 안의 경로를 지정할 수 있음
+  env?: (dir: string) => TestEnv
+  // 테스트할 모듈 불러오기 (환경변수를 지정한 뒤 처음 호출할 때 한 번만 실행)
+  load: () => Promise<T>
+}
+
+// 테스트 파일마다 임시 디렉터리를 만들고(테스트가 끝나면 삭제) 환경변수를 지정
+// 반환한 modules()는 불러온 모듈을 돌려줌 (CommonJS로 실행되어 최상위 await를 쓸 수 없으므로 테스트 안에서 호출)
+export function setupTest<T>({ env, load }: TestSetup<T>): { dir: string; modules: () => Promise<T> } {
+  const dir = mkdtempSync(path.join(tmpdir(), 'ocr-test-'))
+  after(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const values: TestEnv = { LOG_LEVEL: 'error', ...env?.(dir) }
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = value
+    }
+  }
+
+  let loaded: Promise<T> | undefined
+  return { dir, modules: () => (loaded ??= load()) }
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict'
+import { writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { test } from 'node:test'
+import { DEFAULT_OCR_OPTIONS } from '../app/lib/ocrOptions'
+import { setupTest } from './helpers'
+
+// 대기열 한도: 동시에 들어온 등록도 OCR_MAX_QUEUED_JOBS개까지만 받음
+const MAX_QUEUED = 3
+
+const { dir, modules } = setupTest({
+  env: (dir) => ({
+    OCR_JOBS_DIR: path.join(dir, 'jobs'),
+    OCR_CACHE_DIR: path.join(dir, 'cache'),
+    OCR_USAGE_DB: path.join(dir, 'usage.db'),
+    OCR_MAX_CONCURRENT_JOBS: '1',
+    OCR_MAX_QUEUED_JOBS: String(MAX_QUEUED),
+  }),
+  load: () => import('../app/lib/jobs'),
+})
+
+test('한도보다 하나 더 동시에 등록하면 QUEUE_FULL은 정확히 하나', async () => {
+  const { QueueFullError, createJob } = await modules()
+  // 대기열에서 실행으로 넘어가지 않도록 실행 자리를 모두 차지한 상태로 둠
+  const store = (globalThis as unknown as { ocrJobStore: { runningCount: number } }).ocrJobStore
+  store.runningCount = 1
+
+  const results = await Promise.allSettled(
+    Array.from({ length: MAX_QUEUED + 1 }, (_, index) => {
+      const uploadPath = path.join(dir, `upload-${index}.pdf`)
+      writeFileSync(uploadPath, `%PDF-1.4 ${index}`)
+      return createJob(
+        `문서${index}.pdf`,
+        { path: uploadPath, size: 10, hash: String(index).padStart(64, '0') },
+        { engine: 'tesseract' },
+        DEFAULT_OCR_OPTIONS
+      )
+    })
+  )
+
+  const rejected = results.filter((result) => result.status === 'rejected')
+  assert.equal(rejected.length, 1)
+  assert.ok(rejected[0].status === 'rejected' && rejected[0].reason instanceof QueueFullError)
+  assert.equal(results.filter((result) => result.status === 'fulfilled').length, MAX_QUEUED)
+})
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { test } from 'node:test'
+import { DOMParser, type Element } from '@xmldom/xmldom'
+import { escapeXml, toAlto, toHocr } from '../app/lib/ocrFormats'
+import type { OcrDocumentStructure } from '../app/types'
+
+// 구조화 결과 → hOCR, ALTO 변환: 출력을 XML로 파싱해 bbox, 신뢰도(x_wconf, WC), 단어 사이 SP 위치 확인
+// 픽스처에는 XML 특수 문자(& < > ")와 XML에서 쓸 수 없는 제어 문자가 든 단어가 있음
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'structure', 'two_pages.json')
+const structure = JSON.parse(readFileSync(FIXTURE, 'utf8')) as OcrDocumentStructure
+
+const XHTML = 'http://www.w3.org/1999/xhtml'
+const ALTO = 'http://www.loc.gov/standards/alto/ns-v4#'
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F]/
+
+// 형식이 잘못된 XML이면 예외
+function parseXml(xml: string) {
+  return new DOMParser({
+    onError: (level, message) => {
+      throw new Error(`XML ${level}: ${message}`)
+    },
+  }).parseFromString(xml, 'text/xml')
+}
+
+function byClass(root: Element, className: string): Element[] {
+  return [...root.getElementsByTagNameNS(XHTML, '*')].filter((element) => element.getAttribute('class') === className)
+}
+
+function altoElements(root: Element, name: string): Element[] {
+  return [...root.getElementsByTagNameNS(ALTO, name)]
+}
+
+test('escapeXml은 특수 문자를 엔티티로 바꾸고 XML에서 쓸 수 없는 제어 문자를 삭제', () => {
+  assert.equal(escapeXml('a & b < c > d "e"'), 'a &amp; b &lt; c &gt; d &quot;e&quot;')
+  assert.equal(escapeXml('x\u0000\u0001\u0008\u000B\u000C\u000E\u001Fy\uFFFE\uFFFF'), 'xy')
+  // 탭, 줄바꿈, 캐리지 리턴과 일반 유니코드는 유지
+  assert.equal(escapeXml('\t\n\r한글 é 😀'), '\t\n\r한글 é 😀')
+})
+
+test('hOCR: 페이지·블록·문단·줄·단어의 bbox와 x_wconf', () => {
+  const hocr = toHocr(structure)
+  assert.doesNotMatch(hocr, INVALID_XML_CHARS)
+  const root = parseXml(hocr).documentElement!
+
+  assert.deepEqual(
+    byClass(root, 'ocr_page').map((page) => page.getAttribute('title')),
+    ['bbox 0 0 600 800; ppageno 0', 'bbox 0 0 800 600; ppageno 1']
+  )
+  assert.deepEqual(
+    byClass(root, 'ocr_carea').map((block) => block.getAttribute('title')),
+    ['bbox 100 100 400 220', 'bbox 50 60 90 300']
+  )
+  assert.deepEqual(
+    byClass(root, 'ocr_par').map((paragraph) => paragraph.getAttribute('title')),
+    ['bbox 100 100 400 140', 'bbox 100 180 380 220', 'bbox 0 0 0 0', 'bbox 50 60 90 300']
+  )
+  assert.deepEqual(
+    byClass(root, 'ocr_line').map((line) => line.getAttribute('title')),
+    [
+      'bbox 100 100 400 140; baseline 0 -6; x_size 30',
+      'bbox 100 180 380 220; baseline 0.01 -5; x_size 32',
+      'bbox 50 60 90 300; baseline 0 0; x_size 40; textangle 90',
+    ]
+  )
+
+  // 단어는 자기 줄 안에 있고, 텍스트는 원래 문자 그대로 (제어 문자만 빠짐)
+  const lineWords = byClass(root, 'ocr_line').map((line) =>
+    byClass(line, 'ocrx_word').map((word) => [word.textContent, word.getAttribute('title')])
+  )
+  assert.deepEqual(lineWords, [
+    [
+      ['R&D', 'bbox 100 100 200 140; x_wconf 99'],
+      ['<요약>', 'bbox 220 100 400 140; x_wconf 90'],
+    ],
+    [
+      ['"인용"', 'bbox 100 180 250 220; x_wconf 75'],
+      ['끝', 'bbox 270 180 380 220; x_wconf 50'],
+    ],
+    [['세로', 'bbox 50 60 90 300; x_wconf 60']],
+  ])
+
+  // id는 문서 전체에서 겹치지 않음
+  const ids = [...root.getElementsByTagNameNS(XHTML, '*')].map((element) => element.getAttribute('id')).filter(Boolean)
+  assert.equal(new Set(ids).size, ids.length)
+})
+
+test('ALTO: 위치 속성, WC, 단어 사이에만 SP, 빈 문단은 생략', () => {
+  const alto = toAlto(structure, 'scan & "draft"\u0007.pdf')
+  assert.doesNotMatch(alto, INVALID_XML_CHARS)
+  const root = parseXml(alto).documentElement!
+
+  assert.equal(altoElements(root, 'fileName')[0].textContent, 'scan & "draft".pdf')
+  assert.equal(altoElements(root, 'softwareName')[0].textContent, 'Google Cloud Vision API')
+
+  const pages = altoElements(root, 'Page')
+  assert.deepEqual(
+    pages.map((page) => [page.getAttribute('PHYSICAL_IMG_NR'), page.getAttribute('WIDTH'), page.getAttribute('HEIGHT')]),
+    [
+      ['1', '600', '800'],
+      ['2', '800', '600'],
+    ]
+  )
+
+  const position = (element: Element) =>
+    ['HPOS', 'VPOS', 'WIDTH', 'HEIGHT'].map((name) => Number(element.getAttribute(name)))
+
+  // 문단마다 TextBlock (줄이 없는 문단은 생략), 회전한 글자는 ROTATION
+  const blocks = altoElements(root, 'TextBlock')
+  assert.deepEqual(blocks.map(position), [
+    [100, 100, 300, 40],
+    [100, 180, 280, 40],
+    [50, 60, 40, 240],
+  ])
+  assert.deepEqual(
+    blocks.map((block) => block.getAttribute('ROTATION')),
+    [null, null, '90']
+  )
+
+  // TextLine의 자식 순서: String 사이에만 SP (줄 처음과 끝에는 없음)
+  const lines = altoElements(root, 'TextLine')
+  assert.deepEqual(lines.map(position), [
+    [100, 100, 300, 40],
+    [100, 180, 280, 40],
+    [50, 60, 40, 240],
+  ])
+  assert.deepEqual(
+    lines.map((line) =>
+      [...line.childNodes]
+        .filter((node): node is Element => node.nodeType === node.ELEMENT_NODE)
+        .map((element) => (element.localName === 'String' ? element.getAttribute('CONTENT') : element.localName))
+    ),
+    [['R&D', 'SP', '<요약>'], ['"인용"', 'SP', '끝'], ['세로']]
+  )
+
+  const strings = altoElements(root, 'String')
+  assert.deepEqual(
+    strings.map((string) => [string.getAttribute('WC'), ...position(string)]),
+    [
+      ['0.99', 100, 100, 100, 40],
+      ['0.90', 220, 100, 180, 40],
+      ['0.75', 100, 180, 150, 40],
+      ['0.50', 270, 180, 110, 40],
+      ['0.60', 50, 60, 40, 240],
+    ]
+  )
+})
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import {
+  DEFAULT_OCR_OPTIONS,
+  InvalidOcrOptionsError,
+  countSelectedPages,
+  normalizePageRanges,
+  parseOcrOptions,
+  parsePageRanges,
+} from '../app/lib/ocrOptions'
+
+// 페이지 범위: 하루 한도 계산(countSelectedPages)과 묶음별 --pages(pdfChunks)가 이 결과를 씀
+// OCR 옵션: 요청의 options 필드(JSON)는 신뢰할 수 없는 입력이므로 형식과 값을 모두 확인
+
+test('페이지 범위를 정렬하고 겹치거나 이어지는 구간을 합침', () => {
+  const cases: [string, ReturnType<typeof parsePageRanges>][] = [
+    ['', []],
+    [' , ,', []],
+    ['3', [{ first: 3, last: 3 }]],
+    ['1-3,10,15-', [{ first: 1, last: 3 }, { first: 10, last: 10 }, { first: 15, last: null }]],
+    ['10,1-3', [{ first: 1, last: 3 }, { first: 10, last: 10 }]],
+    ['1-5,3-8', [{ first: 1, last: 8 }]],
+    ['1-3,4-6', [{ first: 1, last: 6 }]],
+    ['1-3,5', [{ first: 1, last: 3 }, { first: 5, last: 5 }]],
+    ['2-4,3', [{ first: 2, last: 4 }]],
+    ['5-,2-7', [{ first: 2, last: null }]],
+    ['5-,10-12', [{ first: 5, last: null }]],
+    [' 1 - 3 ,\t7 ', [{ first: 1, last: 3 }, { first: 7, last: 7 }]],
+    ['3-3', [{ first: 3, last: 3 }]],
+  ]
+  for (const [input, expected] of cases) {
+    assert.deepEqual(parsePageRanges(input), expected, JSON.stringify(input))
+  }
+})
+
+test('읽을 수 없거나 올바르지 않은 페이지 범위는 거절', () => {
+  for (const input of ['0', '0-3', '7-3', 'a', '1-3-5', '-3', '1.5', '1;2', '+1', '１']) {
+    assert.throws(() => parsePageRanges(input), InvalidOcrOptionsError, JSON.stringify(input))
+  }
+})
+
+test('정규화: 전체를 뜻하는 범위는 undefined', () => {
+  const cases: [string | undefined, string | undefined][] = [
+    [undefined, undefined],
+    ['', undefined],
+    ['1-', undefined],
+    ['3-,1-2', undefined],
+    ['10, 1-3, 2', '1-3,10'],
+    ['5-', '5-'],
+    ['7-7', '7'],
+    ['4-5,1-3', '1-5'],
+  ]
+  for (const [input, expected] of cases) {
+    assert.equal(normalizePageRanges(input), expected, JSON.stringify(input))
+  }
+})
+
+test('선택한 페이지 수는 문서 밖 페이지를 빼고 셈', () => {
+  const cases: [string | undefined, number, number][] = [
+    [undefined, 12, 12],
+    ['', 12, 12],
+    ['1-3,10,15-', 20, 10],
+    ['1-3,10,15-', 12, 4],
+    ['5-', 3, 0],
+    ['2-100', 10, 9],
+    ['1-5,3-8', 10, 8],
+    ['20-30', 10, 0],
+    ['1', 0, 0],
+  ]
+  for (const [input, pageCount, expected] of cases) {
+    assert.equal(countSelectedPages(input, pageCount), expected, `${JSON.stringify(input)} / ${pageCount}`)
+  }
+})
+
+test('옵션이 없으면 기본값, 빠진 값은 기본값으로 채움', () => {
+  // null도 값을 지정하지 않은 것으로 봄
+  for (const input of [undefined, null, '', '{}', '{"mode":null,"languages":null,"pages":null}']) {
+    assert.deepEqual(parseOcrOptions(input), DEFAULT_OCR_OPTIONS)
+  }
+  assert.deepEqual(parseOcrOptions('{"deskew":true,"pages":"3-,1-2"}'), { ...DEFAULT_OCR_OPTIONS, deskew: true })
+  assert.deepEqual(parseOcrOptions('{"pages":"10, 1-3"}'), { ...DEFAULT_OCR_OPTIONS, pages: '1-3,10' })
+})
+
+test('알 수 없는 키는 옵션에 남기지 않음', () => {
+  const options = parseOcrOptions('{"languages":["eng"],"tesseractArgs":"--foo","__proto__":{"polluted":true},"extra":1}')
+  assert.deepEqual(options, { ...DEFAULT_OCR_OPTIONS, languages: ['eng'] })
+  assert.deepEqual(Object.keys(options).sort(), Object.keys(DEFAULT_OCR_OPTIONS).sort())
+  assert.equal(({} as Record<string, unknown>).polluted, undefined)
+})
+
+test('같은 언어와 결과물은 한 번만', () => {
+  const options = parseOcrOptions('{"languages":["kor","eng","kor"],"outputs":["pdf","hocr","pdf"]}')
+  assert.deepEqual(options.languages, ['kor', 'eng'])
+  assert.deepEqual(options.outputs, ['pdf', 'hocr'])
+})
+
+test('잘못된 JSON, 형식, 값은 거절', () => {
+  const invalid = [
+    // JSON 자체
+    '{',
+    'null',
+    '[]',
+    '"force"',
+    '1',
+    // 언어
+    '{"languages":[]}',
+    '{"languages":"kor"}',
+    '{"languages":["klingon"]}',
+    '{"languages":["kor",1]}',
+    '{"languages":["KOR"]}',
+    '{"languages":["kor+eng"]}',
+    // 모드와 최적화
+    '{"mode":"fast"}',
+    '{"optimize":4}',
+    '{"optimize":"1"}',
+    '{"optimize":1.5}',
+    // 결과물
+    '{"outputs":[]}',
+    '{"outputs":"pdf"}',
+    '{"outputs":["txt"]}',
+    '{"outputs":["pdf",null]}',
+    // 참/거짓 값과 페이지 범위
+    '{"deskew":"true"}',
+    '{"rotatePages":1}',
+    '{"clean":null}',
+    '{"pages":5}',
+    '{"pages":"0-3"}',
+    '{"pages":"7-3"}',
+    // ocrmypdf 제약
+    '{"mode":"redo-ocr","deskew":true}',
+  ]
+  for (const input of invalid) {
+    assert.throws(() => parseOcrOptions(input), InvalidOcrOptionsError, input)
+  }
+})
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { setupTest } from './helpers'
+
+// 외부 프로세스 실행: 제한 시간, 취소, 프로세스 그룹 종료, 종료 코드별 실패 원인, 작업 전체 제한 시간
+// node -e로 띄운 자식 프로세스로 확인하고, 끝나면 실행 중인 프로세스 그룹 기록이 비었는지 봄
+const { modules } = setupTest({
+  env: () => ({ OCR_TIMEOUT_SECONDS: '60', OCR_JOB_TIMEOUT_SECONDS: '120' }),
+  load: async () => ({ ...(await import('../app/lib/processRunner')), ...(await import('../app/lib/ocr')) }),
+})
+
+function runNode(script: string, options: { timeoutMs?: number; signal?: AbortSignal; onStderrLine?: (line: string) => void } = {}) {
+  return modules().then(({ runProcess }) =>
+    runProcess(process.execPath, ['-e', script], { timeoutMs: 10000, ...options })
+  )
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function waitUntil(condition: () => boolean, message: string) {
+  const deadline = Date.now() + 5000
+  while (!condition()) {
+    assert.ok(Date.now() < deadline, message)
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+// 손자 프로세스를 띄우고 그 pid를 stderr로 알린 뒤 오래 기다리는 스크립트
+const SPAWN_GRANDCHILD = `
+  const child = require('child_process').spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], { stdio: 'ignore' })
+  console.error('grandchild ' + child.pid)
+  setTimeout(() => {}, 60000)
+`
+
+test('정상 종료하면 stderr 마지막 줄과 실행 시간을 돌려줌', async () => {
+  const { activeProcessCount } = await modules()
+  const lines: string[] = []
+  const result = await runNode("console.error('첫 줄'); console.error('둘째 줄')", { onStderrLine: (line) => lines.push(line) })
+
+  assert.deepEqual(lines, ['첫 줄', '둘째 줄'])
+  assert.deepEqual(result.stderrTail, ['첫 줄', '둘째 줄'])
+  assert.ok(result.durationMs >= 0)
+  assert.equal(activeProcessCount(), 0)
+})
+
+test('제한 시간을 넘으면 손자 프로세스까지 그룹 전체를 종료하고 ProcessTimeoutError', async () => {
+  const { ProcessTimeoutError, activeProcessCount, ocrErrorCode, toOcrmypdfError } = await modules()
+  let grandchild = 0
+  const running = runNode(SPAWN_GRANDCHILD, {
+    timeoutMs: 500,
+    onStderrLine: (line) => {
+      const match = /^grandchild (\d+)$/.exec(line)
+      if (match) grandchild = Number(match[1])
+    },
+  })
+  await waitUntil(() => activeProcessCount() === 1, '프로세스 그룹이 기록되지 않음')
+
+  const error = await running.then(() => null, (error: unknown) => error)
+  assert.ok(error instanceof ProcessTimeoutError, String(error))
+  assert.ok(grandchild > 0)
+  await waitUntil(() => !isAlive(grandchild), '손자 프로세스가 남아 있음')
+  assert.equal(ocrErrorCode(toOcrmypdfError(error)), 'TIMEOUT')
+  assert.equal(activeProcessCount(), 0)
+})
+
+test('실행 중에 취소하면 ProcessAbortedError', async () => {
+  const { ProcessAbortedError, activeProcessCount, ocrErrorCode, toOcrmypdfError } = await modules()
+  const controller = new AbortController()
+  const running = runNode('setTimeout(() => {}, 60000)', { signal: controller.signal })
+  await waitUntil(() => activeProcessCount() === 1, '프로세스 그룹이 기록되지 않음')
+  controller.abort()
+
+  const error = await running.then(() => null, (error: unknown) => error)
+  assert.ok(error instanceof ProcessAbortedError, String(error))
+  assert.equal(ocrErrorCode(toOcrmypdfError(error)), 'CANCELLED')
+  assert.equal(activeProcessCount(), 0)
+
+  // 이미 취소된 신호면 프로세스를 띄우지 않음
+  await assert.rejects(runNode('', { signal: controller.signal }), ProcessAbortedError)
+  assert.equal(activeProcessCount(), 0)
+})
+
+test('ocrmypdf 종료 코드와 시그널을 실패 원인과 오류 코드로 변환', async () => {
+  const { ProcessExitError, OcrmypdfError, activeProcessCount, ocrErrorCode, toOcrmypdfError } = await modules()
+  const cases: [string, string, string][] = [
+    ['process.exit(1)', 'bad-args', 'INVALID_OPTIONS'],
+    ['process.exit(2)', 'invalid-input', 'INVALID_PDF'],
+    ['process.exit(3)', 'missing-dependency', 'ENGINE_MISSING'],
+    ['process.exit(6)', 'prior-ocr', 'PRIOR_OCR'],
+    ['process.exit(8)', 'encrypted-pdf', 'ENCRYPTED_PDF'],
+    ['process.exit(9)', 'invalid-config', 'INVALID_OPTIONS'],
+    ['process.exit(42)', 'other', 'INTERNAL_ERROR'],
+    ["process.kill(process.pid, 'SIGKILL')", 'killed', 'OOM'],
+  ]
+  for (const [script, kind, code] of cases) {
+    const error = await runNode(script).then(() => null, (error: unknown) => error)
+    assert.ok(error instanceof ProcessExitError, script)
+    const converted = toOcrmypdfError(error)
+    assert.ok(converted instanceof OcrmypdfError, script)
+    assert.equal(converted.kind, kind, script)
+    assert.equal(ocrErrorCode(converted), code, script)
+  }
+  assert.equal(activeProcessCount(), 0)
+})
+
+test('실행 파일이 없으면 ProcessSpawnError (ENGINE_MISSING)', async () => {
+  const { ProcessSpawnError, activeProcessCount, ocrErrorCode, runProcess, toOcrmypdfError } = await modules()
+  const error = await runProcess('ocr-test-command-that-does-not-exist', [], { timeoutMs: 1000 }).then(
+    () => null,
+    (error: unknown) => error
+  )
+  assert.ok(error instanceof ProcessSpawnError, String(error))
+  assert.equal(error.code, 'ENOENT')
+  assert.equal(ocrErrorCode(toOcrmypdfError(error)), 'ENGINE_MISSING')
+  assert.equal(activeProcessCount(), 0)
+})
+
+test('작업 전체 제한 시간: 남은 시간이 OCR_TIMEOUT보다 짧으면 남은 시간만, 지났으면 프로세스 없이 TIMEOUT', async () => {
+  const { OcrmypdfError, ocrErrorCode, processTimeoutMs } = await modules()
+  const hooks = { jobId: 'deadline', onEvent: () => {} }
+
+  assert.equal(processTimeoutMs(hooks), 60000)
+  assert.equal(processTimeoutMs({ ...hooks, deadline: Date.now() + 120000 }), 60000)
+  const remaining = processTimeoutMs({ ...hooks, deadline: Date.now() + 5000 })
+  assert.ok(remaining > 4000 && remaining <= 5000, String(remaining))
+
+  assert.throws(() => processTimeoutMs({ ...hooks, deadline: Date.now() - 1 }), (error) => {
+    assert.ok(error instanceof OcrmypdfError)
+    assert.equal(error.kind, 'timeout')
+    assert.match(error.message, /120초/)
+    assert.equal(ocrErrorCode(error), 'TIMEOUT')
+    return true
+  })
+})
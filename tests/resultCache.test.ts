@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict'
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { test } from 'node:test'
+import { DEFAULT_OCR_OPTIONS } from '../app/lib/ocrOptions'
+import { setupTest } from './helpers'
+
+// 결과 캐시: 키가 인식 설정마다 다른지, 전체 크기 한도에서 오래 안 쓴 항목부터 지우는지, 하드 링크로 가져오는지
+const { dir, modules } = setupTest({
+  env: (dir) => ({ OCR_CACHE_DIR: path.join(dir, 'cache'), OCR_CACHE_MAX_MB: '1' }),
+  load: () => import('../app/lib/resultCache'),
+})
+
+const KB = 1024
+const INPUT_HASH = 'a'.repeat(64)
+
+// 작업 디렉터리에 결과물 만들기 (PDF와 텍스트, 합계 sizeKb)
+function writeResults(name: string, sizeKb: number) {
+  const workDir = path.join(dir, 'jobs', name)
+  mkdirSync(workDir, { recursive: true })
+  const pdf = path.join(workDir, 'output.pdf')
+  const txt = path.join(workDir, 'output.txt')
+  writeFileSync(pdf, Buffer.alloc((sizeKb - 1) * KB, name))
+  writeFileSync(txt, Buffer.alloc(KB, name))
+  return { pdf, txt }
+}
+
+test('인식 설정이나 엔진이 다르면 키가 다르고, 결과 형식과 키 순서는 키에 영향이 없음', async () => {
+  const { resultCacheKey } = await modules()
+  const base = resultCacheKey(INPUT_HASH, 'vision', DEFAULT_OCR_OPTIONS)
+
+  const variants = [
+    resultCacheKey('b'.repeat(64), 'vision', DEFAULT_OCR_OPTIONS),
+    resultCacheKey(INPUT_HASH, 'tesseract', DEFAULT_OCR_OPTIONS),
+    resultCacheKey(INPUT_HASH, 'mock', DEFAULT_OCR_OPTIONS),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, languages: ['kor'] }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, languages: ['eng', 'kor'] }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, mode: 'skip-text' }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, deskew: true }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, rotatePages: true }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, clean: true }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, optimize: 1 }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, pages: '1-3' }),
+    resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, pages: '1-4' }),
+  ]
+  assert.equal(new Set([base, ...variants]).size, variants.length + 1)
+
+  const reordered = Object.fromEntries(Object.entries(DEFAULT_OCR_OPTIONS).reverse()) as typeof DEFAULT_OCR_OPTIONS
+  assert.equal(resultCacheKey(INPUT_HASH, 'vision', reordered), base)
+  assert.equal(resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, outputs: ['pdf', 'hocr', 'alto'] }), base)
+  assert.equal(resultCacheKey(INPUT_HASH, 'vision', { ...DEFAULT_OCR_OPTIONS, pages: undefined }), base)
+})
+
+test('가져온 결과는 캐시 파일의 하드 링크', async () => {
+  const { restoreCachedResult, storeCachedResult } = await modules()
+  await storeCachedResult('linked', writeResults('linked', 10))
+
+  const workDir = path.join(dir, 'jobs', 'restored')
+  const files = await restoreCachedResult('linked', workDir)
+  assert.ok(files?.pdf && files.txt)
+  assert.equal(files.json, undefined)
+
+  const cached = statSync(path.join(dir, 'cache', 'linked', 'output.pdf'))
+  const restored = statSync(files.pdf)
+  assert.equal(restored.ino, cached.ino)
+  assert.ok(restored.nlink >= 2)
+  assert.equal(readFileSync(files.txt, 'utf8'), readFileSync(path.join(dir, 'jobs', 'linked', 'output.txt'), 'utf8'))
+  assert.equal(await restoreCachedResult('missing', path.join(dir, 'jobs', 'none')), null)
+})
+
+test('전체 크기를 넘으면 오래 안 쓴 항목부터 삭제', async () => {
+  const { getResultCacheStats, purgeResultCache, restoreCachedResult, storeCachedResult } = await modules()
+  await purgeResultCache()
+
+  await storeCachedResult('first', writeResults('first', 400))
+  await storeCachedResult('second', writeResults('second', 400))
+  // first를 최근에 쓴 항목으로 만듦 → 한도를 넘기면 second가 삭제됨
+  assert.ok(await restoreCachedResult('first', path.join(dir, 'jobs', 'first-hit')))
+  await storeCachedResult('third', writeResults('third', 400))
+
+  const stats = await getResultCacheStats()
+  assert.equal(stats.entries, 2)
+  assert.equal(stats.bytes, 800 * KB)
+  assert.ok(stats.bytes <= stats.maxBytes)
+  assert.ok(existsSync(path.join(dir, 'cache', 'first')))
+  assert.ok(!existsSync(path.join(dir, 'cache', 'second')))
+  assert.equal(await restoreCachedResult('second', path.join(dir, 'jobs', 'second-miss')), null)
+
+  // 한도보다 큰 결과는 저장하지 않음
+  await storeCachedResult('huge', writeResults('huge', 1100))
+  assert.equal((await getResultCacheStats()).entries, 2)
+  assert.ok(!existsSync(path.join(dir, 'cache', 'huge')))
+})
+
+test('관리자 삭제는 모든 항목과 파일을 지우고 삭제한 양을 돌려줌', async () => {
+  const { getResultCacheStats, purgeResultCache, storeCachedResult } = await modules()
+  await purgeResultCache()
+  await storeCachedResult('one', writeResults('one', 100))
+  await storeCachedResult('two', writeResults('two', 200))
+
+  assert.deepEqual(await purgeResultCache(), { entries: 2, bytes: 300 * KB })
+  assert.deepEqual(await getResultCacheStats(), { enabled: true, entries: 0, bytes: 0, maxBytes: 1024 * KB })
+  assert.deepEqual(readdirSync(path.join(dir, 'cache')), [])
+})
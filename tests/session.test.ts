@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { test } from 'node:test'
+import { NextRequest } from 'next/server'
+import { setupTest } from './helpers'
+
+// 웹 UI 세션 발급: 비밀번호가 맞을 때만 OCR_UI_API_KEY 키의 쿠키를 설정
+const { dir, modules } = setupTest({
+  env: (dir) => ({
+    OCR_API_KEYS_FILE: path.join(dir, 'keys.json'),
+    OCR_UI_API_KEY: 'web-ui',
+    OCR_UI_PASSWORD: 'correct horse',
+  }),
+  load: () => import('../app/api/session/route'),
+})
+writeFileSync(path.join(dir, 'keys.json'), JSON.stringify({ keys: [{ id: 'web-ui', token: 'ui-token', pagesPerDay: 10 }] }))
+
+function sessionRequest(body?: unknown, cookie?: string) {
+  return new NextRequest('http://localhost/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+test('비밀번호가 없거나 틀리면 401, 쿠키 없음', async () => {
+  const { POST } = await modules()
+  for (const body of [undefined, {}, { password: 'wrong' }, { password: 'correct horse!' }]) {
+    const response = await POST(sessionRequest(body), {})
+    assert.equal(response.status, 401, JSON.stringify(body))
+    assert.equal((await response.json()).code, 'UNAUTHORIZED')
+    assert.equal(response.headers.get('set-cookie'), null)
+  }
+})
+
+test('비밀번호가 맞으면 세션 쿠키를 발급하고, 그 쿠키로는 비밀번호 없이 갱신', async () => {
+  const { POST } = await modules()
+  const response = await POST(sessionRequest({ password: 'correct horse' }), {})
+  assert.equal(response.status, 200)
+  assert.equal((await response.json()).keyId, 'web-ui')
+
+  const setCookie = response.headers.get('set-cookie') ?? ''
+  assert.match(setCookie, /HttpOnly/i)
+  const token = /ocr_session=([^;]+)/.exec(setCookie)?.[1]
+  assert.ok(token)
+
+  const refreshed = await POST(sessionRequest(undefined, `ocr_session=${token}`), {})
+  assert.equal(refreshed.status, 200)
+
+  const forged = await POST(sessionRequest(undefined, `ocr_session=${token.slice(0, -2)}xx`), {})
+  assert.equal(forged.status, 401)
+})
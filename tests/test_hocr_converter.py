@@ -0,0 +1,162 @@
+"""
+Vision 응답 → hOCR/구조 JSON 변환 테스트 (ocr_plugin.py)
+
+tests/fixtures/vision/의 images:annotate 응답으로 detectedBreak 기준 줄 나누기,
+줄·단어 bbox, 기준선, 글자 크기를 확인합니다. ALTO는 Node 서버가 이 구조 JSON으로 만듭니다.
+
+실행: python3 -m unittest discover -s tests
+"""
+
+import json
+import sys
+import unittest
+import xml.etree.ElementTree as ET
+from pathlib import Path
+
+ROOT = Path(__file__).resolve().parent.parent
+sys.path.insert(0, str(ROOT))
+
+import ocr_plugin  # noqa: E402
+
+FIXTURES = Path(__file__).resolve().parent / "fixtures" / "vision"
+XHTML = "{http://www.w3.org/1999/xhtml}"
+
+
+def load_page(name):
+    """기록해 둔 images:annotate 응답의 첫 페이지"""
+    response = json.loads((FIXTURES / name).read_text(encoding="utf-8"))
+    return response["responses"][0]["fullTextAnnotation"]["pages"][0]
+
+
+def hocr_lines(page):
+    """hOCR의 ocr_line마다 (title, [(단어 title, 단어 텍스트), ...])"""
+    root = ET.fromstring(ocr_plugin._generate_hocr(page, page["width"], page["height"]))
+    return [
+        (
+            line.get("title"),
+            [(word.get("title"), word.text) for word in line.iter(f"{XHTML}span") if word.get("class") == "ocrx_word"],
+        )
+        for line in root.iter(f"{XHTML}span")
+        if line.get("class") == "ocr_line"
+    ]
+
+
+class ParagraphLinesTest(unittest.TestCase):
+    def setUp(self):
+        self.page = load_page("line_breaks.json")
+        self.paragraph = self.page["blocks"][0]["paragraphs"][0]
+
+    def test_line_ending_breaks_split_lines(self):
+        # SPACE는 줄 안, HYPHEN / EOL_SURE_SPACE / LINE_BREAK는 줄 끝
+        lines = ocr_plugin._paragraph_lines(self.paragraph)
+        self.assertEqual(
+            [[ocr_plugin._word_text(word) for word in line["words"]] for line in lines],
+            [["Vision", "recog-"], ["nition", "works"], ["well"]],
+        )
+
+    def test_line_bbox_and_font_size(self):
+        lines = ocr_plugin._paragraph_lines(self.paragraph)
+        self.assertEqual([line["bbox"] for line in lines], [[100, 100, 290, 130], [100, 140, 280, 170], [100, 180, 160, 212]])
+        self.assertEqual([line["size"] for line in lines], [30, 30, 32])
+        self.assertEqual([line["baseline"] for line in lines], [[0.0, 0], [0.0, 0], [0.0, 0]])
+        self.assertEqual([line["angle"] for line in lines], [0, 0, 0])
+
+    def test_hyphen_break_appends_hyphen(self):
+        word = self.paragraph["words"][1]
+        self.assertEqual(ocr_plugin._detected_break(word), "HYPHEN")
+        self.assertEqual(ocr_plugin._word_text(word), "recog-")
+
+    def test_skewed_line_baseline(self):
+        # 첫 단어와 마지막 단어의 아래 모서리를 잇는 기울기, 줄 bbox 왼쪽 아래 기준 오프셋
+        paragraph = self.page["blocks"][1]["paragraphs"][0]
+        (line,) = ocr_plugin._paragraph_lines(paragraph)
+        self.assertEqual(line["bbox"], [300, 300, 480, 340])
+        self.assertEqual(line["baseline"], [0.0278, -5])
+        self.assertEqual(line["size"], 35)
+
+    def test_paragraph_without_final_break_keeps_last_line(self):
+        paragraph = json.loads(json.dumps(self.paragraph))
+        del paragraph["words"][-1]["symbols"][-1]["property"]
+        lines = ocr_plugin._paragraph_lines(paragraph)
+        self.assertEqual(len(lines), 3)
+        self.assertEqual(lines[-1]["bbox"], [100, 180, 160, 212])
+
+    def test_blank_words_are_skipped(self):
+        paragraph = json.loads(json.dumps(self.paragraph))
+        blank = json.loads(json.dumps(paragraph["words"][0]))
+        blank["symbols"] = [{"text": " ", "property": {"detectedBreak": {"type": "SPACE"}}}]
+        paragraph["words"].insert(0, blank)
+        lines = ocr_plugin._paragraph_lines(paragraph)
+        self.assertEqual(len(lines[0]["words"]), 2)
+
+
+class BoundingBoxTest(unittest.TestCase):
+    def test_rotated_vertices_are_normalized(self):
+        # 180도 뒤집힌 단어: vertices[0]이 오른쪽 아래
+        box = {"vertices": [{"x": 200, "y": 130}, {"x": 100, "y": 130}, {"x": 100, "y": 100}, {"x": 200, "y": 100}]}
+        self.assertEqual(ocr_plugin._bbox_values(box), [100, 100, 200, 130])
+        self.assertEqual(ocr_plugin._text_angle(box), 180)
+
+    def test_missing_coordinates_default_to_zero(self):
+        box = {"vertices": [{}, {"x": 50}, {"x": 50, "y": 20}, {"y": 20}]}
+        self.assertEqual(ocr_plugin._bbox_values(box), [0, 0, 50, 20])
+        self.assertEqual(ocr_plugin._bbox_values({"vertices": [{"x": 1, "y": 1}]}), [0, 0, 0, 0])
+
+
+class GenerateHocrTest(unittest.TestCase):
+    def setUp(self):
+        self.page = load_page("line_breaks.json")
+
+    def test_lines_words_and_bboxes(self):
+        self.assertEqual(
+            hocr_lines(self.page),
+            [
+                (
+                    "bbox 100 100 290 130; baseline 0.0 0; x_size 30",
+                    [("bbox 100 100 200 130; x_wconf 97", "Vision"), ("bbox 210 100 290 130; x_wconf 97", "recog-")],
+                ),
+                (
+                    "bbox 100 140 280 170; baseline 0.0 0; x_size 30",
+                    [("bbox 100 140 190 170; x_wconf 97", "nition"), ("bbox 200 140 280 170; x_wconf 91", "works")],
+                ),
+                (
+                    "bbox 100 180 160 212; baseline 0.0 0; x_size 32",
+                    [("bbox 100 180 160 212; x_wconf 97", "well")],
+                ),
+                (
+                    "bbox 300 300 480 340; baseline 0.0278 -5; x_size 35",
+                    [("bbox 300 300 400 335; x_wconf 97", "tilted"), ("bbox 410 306 480 340; x_wconf 88", "text")],
+                ),
+            ],
+        )
+
+    def test_page_bbox(self):
+        root = ET.fromstring(ocr_plugin._generate_hocr(self.page, 600, 800))
+        (page,) = [div for div in root.iter(f"{XHTML}div") if div.get("class") == "ocr_page"]
+        self.assertEqual(page.get("title"), "bbox 0 0 600 800; ppageno 0")
+
+    def test_word_text_is_escaped(self):
+        page = json.loads(json.dumps(self.page))
+        page["blocks"][0]["paragraphs"][0]["words"][0]["symbols"][0]["text"] = "<&"
+        lines = hocr_lines(page)
+        self.assertEqual(lines[0][1][0][1], "<&ision")
+
+
+class PageStructureTest(unittest.TestCase):
+    def test_structure_lines_match_hocr(self):
+        page = load_page("line_breaks.json")
+        structure = ocr_plugin._page_structure(page, 600, 800)
+        self.assertEqual((structure["width"], structure["height"]), (600, 800))
+
+        lines = [line for block in structure["blocks"] for paragraph in block["paragraphs"] for line in paragraph["lines"]]
+        self.assertEqual([line["bbox"] for line in lines], [[100, 100, 290, 130], [100, 140, 280, 170], [100, 180, 160, 212], [300, 300, 480, 340]])
+        self.assertEqual([line["fontSize"] for line in lines], [30, 30, 32, 35])
+        self.assertEqual(
+            [[(word["text"], word["bbox"], word["confidence"]) for word in line["words"]] for line in lines][1],
+            [("nition", [100, 140, 190, 170], 0.97), ("works", [200, 140, 280, 170], 0.91)],
+        )
+        self.assertEqual(structure["blocks"][0]["bbox"], [100, 100, 290, 212])
+
+
+if __name__ == "__main__":
+    unittest.main()
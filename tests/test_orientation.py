@@ -0,0 +1,116 @@
+"""
+페이지 방향 판단과 인식 결과 재사용 테스트 (ocr_plugin.py)
+
+--rotate-pages일 때 get_orientation이 원본 PDF 페이지의 인식 결과로 방향을 판단하고,
+generate_hocr가 그 결과를 회전한 페이지 좌표로 바꿔 다시 쓰는지(페이지당 Vision 호출 1번) 확인합니다.
+
+실행: python3 -m unittest discover -s tests
+"""
+
+import os
+import sys
+import tempfile
+import unittest
+from pathlib import Path
+from types import SimpleNamespace
+from unittest import mock
+
+from PIL import Image
+
+ROOT = Path(__file__).resolve().parent.parent
+sys.path.insert(0, str(ROOT))
+
+import ocr_plugin  # noqa: E402
+
+
+def normalized_box(points):
+    return {"normalizedVertices": [{"x": x, "y": y} for x, y in points]}
+
+
+def vertical_annotation():
+    """위에서 아래로 읽히는 단어 하나 (25자, files:annotate처럼 정규화 좌표와 pt 단위 페이지 크기)"""
+    box = normalized_box([(0.5, 0.1), (0.5, 0.6), (0.45, 0.6), (0.45, 0.1)])
+    word = {
+        "boundingBox": box,
+        "symbols": [{"text": "가", "confidence": 0.95} for _ in range(25)],
+    }
+    word["symbols"][-1]["property"] = {"detectedBreak": {"type": "LINE_BREAK"}}
+    paragraph = {"boundingBox": box, "words": [word]}
+    page = {"width": 600, "height": 800, "blocks": [{"boundingBox": box, "paragraphs": [paragraph]}]}
+    return {"fullTextAnnotation": {"text": "가" * 25 + "\n", "pages": [page]}, "context": {"pageNumber": 1}}
+
+
+class OrientationReuseTest(unittest.TestCase):
+    def setUp(self):
+        self.temp = tempfile.TemporaryDirectory()
+        self.addCleanup(self.temp.cleanup)
+        work = Path(self.temp.name)
+        self.env = mock.patch.dict(
+            os.environ,
+            {
+                "OCR_VISION_PREFETCH_DIR": str(work / "vision"),
+                "OCR_PAGE_CACHE_DIR": str(work / "cache"),
+                "OCR_INPUT_SHA256": "0" * 64,
+            },
+        )
+        self.env.start()
+        self.addCleanup(self.env.stop)
+
+        self.options = SimpleNamespace(
+            input_file=str(work / "input.pdf"), languages=["kor"], rotate_pages=True, rotate_pages_threshold=14.0
+        )
+        # 270도 돌린 페이지 이미지 (가로 800, 세로 600)
+        self.page_image = work / "000001_ocr.png"
+        Image.new("L", (800, 600), 255).save(self.page_image)
+        self.preview = work / "000001_rasterize_preview.jpg"
+
+        self.annotate_pdf = mock.patch.object(
+            ocr_plugin, "_annotate_pdf_chunk", return_value={1: vertical_annotation()}
+        ).start()
+        self.annotate_image = mock.patch.object(
+            ocr_plugin, "_annotate_image", side_effect=AssertionError("페이지 이미지를 다시 인식함")
+        ).start()
+        self.addCleanup(mock.patch.stopall)
+
+    def test_orientation_from_pdf_page(self):
+        orientation = ocr_plugin.GoogleVisionOcrEngine.get_orientation(str(self.preview), self.options)
+        self.assertEqual(orientation, (270, 30.0))
+        self.annotate_pdf.assert_called_once_with(self.options.input_file, [1], self.options)
+
+    def test_hocr_reuses_annotation_with_rotated_coordinates(self):
+        ocr_plugin.GoogleVisionOcrEngine.get_orientation(str(self.preview), self.options)
+        annotation = ocr_plugin._load_prefetched(str(self.page_image), self.options)
+
+        word = annotation["fullTextAnnotation"]["pages"][0]["blocks"][0]["paragraphs"][0]["words"][0]
+        self.assertEqual(word["boundingBox"]["vertices"], [{"x": 80, "y": 300}, {"x": 480, "y": 300}, {"x": 480, "y": 330}, {"x": 80, "y": 330}])
+        self.assertEqual(ocr_plugin._text_angle(word["boundingBox"]), 0)
+        self.assertEqual(self.annotate_pdf.call_count, 1)
+        # 다시 쓴 결과는 지움
+        self.assertIsNone(ocr_plugin._read_prefetched(1))
+
+    def test_low_confidence_page_is_not_rotated(self):
+        ocr_plugin.GoogleVisionOcrEngine.get_orientation(str(self.preview), self.options)
+        self.options.rotate_pages_threshold = 31.0
+        Image.new("L", (600, 800), 255).save(self.page_image)
+        annotation = ocr_plugin._load_prefetched(str(self.page_image), self.options)
+
+        word = annotation["fullTextAnnotation"]["pages"][0]["blocks"][0]["paragraphs"][0]["words"][0]
+        self.assertEqual(word["boundingBox"]["vertices"][:2], [{"x": 300, "y": 80}, {"x": 300, "y": 480}])
+
+    def test_stored_orientation_skips_vision_on_retry(self):
+        ocr_plugin.GoogleVisionOcrEngine.get_orientation(str(self.preview), self.options)
+        ocr_plugin._load_prefetched(str(self.page_image), self.options)
+
+        orientation = ocr_plugin.GoogleVisionOcrEngine.get_orientation(str(self.preview), self.options)
+        self.assertEqual(orientation, (270, 30.0))
+        self.assertEqual(self.annotate_pdf.call_count, 1)
+
+    def test_deskew_does_not_reuse_coordinates(self):
+        self.options.deskew = True
+        ocr_plugin.GoogleVisionOcrEngine.get_orientation(str(self.preview), self.options)
+        self.assertIsNone(ocr_plugin._load_prefetched(str(self.page_image), self.options))
+        self.assertIsNone(ocr_plugin._read_prefetched(1))
+
+
+if __name__ == "__main__":
+    unittest.main()
@@ -0,0 +1,99 @@
+"""
+PDF 나누기/합치기 테스트 (pdf_tools.py)
+
+나눈 묶음을 다시 합칠 때 원본의 목차(북마크), 문서 정보, XMP 메타데이터가
+합친 PDF로 옮겨지고, 목차가 같은 순번의 페이지를 가리키는지 확인합니다.
+
+실행: python3 -m unittest discover -s tests
+"""
+
+import json
+import sys
+import tempfile
+import unittest
+from pathlib import Path
+
+import pikepdf
+
+ROOT = Path(__file__).resolve().parent.parent
+sys.path.insert(0, str(ROOT))
+
+import pdf_tools  # noqa: E402
+
+
+def outline_pages(pdf):
+    """목차를 (제목, 페이지 순번, 하위 항목) 목록으로"""
+    page_indexes = pdf_tools._page_indexes(pdf)
+
+    def describe(items):
+        return [(str(item.title), pdf_tools._outline_page(pdf, page_indexes, item), describe(item.children)) for item in items]
+
+    with pdf.open_outline() as outline:
+        return describe(outline.root)
+
+
+class MergeTest(unittest.TestCase):
+    def setUp(self):
+        self.temp = tempfile.TemporaryDirectory()
+        self.addCleanup(self.temp.cleanup)
+        self.dir = Path(self.temp.name)
+
+        # 5페이지 원본: 목차(하위 항목, 이름으로 지정한 목적지 포함), 문서 정보, XMP
+        self.original_path = self.dir / "original.pdf"
+        with pikepdf.new() as original:
+            for _ in range(5):
+                original.add_blank_page(page_size=(200, 300))
+            original.Root.Names = pikepdf.Dictionary(
+                Dests=pikepdf.Dictionary(
+                    Names=pikepdf.Array([pikepdf.String("appendix"), pikepdf.Array([original.pages[4].obj, pikepdf.Name.Fit])])
+                )
+            )
+            with original.open_outline() as outline:
+                chapter = pikepdf.OutlineItem("1장", 0)
+                chapter.children.append(pikepdf.OutlineItem("1.1절", 1))
+                outline.root.extend([chapter, pikepdf.OutlineItem("2장", 3), pikepdf.OutlineItem("부록", pikepdf.String("appendix"))])
+            original.docinfo[pikepdf.Name.Title] = "연간 보고서"
+            original.docinfo[pikepdf.Name.Author] = "기획팀"
+            with original.open_metadata(set_pikepdf_as_editor=False) as metadata:
+                metadata["dc:title"] = "연간 보고서"
+            original.save(self.original_path)
+
+    def split_and_merge(self):
+        chunk_dir = self.dir / "chunks"
+        pdf_tools.split(self.original_path, chunk_dir, 2)
+        manifest = json.loads((chunk_dir / "manifest.json").read_text(encoding="utf-8"))
+        self.assertEqual([chunk["firstPage"] for chunk in manifest["chunks"]], [1, 3, 5])
+
+        output_path = self.dir / "merged.pdf"
+        pdf_tools.merge(output_path, self.original_path, [chunk["path"] for chunk in manifest["chunks"]])
+        return output_path
+
+    def test_outline_points_to_same_pages(self):
+        with pikepdf.open(self.split_and_merge()) as merged:
+            self.assertEqual(len(merged.pages), 5)
+            self.assertEqual(
+                outline_pages(merged),
+                [("1장", 0, [("1.1절", 1, [])]), ("2장", 3, []), ("부록", 4, [])],
+            )
+
+    def test_document_info_and_xmp_are_copied(self):
+        with pikepdf.open(self.split_and_merge()) as merged:
+            self.assertEqual(str(merged.docinfo.Title), "연간 보고서")
+            self.assertEqual(str(merged.docinfo.Author), "기획팀")
+            with merged.open_metadata() as metadata:
+                self.assertEqual(metadata["dc:title"], "연간 보고서")
+
+    def test_outline_is_dropped_when_page_count_differs(self):
+        chunk_dir = self.dir / "chunks"
+        pdf_tools.split(self.original_path, chunk_dir, 2)
+        output_path = self.dir / "partial.pdf"
+        pdf_tools.merge(output_path, self.original_path, [str(chunk_dir / "chunk-0001.pdf")])
+
+        with pikepdf.open(output_path) as merged:
+            self.assertEqual(len(merged.pages), 2)
+            self.assertNotIn("/Outlines", merged.Root)
+            self.assertEqual(str(merged.docinfo.Title), "연간 보고서")
+
+
+if __name__ == "__main__":
+    unittest.main()
@@ -0,0 +1,271 @@
+"""
+Vision API 클라이언트 테스트 (vision_client.py)
+
+localhost에 띄운 http.server로 Vision API 응답을 흉내 내어 429/5xx 백오프, 재시도 소진,
+재시도하지 않는 오류, 토큰 버킷 속도 제한을 확인합니다. 대기는 기록만 하고 실제로 기다리지 않습니다.
+
+실행: python3 -m unittest discover -s tests
+"""
+
+import json
+import sys
+import threading
+import unittest
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from pathlib import Path
+
+ROOT = Path(__file__).resolve().parent.parent
+sys.path.insert(0, str(ROOT))
+
+from vision_client import ApiKeyAuth, TokenBucket, VisionClient, VisionError  # noqa: E402
+
+ANNOTATION = {"fullTextAnnotation": {"text": "안녕하세요\n", "pages": []}}
+
+
+class FakeVisionHandler(BaseHTTPRequestHandler):
+    """경로별로 준비한 응답을 차례로 돌려주고 받은 요청을 기록 (마지막 응답은 반복)"""
+
+    def do_POST(self):
+        length = int(self.headers.get("Content-Length", 0))
+        body = json.loads(self.rfile.read(length) or b"{}")
+        server = self.server
+        with server.lock:
+            server.received.append({"path": self.path, "headers": dict(self.headers), "body": body})
+            queue = server.responses.setdefault(self.path, [])
+            status, headers, payload = queue.pop(0) if len(queue) > 1 else queue[0]
+
+        data = payload if isinstance(payload, bytes) else json.dumps(payload).encode("utf-8")
+        self.send_response(status)
+        self.send_header("Content-Type", "application/json")
+        self.send_header("Content-Length", str(len(data)))
+        for name, value in headers.items():
+            self.send_header(name, value)
+        self.end_headers()
+        self.wfile.write(data)
+
+    def log_message(self, format, *args):
+        pass
+
+
+class FakeClock:
+    """TokenBucket용 가짜 시계: sleep하면 그만큼 시간이 흐름"""
+
+    def __init__(self):
+        self.now = 0.0
+        self.sleeps = []
+
+    def __call__(self):
+        return self.now
+
+    def sleep(self, seconds):
+        self.sleeps.append(seconds)
+        self.now += seconds
+
+
+class VisionServerTestCase(unittest.TestCase):
+    @classmethod
+    def setUpClass(cls):
+        cls.server = ThreadingHTTPServer(("127.0.0.1", 0), FakeVisionHandler)
+        cls.server.lock = threading.Lock()
+        cls.thread = threading.Thread(target=cls.server.serve_forever, daemon=True)
+        cls.thread.start()
+        cls.base_url = f"http://127.0.0.1:{cls.server.server_address[1]}/v1"
+
+    @classmethod
+    def tearDownClass(cls):
+        cls.server.shutdown()
+        cls.server.server_close()
+        cls.thread.join(timeout=5)
+
+    def setUp(self):
+        self.server.responses = {}
+        self.server.received = []
+        self.sleeps = []
+
+    def respond(self, method, *responses):
+        """(상태 코드, 본문) 또는 (상태 코드, 헤더, 본문) 목록"""
+        self.server.responses[f"/v1/{method}"] = [
+            response if len(response) == 3 else (response[0], {}, response[1]) for response in responses
+        ]
+
+    def client(self, max_retries=3, **kwargs):
+        return VisionClient(
+            ApiKeyAuth("test-key"), base_url=self.base_url, max_retries=max_retries, sleep=self.sleeps.append, **kwargs
+        )
+
+    def annotate(self, client=None):
+        return (client or self.client()).annotate_image("aW1hZ2U=", ["ko", "en"], timeout=5)
+
+
+class RetryTest(VisionServerTestCase):
+    def test_success_sends_api_key_header_and_request_body(self):
+        self.respond("images:annotate", (200, {"responses": [ANNOTATION]}))
+        self.assertEqual(self.annotate(), ANNOTATION)
+
+        (request,) = self.server.received
+        self.assertEqual(request["headers"]["X-Goog-Api-Key"], "test-key")
+        (body,) = request["body"]["requests"]
+        self.assertEqual(body["image"], {"content": "aW1hZ2U="})
+        self.assertEqual(body["features"], [{"type": "DOCUMENT_TEXT_DETECTION"}])
+        self.assertEqual(body["imageContext"], {"languageHints": ["ko", "en"]})
+        self.assertEqual(self.sleeps, [])
+
+    def test_429_waits_for_retry_after(self):
+        self.respond(
+            "images:annotate",
+            (429, {"Retry-After": "3"}, {"error": {"code": 429}}),
+            (200, {"responses": [ANNOTATION]}),
+        )
+        self.assertEqual(self.annotate(), ANNOTATION)
+        self.assertEqual(len(self.server.received), 2)
+        self.assertEqual(self.sleeps, [3.0])
+
+    def test_retry_after_is_capped(self):
+        self.respond(
+            "images:annotate",
+            (503, {"Retry-After": "600"}, {}),
+            (200, {"responses": [ANNOTATION]}),
+        )
+        self.annotate()
+        self.assertEqual(self.sleeps, [32.0])
+
+    def test_5xx_backs_off_exponentially_with_jitter(self):
+        self.respond(
+            "images:annotate",
+            (500, {}),
+            (502, {}),
+            (504, {}),
+            (200, {"responses": [ANNOTATION]}),
+        )
+        self.assertEqual(self.annotate(), ANNOTATION)
+        self.assertEqual(len(self.server.received), 4)
+        self.assertEqual(len(self.sleeps), 3)
+        for attempt, delay in enumerate(self.sleeps):
+            self.assertGreaterEqual(delay, 0)
+            self.assertLessEqual(delay, 2 ** attempt)
+
+    def test_retry_exhaustion_raises_last_error(self):
+        self.respond("images:annotate", (503, {}))
+        with self.assertRaises(VisionError) as raised:
+            self.annotate(self.client(max_retries=2))
+
+        self.assertEqual(raised.exception.code, "VISION_API_ERROR")
+        self.assertTrue(raised.exception.retryable)
+        self.assertIn("503", str(raised.exception))
+        self.assertEqual(len(self.server.received), 3)
+        self.assertEqual(len(self.sleeps), 2)
+
+    def test_quota_exhaustion_is_reported_as_quota_exceeded(self):
+        self.respond("images:annotate", (429, {"Retry-After": "1"}, {}))
+        with self.assertRaises(VisionError) as raised:
+            self.annotate(self.client(max_retries=1))
+
+        self.assertEqual(raised.exception.code, "QUOTA_EXCEEDED")
+        self.assertEqual(len(self.server.received), 2)
+        self.assertEqual(self.sleeps, [1.0])
+
+    def test_client_errors_are_not_retried(self):
+        for status, code in ((400, "VISION_API_ERROR"), (401, "ENGINE_UNAVAILABLE"), (403, "ENGINE_UNAVAILABLE")):
+            with self.subTest(status=status):
+                self.server.received = []
+                self.respond("images:annotate", (status, {"error": {"code": status}}))
+                with self.assertRaises(VisionError) as raised:
+                    self.annotate()
+                self.assertEqual(raised.exception.code, code)
+                self.assertFalse(raised.exception.retryable)
+                self.assertEqual(len(self.server.received), 1)
+        self.assertEqual(self.sleeps, [])
+
+    def test_non_json_response_is_retried(self):
+        self.respond("images:annotate", (200, b"<html>proxy</html>"), (200, {"responses": [ANNOTATION]}))
+        self.assertEqual(self.annotate(), ANNOTATION)
+        self.assertEqual(len(self.server.received), 2)
+
+    def test_retryable_rpc_error_in_body(self):
+        # 200 응답이어도 본문의 error.code가 RESOURCE_EXHAUSTED(8), UNAVAILABLE(14)이면 재시도
+        self.respond(
+            "images:annotate",
+            (200, {"responses": [{"error": {"code": 8, "message": "quota"}}]}),
+            (200, {"responses": [{"error": {"code": 14, "message": "unavailable"}}]}),
+            (200, {"responses": [ANNOTATION]}),
+        )
+        self.assertEqual(self.annotate(), ANNOTATION)
+        self.assertEqual(len(self.server.received), 3)
+
+    def test_permanent_rpc_error_in_body(self):
+        self.respond("images:annotate", (200, {"responses": [{"error": {"code": 3, "message": "Bad image data"}}]}))
+        with self.assertRaises(VisionError) as raised:
+            self.annotate()
+        self.assertEqual(raised.exception.code, "VISION_API_ERROR")
+        self.assertIn("Bad image data", str(raised.exception))
+        self.assertEqual(len(self.server.received), 1)
+
+    def test_connection_failure_is_retried_then_reported(self):
+        client = VisionClient(
+            ApiKeyAuth("test-key"), base_url="http://127.0.0.1:9/v1", max_retries=1, sleep=self.sleeps.append
+        )
+        with self.assertRaises(VisionError) as raised:
+            self.annotate(client)
+        self.assertEqual(raised.exception.code, "VISION_API_ERROR")
+        self.assertEqual(len(self.sleeps), 1)
+
+
+class AnnotateFileTest(VisionServerTestCase):
+    def test_page_errors_are_returned_with_page_responses(self):
+        pages = [
+            {**ANNOTATION, "context": {"pageNumber": 1}},
+            {"error": {"code": 3, "message": "page error"}, "context": {"pageNumber": 2}},
+        ]
+        self.respond("files:annotate", (503, {}), (200, {"responses": [{"responses": pages}]}))
+
+        result = self.client().annotate_file("cGRm", [1, 2], ["ko"], timeout=5)
+        self.assertEqual(result, pages)
+        self.assertEqual(len(self.server.received), 2)
+        (body,) = self.server.received[-1]["body"]["requests"]
+        self.assertEqual(body["inputConfig"], {"content": "cGRm", "mimeType": "application/pdf"})
+        self.assertEqual(body["pages"], [1, 2])
+
+
+class TokenBucketTest(VisionServerTestCase):
+    def test_burst_then_refill_rate(self):
+        # 분당 60개: 초당 1개씩 채워지고 최대 6개까지 쌓임
+        clock = FakeClock()
+        bucket = TokenBucket(60, clock=clock, sleep=clock.sleep)
+        for _ in range(6):
+            bucket.acquire()
+        self.assertEqual(clock.sleeps, [])
+
+        bucket.acquire()
+        bucket.acquire()
+        self.assertEqual(clock.sleeps, [1.0, 1.0])
+
+        clock.now += 10
+        for _ in range(6):
+            bucket.acquire()
+        self.assertEqual(len(clock.sleeps), 2)
+
+    def test_every_attempt_takes_a_token(self):
+        # 재시도도 요청이므로 토큰을 씀: 버스트 1개, 분당 30개(2초에 1개)
+        clock = FakeClock()
+        client = self.client(requests_per_minute=30)
+        client.bucket = TokenBucket(30, burst=1, clock=clock, sleep=clock.sleep)
+        self.respond("images:annotate", (503, {"Retry-After": "0"}, {}), (200, {"responses": [ANNOTATION]}))
+
+        self.assertEqual(self.annotate(client), ANNOTATION)
+        self.assertEqual(self.sleeps, [0.0])
+        self.assertEqual(clock.sleeps, [2.0])
+
+    def test_shared_bucket_limits_concurrent_threads(self):
+        clock = FakeClock()
+        bucket = TokenBucket(60, burst=2, clock=clock, sleep=clock.sleep)
+        threads = [threading.Thread(target=bucket.acquire) for _ in range(2)]
+        for thread in threads:
+            thread.start()
+        for thread in threads:
+            thread.join(timeout=5)
+        self.assertEqual(clock.sleeps, [])
+        self.assertLess(bucket.tokens, 1)
+
+
+if __name__ == "__main__":
+    unittest.main()
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { existsSync } from 'node:fs'
+import { test } from 'node:test'
+import { OcrError } from '../app/lib/errors'
+import { setupTest } from './helpers'
+
+// 이어 올리기 한도: 키별 진행 중인 업로드 수와 서버 전체의 업로드 크기 합계
+const { modules } = setupTest({
+  env: (dir) => ({ OCR_JOBS_DIR: dir, OCR_UPLOAD_SESSIONS_PER_KEY: '2', OCR_UPLOAD_RESERVED_MB: '10' }),
+  load: () => import('../app/lib/uploadSessions'),
+})
+
+const MB = 1024 * 1024
+
+test('키마다 진행 중인 업로드 수를 넘으면 TOO_MANY_UPLOADS, 끝내면 다시 시작 가능', async () => {
+  const { UploadLimitError, createUploadSession, deleteUploadSession } = await modules()
+  const first = await createUploadSession('a.pdf', MB, 'client')
+  await createUploadSession('b.pdf', MB, 'client')
+
+  await assert.rejects(createUploadSession('c.pdf', MB, 'client'), (error) => {
+    assert.ok(error instanceof UploadLimitError)
+    assert.equal(error.code, 'TOO_MANY_UPLOADS')
+    assert.ok(error.retryAfterSeconds > 0)
+    return true
+  })
+  // 다른 키는 따로 셈
+  const other = await createUploadSession('d.pdf', MB, 'other')
+
+  await deleteUploadSession(first)
+  await createUploadSession('c.pdf', MB, 'client')
+  await deleteUploadSession(other)
+})
+
+test('동시에 들어온 요청도 전체 크기 합계를 넘지 않음', async () => {
+  const { UploadLimitError, createUploadSession } = await modules()
+  // 앞 테스트의 2MB가 남아 있으므로 8MB까지
+  const results = await Promise.allSettled([
+    createUploadSession('e.pdf', 5 * MB, 'a'),
+    createUploadSession('f.pdf', 5 * MB, 'b'),
+  ])
+  assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1)
+  const rejected = results.find((result) => result.status === 'rejected')
+  assert.ok(rejected?.status === 'rejected' && rejected.reason instanceof UploadLimitError)
+})
+
+test('조각을 받는 중에는 취소할 수 없고, 받기가 끝나면 취소됨', async () => {
+  const { appendUploadChunk, cancelUploadSession, createUploadSession, getUploadSession } = await modules()
+  const session = await createUploadSession('g.pdf', 8, 'cancel')
+
+  // 조각 본문을 다 보내기 전까지 appendUploadChunk가 세션을 잡고 있음
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  const body = new ReadableStream<Uint8Array>({ start: (c) => void (controller = c) })
+  const appending = appendUploadChunk(session, 0, body)
+  controller.enqueue(new Uint8Array(4))
+
+  await assert.rejects(cancelUploadSession(session), (error) => {
+    assert.ok(error instanceof OcrError)
+    assert.equal(error.code, 'UPLOAD_OFFSET_MISMATCH')
+    return true
+  })
+  assert.equal(getUploadSession(session.id), session)
+
+  controller.close()
+  assert.equal(await appending, 4)
+  assert.ok(existsSync(session.path))
+
+  await cancelUploadSession(session)
+  assert.equal(getUploadSession(session.id), undefined)
+  assert.ok(!existsSync(session.path))
+})
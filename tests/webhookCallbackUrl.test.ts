@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { setupTest } from './helpers'
+
+// 허용 목록 없이 callbackUrl 검증: 내부망 주소로 풀리는 호스트는 거절 (SSRF 방지)
+const { modules } = setupTest({
+  env: () => ({ OCR_WEBHOOK_SECRET: 'test-secret', OCR_WEBHOOK_ALLOWED_HOSTS: undefined }),
+  load: () => import('../app/lib/webhooks'),
+})
+
+test('루프백, 사설망, 링크 로컬 주소는 거절', async () => {
+  const { parseCallbackUrl } = await modules()
+  for (const url of [
+    'http://127.0.0.1:3000/hook',
+    'http://localhost/hook',
+    'http://10.1.2.3/hook',
+    'http://172.20.0.1/hook',
+    'http://192.168.0.10/hook',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://[fd00::1]/hook',
+    'http://0.0.0.0/hook',
+  ]) {
+    await assert.rejects(parseCallbackUrl(url), { code: 'INVALID_REQUEST' }, url)
+  }
+})
+
+test('공인 IP 주소는 허용', async () => {
+  const { parseCallbackUrl } = await modules()
+  assert.equal(await parseCallbackUrl('https://93.184.215.14/hook?x=1'), 'https://93.184.215.14/hook?x=1')
+  assert.equal(await parseCallbackUrl('http://[2606:4700::1111]/hook'), 'http://[2606:4700::1111]/hook')
+})
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict'
+import { createHmac } from 'node:crypto'
+import { IncomingMessage, Server, createServer } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { after, before, test } from 'node:test'
+import type { OcrWebhookPayload } from '../app/types'
+import { setupTest } from './helpers'
+
+// 작업 완료 알림 전송: 로컬 HTTP 서버로 받아 서명 헤더, 재시도, 본문을 확인
+const { modules } = setupTest({
+  env: () => ({
+    OCR_WEBHOOK_SECRET: 'test-secret',
+    OCR_WEBHOOK_ALLOWED_HOSTS: '127.0.0.1',
+    OCR_WEBHOOK_MAX_ATTEMPTS: '3',
+    OCR_WEBHOOK_RETRY_BASE_SECONDS: '0.01',
+  }),
+  load: () => import('../app/lib/webhooks'),
+})
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers']
+  body: string
+}
+
+let server: Server
+let baseUrl: string
+const received = new Map<string, ReceivedRequest[]>()
+// 경로별 응답 상태 코드 (차례로 쓰고 마지막 값을 반복)
+const statuses = new Map<string, number[]>()
+
+before(async () => {
+  server = createServer((request, response) => {
+    const chunks: Buffer[] = []
+    request.on('data', (chunk: Buffer) => chunks.push(chunk))
+    request.on('end', () => {
+      const path = request.url ?? '/'
+      const requests = received.get(path) ?? []
+      requests.push({ headers: request.headers, body: Buffer.concat(chunks).toString('utf8') })
+      received.set(path, requests)
+
+      const codes = statuses.get(path) ?? [200]
+      response.statusCode = codes[Math.min(requests.length, codes.length) - 1]
+      response.end('ok')
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+  server.close()
+})
+
+function payload(jobId: string): OcrWebhookPayload {
+  return {
+    event: 'job.completed',
+    deliveryId: '',
+    jobId,
+    state: 'done',
+    originalFileName: '계약서.pdf',
+    outputFileName: '계약서_OCR.pdf',
+    pageCount: 3,
+    errorCode: null,
+    error: null,
+    downloadUrl: `https://ocr.example.com/api/ocr/jobs/${jobId}/result`,
+    finishedAt: 1760000000000,
+    expiresAt: 1760003600000,
+  }
+}
+
+async function deliver(path: string, codes: number[]) {
+  const { createWebhookDelivery, startWebhookDelivery, parseCallbackUrl } = await modules()
+  statuses.set(path, codes)
+  const delivery = createWebhookDelivery(await parseCallbackUrl(`${baseUrl}${path}`), 'https://ocr.example.com')
+  const body = { ...payload(path.slice(1)), deliveryId: delivery.deliveryId }
+  startWebhookDelivery(delivery, body)
+
+  const deadline = Date.now() + 5000
+  while (delivery.state === 'waiting' || delivery.state === 'retrying') {
+    assert.ok(Date.now() < deadline, '전송이 끝나지 않음')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  return { delivery, body, requests: received.get(path) ?? [] }
+}
+
+test('서명한 본문을 보내고 5xx면 다시 보냄', async () => {
+  const { delivery, body, requests } = await deliver('/retry', [503, 200])
+
+  assert.equal(delivery.state, 'delivered')
+  assert.deepEqual(delivery.attempts.map((attempt) => attempt.status), [503, 200])
+  assert.equal(delivery.attempts[0].error, 'HTTP 503')
+  assert.equal(requests.length, 2)
+
+  for (const { headers, body: raw } of requests) {
+    assert.deepEqual(JSON.parse(raw), body)
+    assert.equal(headers['content-type'], 'application/json')
+    assert.equal(headers['x-ocr-event'], 'job.completed')
+    assert.equal(headers['x-ocr-delivery'], delivery.deliveryId)
+
+    const timestamp = headers['x-ocr-timestamp'] as string
+    assert.match(timestamp, /^\d+$/)
+    const expected = createHmac('sha256', 'test-secret').update(`${timestamp}.${raw}`).digest('hex')
+    assert.equal(headers['x-ocr-signature'], `sha256=${expected}`)
+  }
+})
+
+test('재시도를 모두 쓰면 failed', async () => {
+  const { delivery, requests } = await deliver('/down', [500])
+
+  assert.equal(delivery.state, 'failed')
+  assert.equal(requests.length, 3)
+  assert.equal(delivery.nextAttemptAt, undefined)
+})
+
+test('408, 429를 뺀 4xx는 다시 보내지 않음', async () => {
+  const { delivery, requests } = await deliver('/gone', [410])
+  assert.equal(delivery.state, 'failed')
+  assert.equal(requests.length, 1)
+
+  const throttled = await deliver('/throttled', [429, 204])
+  assert.equal(throttled.delivery.state, 'delivered')
+  assert.equal(throttled.requests.length, 2)
+})
+
+test('허용 목록에 없는 호스트는 거절', async () => {
+  const { parseCallbackUrl } = await modules()
+  await assert.rejects(parseCallbackUrl('http://example.com/hook'), { code: 'INVALID_REQUEST' })
+  await assert.rejects(parseCallbackUrl('ftp://127.0.0.1/hook'), { code: 'INVALID_REQUEST' })
+})
+
+test('연결할 때 내부망 주소로 풀리는 호스트에는 보내지 않음', async () => {
+  const { createWebhookDelivery, startWebhookDelivery } = await modules()
+  const port = (server.address() as AddressInfo).port
+  // 검증 뒤 DNS 응답이 바뀐 경우: 허용 목록에 없는 localhost로 바로 전송 시도
+  const delivery = createWebhookDelivery(`http://localhost:${port}/rebind`, 'https://ocr.example.com')
+  startWebhookDelivery(delivery, { ...payload('rebind'), deliveryId: delivery.deliveryId })
+
+  while (delivery.state === 'waiting' || delivery.state === 'retrying') {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  assert.equal(delivery.state, 'failed')
+  assert.match(delivery.attempts[0].error ?? '', /내부 네트워크 주소/)
+  assert.equal(received.get('/rebind'), undefined)
+})
@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict'
+import { unlinkSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { test } from 'node:test'
+import { crc32 } from 'node:zlib'
+import type { OpenZipEntry } from '../app/lib/zip'
+import { setupTest } from './helpers'
+
+// ZIP 작성기: 압축 파일 안 경로 정리(zip-slip), 헤더 필드, 4GB를 넘을 때의 ZIP64 필드
+const { dir, modules } = setupTest({ load: () => import('../app/lib/zip') })
+
+const FOUR_GB = 2 ** 32
+const MODIFIED = { time: 0, date: 0 }
+
+interface ParsedEntry {
+  name: string
+  crc: number
+  size: number
+  offset: number
+  data: Buffer
+}
+
+// 중앙 디렉터리를 읽고 각 항목의 로컬 헤더와 내용을 확인 (ZIP64가 아닌 작은 압축 파일)
+function parseZip(zip: Buffer): ParsedEntry[] {
+  const end = zip.length - 22
+  assert.equal(zip.readUInt32LE(end), 0x06054b50)
+  const count = zip.readUInt16LE(end + 10)
+  let position = zip.readUInt32LE(end + 16)
+  assert.equal(position + zip.readUInt32LE(end + 12), end)
+
+  const entries: ParsedEntry[] = []
+  for (let index = 0; index < count; index++) {
+    assert.equal(zip.readUInt32LE(position), 0x02014b50)
+    assert.equal(zip.readUInt16LE(position + 8) & 0x0800, 0x0800, 'UTF-8 플래그')
+    const crc = zip.readUInt32LE(position + 16)
+    const size = zip.readUInt32LE(position + 24)
+    const nameLength = zip.readUInt16LE(position + 28)
+    const extraLength = zip.readUInt16LE(position + 30)
+    const offset = zip.readUInt32LE(position + 42)
+    const name = zip.subarray(position + 46, position + 46 + nameLength).toString('utf8')
+    position += 46 + nameLength + extraLength
+
+    assert.equal(zip.readUInt32LE(offset), 0x04034b50)
+    assert.equal(zip.readUInt16LE(offset + 8), 0, 'stored')
+    assert.equal(zip.readUInt32LE(offset + 14), crc)
+    assert.equal(zip.readUInt32LE(offset + 18), size)
+    assert.equal(zip.readUInt32LE(offset + 22), size)
+    const localNameLength = zip.readUInt16LE(offset + 26)
+    assert.equal(zip.subarray(offset + 30, offset + 30 + localNameLength).toString('utf8'), name)
+    const dataStart = offset + 30 + localNameLength + zip.readUInt16LE(offset + 28)
+    entries.push({ name, crc, size, offset, data: zip.subarray(dataStart, dataStart + size) })
+  }
+  return entries
+}
+
+async function buildZip(entries: OpenZipEntry[]) {
+  const { zipStream } = await modules()
+  const chunks: Buffer[] = []
+  for await (const chunk of zipStream(entries)) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+test('압축 파일 밖을 가리키는 경로와 제어 문자를 정리', async () => {
+  const { zipEntryName } = await modules()
+  const cases: [string, string][] = [
+    ['보고서_OCR.pdf', '보고서_OCR.pdf'],
+    ['../../etc/passwd', 'etc/passwd'],
+    ['a/../../b.pdf', 'a/b.pdf'],
+    ['/etc/passwd', 'etc/passwd'],
+    ['C:\\Windows\\system.ini', 'Windows/system.ini'],
+    ['..\\..\\evil.pdf', 'evil.pdf'],
+    ['dir\\.\\file.pdf', 'dir/file.pdf'],
+    ['a\u0000b\u001f\u007fc.pdf', 'abc.pdf'],
+    ['line\r\nbreak.pdf', 'linebreak.pdf'],
+    ['  spaced / name.pdf ', 'spaced/name.pdf'],
+    ['', 'file'],
+    ['../..', 'file'],
+    ['//', 'file'],
+  ]
+  for (const [input, expected] of cases) {
+    assert.equal(zipEntryName(input), expected, JSON.stringify(input))
+  }
+})
+
+test('작은 압축 파일의 로컬 헤더와 중앙 디렉터리', async () => {
+  const { openZipEntries } = await modules()
+  const pdfPath = path.join(dir, 'result.pdf')
+  writeFileSync(pdfPath, '%PDF-1.4 결과')
+  const emptyPath = path.join(dir, 'empty.txt')
+  writeFileSync(emptyPath, '')
+
+  const { entries, missing } = await openZipEntries([
+    { name: 'manifest.csv', data: Buffer.from('jobId\r\n') },
+    { name: '../결과.pdf', path: pdfPath },
+    { name: 'empty.txt', path: emptyPath },
+    { name: 'gone.txt', path: path.join(dir, 'missing.txt') },
+  ])
+  assert.deepEqual(missing.map((entry) => entry.name), ['gone.txt'])
+
+  const parsed = parseZip(await buildZip(entries))
+  assert.deepEqual(parsed.map((entry) => entry.name), ['manifest.csv', '결과.pdf', 'empty.txt'])
+  assert.equal(parsed[0].offset, 0)
+  assert.equal(parsed[1].data.toString('utf8'), '%PDF-1.4 결과')
+  assert.equal(parsed[1].crc, crc32(Buffer.from('%PDF-1.4 결과')))
+  assert.equal(parsed[2].size, 0)
+})
+
+test('열어 둔 파일은 지워져도 내용을 그대로 씀', async () => {
+  const { openZipEntries } = await modules()
+  const filePath = path.join(dir, 'expiring.txt')
+  writeFileSync(filePath, '보관 기간 끝')
+
+  const { entries } = await openZipEntries([{ name: 'expiring.txt', path: filePath }])
+  unlinkSync(filePath)
+
+  const [entry] = parseZip(await buildZip(entries))
+  assert.equal(entry.data.toString('utf8'), '보관 기간 끝')
+})
+
+test('4GB를 넘는 크기는 ZIP64 확장 필드에 기록', async () => {
+  const { localHeader, centralHeader } = await modules()
+  const name = Buffer.from('big.pdf')
+  const size = FOUR_GB + 10
+
+  const local = localHeader(name, 0x1234, size, MODIFIED)
+  assert.equal(local.readUInt16LE(4), 45)
+  assert.equal(local.readUInt32LE(18), 0xffffffff)
+  assert.equal(local.readUInt32LE(22), 0xffffffff)
+  assert.equal(local.readUInt16LE(28), 20)
+  const localExtra = local.subarray(30 + name.length)
+  assert.equal(localExtra.readUInt16LE(0), 0x0001)
+  assert.equal(localExtra.readUInt16LE(2), 16)
+  assert.equal(localExtra.readBigUInt64LE(4), BigInt(size))
+  assert.equal(localExtra.readBigUInt64LE(12), BigInt(size))
+
+  // 크기는 작고 위치만 4GB를 넘으면 확장 필드에는 위치만
+  const offsetOnly = centralHeader(name, 0x1234, 100, MODIFIED, FOUR_GB + 5)
+  assert.equal(offsetOnly.readUInt32LE(24), 100)
+  assert.equal(offsetOnly.readUInt32LE(42), 0xffffffff)
+  const offsetExtra = offsetOnly.subarray(46 + name.length)
+  assert.equal(offsetExtra.readUInt16LE(2), 8)
+  assert.equal(offsetExtra.readBigUInt64LE(4), BigInt(FOUR_GB + 5))
+
+  const both = centralHeader(name, 0x1234, size, MODIFIED, FOUR_GB + 5)
+  assert.equal(both.readUInt16LE(4), 45)
+  const bothExtra = both.subarray(46 + name.length)
+  assert.equal(bothExtra.readUInt16LE(2), 24)
+  assert.deepEqual(
+    [bothExtra.readBigUInt64LE(4), bothExtra.readBigUInt64LE(12), bothExtra.readBigUInt64LE(20)],
+    [BigInt(size), BigInt(size), BigInt(FOUR_GB + 5)]
+  )
+
+  const small = localHeader(name, 0x1234, 100, MODIFIED)
+  assert.equal(small.readUInt16LE(4), 20)
+  assert.equal(small.readUInt16LE(28), 0)
+})
+
+test('중앙 디렉터리 위치가 4GB를 넘거나 항목이 65535개 이상이면 ZIP64 끝 레코드', async () => {
+  const { endOfCentralDirectory } = await modules()
+
+  const plain = endOfCentralDirectory(3, 200, 1000)
+  assert.equal(plain.length, 22)
+  assert.equal(plain.readUInt32LE(0), 0x06054b50)
+  assert.equal(plain.readUInt16LE(10), 3)
+  assert.equal(plain.readUInt32LE(12), 200)
+  assert.equal(plain.readUInt32LE(16), 1000)
+
+  for (const [count, size, offset] of [[3, 200, FOUR_GB + 1], [70000, 200, 1000]]) {
+    const record = endOfCentralDirectory(count, size, offset)
+    assert.equal(record.length, 56 + 20 + 22)
+    assert.equal(record.readUInt32LE(0), 0x06064b50)
+    assert.equal(record.readBigUInt64LE(4), BigInt(44))
+    assert.equal(record.readBigUInt64LE(32), BigInt(count))
+    assert.equal(record.readBigUInt64LE(40), BigInt(size))
+    assert.equal(record.readBigUInt64LE(48), BigInt(offset))
+
+    const locator = record.subarray(56)
+    assert.equal(locator.readUInt32LE(0), 0x07064b50)
+    assert.equal(locator.readBigUInt64LE(8), BigInt(offset + size))
+
+    const end = record.subarray(76)
+    assert.equal(end.readUInt32LE(0), 0x06054b50)
+    assert.equal(end.readUInt16LE(10), 0xffff)
+    assert.equal(end.readUInt32LE(12), 0xffffffff)
+    assert.equal(end.readUInt32LE(16), 0xffffffff)
+  }
+})
@@ -0,0 +1,290 @@
+"""
+Google Cloud Vision API 클라이언트
+ocr_plugin.py가 페이지 인식(images:annotate)과 일괄 인식(files:annotate)에 사용합니다.
+- 기본 URL은 GOOGLE_VISION_ENDPOINT (지역 엔드포인트, 프록시, 테스트용 가짜 서버)
+- 인증은 API 키(헤더), OAuth 액세스 토큰, 서비스 계정 JSON 중 GOOGLE_VISION_AUTH로 선택
+- 429, 5xx, 네트워크 오류는 지수 백오프 + 지터로 재시도 (Retry-After 헤더 우선)
+- 토큰 버킷으로 분당 요청 수 제한 (일괄 인식의 여러 스레드가 함께 사용)
+- 실패는 서버 오류 코드(app/types/errors.ts)로 분류한 VisionError로 알림
+"""
+
+import os
+import random
+import threading
+import time
+
+import requests
+
+VISION_BASE_URL = "https://vision.googleapis.com/v1"
+VISION_SCOPES = ["https://www.googleapis.com/auth/cloud-vision"]
+
+# 재시도할 HTTP 상태 코드
+RETRYABLE_STATUS = {429, 500, 502, 503, 504}
+
+# 응답 본문의 오류 상태 코드 (google.rpc.Code)
+RPC_DEADLINE_EXCEEDED = 4
+RPC_RESOURCE_EXHAUSTED = 8
+RPC_UNAVAILABLE = 14
+RETRYABLE_RPC_CODES = {RPC_DEADLINE_EXCEEDED, RPC_RESOURCE_EXHAUSTED, RPC_UNAVAILABLE}
+
+BACKOFF_BASE_SECONDS = 1.0
+BACKOFF_MAX_SECONDS = 32.0
+
+
+class VisionError(Exception):
+    """Vision API 호출 실패
+
+    code: 서버 오류 코드 (QUOTA_EXCEEDED, VISION_API_ERROR, ENGINE_UNAVAILABLE)
+    retryable: 잠시 후 같은 요청을 다시 보내면 성공할 수 있는지
+    retry_after: 서버가 알려준 대기 시간 (초)
+    """
+
+    def __init__(self, code, message, retryable=False, retry_after=None):
+        super().__init__(message)
+        self.code = code
+        self.retryable = retryable
+        self.retry_after = retry_after
+
+
+class TokenBucket:
+    """분당 요청 수 제한 (초당 rate/60개씩 채워지고 최대 burst개까지 쌓임)"""
+
+    def __init__(self, requests_per_minute, burst=None, clock=time.monotonic, sleep=time.sleep):
+        self.rate = requests_per_minute / 60.0
+        self.capacity = float(burst or max(1, min(requests_per_minute // 10, 10)))
+        self.tokens = self.capacity
+        self.clock = clock
+        self.sleep = sleep
+        self.updated = clock()
+        self.lock = threading.Lock()
+
+    def acquire(self):
+        while True:
+            with self.lock:
+                now = self.clock()
+                self.tokens = min(self.capacity, self.tokens + (now - self.updated) * self.rate)
+                self.updated = now
+                if self.tokens >= 1:
+                    self.tokens -= 1
+                    return
+                wait = (1 - self.tokens) / self.rate
+            self.sleep(wait)
+
+
+class ApiKeyAuth:
+    """API 키 (URL에 남지 않도록 X-Goog-Api-Key 헤더로 전달)"""
+
+    def __init__(self, api_key):
+        self.api_key = api_key
+
+    def headers(self):
+        return {"X-Goog-Api-Key": self.api_key}
+
+
+class BearerTokenAuth:
+    """외부에서 발급한 OAuth 액세스 토큰 (갱신하지 않음)"""
+
+    def __init__(self, token):
+        self.token = token
+
+    def headers(self):
+        return {"Authorization": f"Bearer {self.token}"}
+
+
+class ServiceAccountAuth:
+    """서비스 계정 JSON으로 액세스 토큰을 발급해 사용 (만료되면 다시 발급)"""
+
+    def __init__(self, credentials_file):
+        from google.oauth2 import service_account
+
+        try:
+            self.credentials = service_account.Credentials.from_service_account_file(
+                credentials_file, scopes=VISION_SCOPES
+            )
+        except (OSError, ValueError) as error:
+            raise VisionError("ENGINE_UNAVAILABLE", f"서비스 계정 파일을 읽을 수 없습니다: {error}")
+        self.lock = threading.Lock()
+
+    def headers(self):
+        from google.auth import exceptions
+        from google.auth.transport.requests import Request
+
+        with self.lock:
+            if not self.credentials.valid:
+                try:
+                    self.credentials.refresh(Request())
+                except exceptions.TransportError as error:
+                    raise VisionError("VISION_API_ERROR", f"액세스 토큰 발급 실패: {error}", retryable=True)
+                except exceptions.RefreshError as error:
+                    raise VisionError("ENGINE_UNAVAILABLE", f"서비스 계정 인증 실패: {error}")
+            return {"Authorization": f"Bearer {self.credentials.token}"}
+
+
+def auth_mode():
+    """사용할 인증 방식 (GOOGLE_VISION_AUTH, 없으면 API 키 → 액세스 토큰 → 서비스 계정 순으로 추론)"""
+    mode = os.environ.get("GOOGLE_VISION_AUTH")
+    if mode:
+        return mode
+    if os.environ.get("GOOGLE_VISION_API_KEY"):
+        return "api-key"
+    if os.environ.get("GOOGLE_VISION_ACCESS_TOKEN"):
+        return "bearer"
+    if os.environ.get("GOOGLE_APPLICATION_CREDENTIALS"):
+        return "service-account"
+    return None
+
+
+def auth_from_env():
+    mode = auth_mode()
+    values = {
+        "api-key": ("GOOGLE_VISION_API_KEY", ApiKeyAuth),
+        "bearer": ("GOOGLE_VISION_ACCESS_TOKEN", BearerTokenAuth),
+        "service-account": ("GOOGLE_APPLICATION_CREDENTIALS", ServiceAccountAuth),
+    }
+    if mode not in values:
+        raise VisionError("ENGINE_UNAVAILABLE", "Vision API 인증 정보가 설정되지 않았습니다")
+
+    name, auth_class = values[mode]
+    value = os.environ.get(name)
+    if not value:
+        raise VisionError("ENGINE_UNAVAILABLE", f"{name} 환경변수가 설정되지 않았습니다")
+    return auth_class(value)
+
+
+class VisionClient:
+    def __init__(
+        self,
+        auth,
+        base_url=VISION_BASE_URL,
+        max_retries=5,
+        requests_per_minute=0,
+        sleep=time.sleep,
+    ):
+        self.auth = auth
+        self.base_url = base_url.rstrip("/")
+        self.max_retries = max_retries
+        self.bucket = TokenBucket(requests_per_minute, sleep=sleep) if requests_per_minute > 0 else None
+        self.sleep = sleep
+
+    @classmethod
+    def from_env(cls):
+        """환경변수로 생성 (엔드포인트, 인증 방식, 속도 제한, 재시도 횟수는 Node 서버가 작업마다 전달)"""
+        return cls(
+            auth_from_env(),
+            base_url=os.environ.get("GOOGLE_VISION_ENDPOINT") or VISION_BASE_URL,
+            max_retries=_read_int_env("OCR_VISION_MAX_RETRIES", 5),
+            requests_per_minute=_read_int_env("OCR_VISION_PROCESS_RATE_LIMIT", 0),
+        )
+
+    def annotate_image(self, image_content, language_hints, timeout=120):
+        """이미지 한 장 인식 → AnnotateImageResponse"""
+        body = {
+            "requests": [
+                {
+                    "image": {"content": image_content},
+                    "features": [{"type": "DOCUMENT_TEXT_DETECTION"}],
+                    "imageContext": {"languageHints": language_hints},
+                }
+            ]
+        }
+
+        def extract(result):
+            annotation = result.get("responses", [{}])[0]
+            if "error" in annotation:
+                raise _rpc_error(annotation["error"])
+            return annotation
+
+        return self._call("images:annotate", body, extract, timeout)
+
+    def annotate_file(self, pdf_content, pages, language_hints, timeout=300):
+        """PDF의 페이지(최대 5쪽) 인식 → 페이지별 AnnotateImageResponse 목록 (페이지별 오류는 그대로 포함)"""
+        body = {
+            "requests": [
+                {
+                    "inputConfig": {"content": pdf_content, "mimeType": "application/pdf"},
+                    "features": [{"type": "DOCUMENT_TEXT_DETECTION"}],
+                    "imageContext": {"languageHints": language_hints},
+                    "pages": pages,
+                }
+            ]
+        }
+
+        def extract(result):
+            file_response = result.get("responses", [{}])[0]
+            if "error" in file_response:
+                raise _rpc_error(file_response["error"])
+            return file_response.get("responses", [])
+
+        return self._call("files:annotate", body, extract, timeout)
+
+    def _call(self, method, body, extract, timeout):
+        """요청을 보내고 재시도할 수 있는 실패는 백오프 후 다시 시도"""
+        attempt = 0
+        while True:
+            if self.bucket:
+                self.bucket.acquire()
+            try:
+                return extract(self._post(method, body, timeout))
+            except VisionError as error:
+                if not error.retryable or attempt >= self.max_retries:
+                    raise
+                delay = self._backoff(attempt, error.retry_after)
+            attempt += 1
+            self.sleep(delay)
+
+    def _post(self, method, body, timeout):
+        headers = self.auth.headers()
+        try:
+            response = requests.post(
+                f"{self.base_url}/{method}",
+                headers=headers,
+                json=body,
+                timeout=timeout,
+            )
+        except requests.RequestException as error:
+            raise VisionError("VISION_API_ERROR", f"Vision API 연결 실패: {error}", retryable=True)
+
+        if response.ok:
+            try:
+                return response.json()
+            except ValueError:
+                raise VisionError("VISION_API_ERROR", "Vision API 응답이 JSON이 아닙니다", retryable=True)
+
+        retry_after = _retry_after_seconds(response)
+        if response.status_code == 429:
+            raise VisionError("QUOTA_EXCEEDED", "Vision API 요청 한도 초과 (429)", True, retry_after)
+        if response.status_code in (401, 403):
+            raise VisionError("ENGINE_UNAVAILABLE", f"Vision API 인증 실패 ({response.status_code})")
+        retryable = response.status_code in RETRYABLE_STATUS
+        raise VisionError(
+            "VISION_API_ERROR", f"Vision API 오류 ({response.status_code})", retryable, retry_after
+        )
+
+    def _backoff(self, attempt, retry_after):
+        """full jitter 지수 백오프 (서버가 Retry-After를 주면 그 값 사용)"""
+        if retry_after is not None:
+            return min(retry_after, BACKOFF_MAX_SECONDS)
+        return random.uniform(0, min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** attempt))
+
+
+def _rpc_error(error):
+    """응답 본문의 error(google.rpc.Status)를 VisionError로 변환"""
+    code = error.get("code")
+    message = f"Vision API 오류: {error.get('message', 'Unknown error')}"
+    if code == RPC_RESOURCE_EXHAUSTED:
+        return VisionError("QUOTA_EXCEEDED", message, retryable=True)
+    return VisionError("VISION_API_ERROR", message, retryable=code in RETRYABLE_RPC_CODES)
+
+
+def _retry_after_seconds(response):
+    try:
+        return max(float(response.headers.get("Retry-After")), 0.0)
+    except (TypeError, ValueError):
+        return None
+
+
+def _read_int_env(name, default):
+    try:
+        return max(int(os.environ.get(name, default)), 0)
+    except ValueError:
+        return default